@@ -18,6 +18,35 @@ function getApiBasePathFromLocation() {
 }
 
 const API_BASE_PATH = getApiBasePathFromLocation();
+const API_KEY_STORAGE_KEY = 'apiKey';
+let apiKeyPrompted = false;
+
+// Fetch API with the client key (required when `clients` are configured on the server).
+// On 401/403 the key is asked once per page load and the request is repeated.
+async function apiFetch(url, options = {}) {
+    const send = () => {
+        const apiKey = localStorage.getItem(API_KEY_STORAGE_KEY);
+        const headers = { ...(options.headers || {}) };
+        if (apiKey) {
+            headers['Authorization'] = `Bearer ${apiKey}`;
+        }
+        return fetch(url, { ...options, headers });
+    };
+
+    const response = await send();
+    if ((response.status !== 401 && response.status !== 403) || apiKeyPrompted) {
+        return response;
+    }
+
+    apiKeyPrompted = true;
+    const apiKey = window.prompt('API key (admin key is required for monitoring):');
+    if (!apiKey) {
+        return response;
+    }
+
+    localStorage.setItem(API_KEY_STORAGE_KEY, apiKey.trim());
+    return send();
+}
 
 const REFRESH_INTERVAL = 5000; // 5 seconds
 let refreshTimer = null;
@@ -141,7 +170,7 @@ function updateServiceStatus(isHealthy) {
 // Load Metrics
 async function loadMetrics() {
     try {
-        const response = await fetch(`${API_BASE_PATH}/admin/metrics`);
+        const response = await apiFetch(`${API_BASE_PATH}/admin/metrics`);
 
         if (!response.ok) {
             throw new Error(`HTTP error! status: ${response.status}`);
@@ -183,7 +212,7 @@ async function loadModels() {
     updateFilterIndicator();
 
     try {
-        const response = await fetch(`${API_BASE_PATH}/admin/state`);
+        const response = await apiFetch(`${API_BASE_PATH}/admin/state`);
 
         if (!response.ok) {
             throw new Error(`HTTP error! status: ${response.status}`);
@@ -411,7 +440,7 @@ async function loadRateLimits() {
     container.innerHTML = '<div class="loading-state">Loading rate limits...</div>';
 
     try {
-        const response = await fetch(`${API_BASE_PATH}/admin/rate-limits`);
+        const response = await apiFetch(`${API_BASE_PATH}/admin/rate-limits`);
 
         if (!response.ok) {
             throw new Error(`HTTP error! status: ${response.status}`);
@@ -586,7 +615,7 @@ async function sendTestRequest() {
 }
 
 async function handleNormalRequest(requestBody, responseContainer, startTime) {
-    const response = await fetch(`${API_BASE_PATH}/chat/completions`, {
+    const response = await apiFetch(`${API_BASE_PATH}/chat/completions`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
@@ -605,7 +634,7 @@ async function handleNormalRequest(requestBody, responseContainer, startTime) {
 }
 
 async function handleStreamingRequest(requestBody, responseContainer, startTime) {
-    const response = await fetch(`${API_BASE_PATH}/chat/completions`, {
+    const response = await apiFetch(`${API_BASE_PATH}/chat/completions`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
@@ -8,6 +8,7 @@ import appConfig from './config/app.config.js';
 import type { AppConfig } from './config/app.config.js';
 import { RouterConfigModule } from './config/router-config.module.js';
 import { AdminModule } from './modules/admin/admin.module.js';
+import { AuthModule } from './modules/auth/auth.module.js';
 import { DashboardModule } from './modules/dashboard/dashboard.module.js';
 import { HealthModule } from './modules/health/health.module.js';
 import { RateLimiterModule } from './modules/rate-limiter/rate-limiter.module.js';
@@ -99,6 +100,7 @@ import { ShutdownModule } from './modules/shutdown/shutdown.module.js';
       },
     }),
     ShutdownModule,
+    AuthModule,
     RateLimiterModule,
     DashboardModule,
     AdminModule,
@@ -14,11 +14,26 @@ export const SHUTDOWN_TIMEOUT_MS = 25_000;
  */
 export const STALE_BUCKET_THRESHOLD_MS = 600_000;
 
+/**
+ * Default exclusion period of a rate limited API key in seconds
+ */
+export const DEFAULT_API_KEY_COOLDOWN_SECS = 60;
+
+/**
+ * Default idle interval in seconds after which a `: keep-alive` SSE comment is sent
+ */
+export const DEFAULT_SSE_HEARTBEAT_SECS = 15;
+
 /**
  * Fetch timeout for loading models from URL in milliseconds (30 seconds)
  */
 export const MODELS_FETCH_TIMEOUT_MS = 30_000;
 
+/**
+ * Default Ollama server URL (native API root, OpenAI-compatible API is served under /v1)
+ */
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+
 /**
  * Cleanup interval for stale data in milliseconds (1 minute)
  */
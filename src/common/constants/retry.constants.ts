@@ -3,3 +3,20 @@
  * Applied to retry delays to prevent thundering herd problem
  */
 export const RETRY_JITTER_PERCENT = 20;
+
+/**
+ * Default upper bound of a backoff delay between retries (ms)
+ */
+export const DEFAULT_MAX_RETRY_DELAY = 30_000;
+
+/**
+ * Default maximum wait advised by provider `Retry-After` headers (ms).
+ * Longer advised waits switch to the next model instead of retrying.
+ */
+export const DEFAULT_MAX_RETRY_AFTER_DELAY = 10_000;
+
+/**
+ * Minimum remaining request budget (ms) to start another attempt.
+ * Attempts that can't get at least this much time are skipped.
+ */
+export const MIN_ATTEMPT_BUDGET_MS = 1000;
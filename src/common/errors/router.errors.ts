@@ -39,3 +39,46 @@ export class RequestCancelledError extends HttpException {
     this.name = 'RequestCancelledError';
   }
 }
+
+export class ClientQuotaExceededError extends HttpException {
+  constructor(
+    public readonly clientName: string,
+    public readonly limit: string,
+    public readonly retryAfterSecs: number,
+  ) {
+    super(
+      {
+        message: `Client quota exceeded: ${limit}`,
+        error: {
+          message: `Client "${clientName}" exceeded ${limit} quota, retry after ${retryAfterSecs}s`,
+          type: 'rate_limit_error',
+          code: 'client_quota_exceeded',
+        },
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+    this.name = 'ClientQuotaExceededError';
+  }
+}
+
+export class DeadlineExceededError extends HttpException {
+  constructor(
+    public readonly totalTimeoutSecs: number,
+    public readonly attemptCount: number,
+    public readonly errors: Array<{
+      provider: string;
+      model: string;
+      error: string;
+      code?: number;
+    }>,
+  ) {
+    super(
+      {
+        message: `Request deadline of ${totalTimeoutSecs}s exceeded after ${attemptCount} attempts`,
+        errors,
+      },
+      HttpStatus.GATEWAY_TIMEOUT,
+    );
+    this.name = 'DeadlineExceededError';
+  }
+}
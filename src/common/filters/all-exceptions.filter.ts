@@ -8,6 +8,7 @@ import {
 } from '@nestjs/common';
 import { PinoLogger } from 'nestjs-pino';
 import type { FastifyReply, FastifyRequest } from 'fastify';
+import { ClientQuotaExceededError } from '../errors/router.errors.js';
 
 /**
  * Global exception filter that catches all exceptions
@@ -43,6 +44,10 @@ export class AllExceptionsFilter implements ExceptionFilter {
       this.logger.warn(`${request.method} ${request.url} - ${status} - ${message}`);
     }
 
+    if (exception instanceof ClientQuotaExceededError) {
+      response.header('Retry-After', String(exception.retryAfterSecs));
+    }
+
     void response.status(status).send({
       statusCode: status,
       timestamp: new Date().toISOString(),
@@ -103,6 +103,28 @@ export class ErrorExtractor {
     return undefined;
   }
 
+  /**
+   * Extract retry delay advised by the provider (`error.retry_after_ms` of provider exceptions)
+   */
+  public static extractRetryAfterMs(error: unknown): number | undefined {
+    if (!(error instanceof HttpException)) {
+      return undefined;
+    }
+
+    const response = error.getResponse();
+    if (typeof response !== 'object' || response === null || !('error' in response)) {
+      return undefined;
+    }
+
+    const err = (response as { error: unknown }).error;
+    if (typeof err !== 'object' || err === null) {
+      return undefined;
+    }
+
+    const retryAfterMs = (err as Record<string, unknown>).retry_after_ms;
+    return typeof retryAfterMs === 'number' ? retryAfterMs : undefined;
+  }
+
   public static isAbortError(error: unknown): boolean {
     if (!(error instanceof Error)) {
       return false;
@@ -144,6 +166,13 @@ export class ErrorExtractor {
     return code === 429;
   }
 
+  /**
+   * Check if error means the API key quota is exhausted (429 rate limit or 402 payment required)
+   */
+  public static isQuotaError(code?: number): boolean {
+    return code === 429 || code === 402;
+  }
+
   /**
    * Check if error is a retryable network error (local network issues).
    * These errors may be temporary and worth retrying on the same model.
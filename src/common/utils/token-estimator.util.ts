@@ -0,0 +1,40 @@
+import type {
+  ChatMessage,
+  TokenUsage,
+} from '../../modules/providers/interfaces/provider.interface.js';
+
+/**
+ * Rough token count estimation for providers that don't report usage.
+ * Uses the common ~4 characters per token approximation.
+ */
+export class TokenEstimator {
+  private static readonly CHARS_PER_TOKEN = 4;
+
+  /**
+   * Per-message overhead for role and formatting tokens
+   */
+  private static readonly MESSAGE_OVERHEAD_TOKENS = 4;
+
+  public static estimateText(text: string): number {
+    return Math.ceil(text.length / this.CHARS_PER_TOKEN);
+  }
+
+  public static estimateMessages(messages: ChatMessage[]): number {
+    return messages.reduce((total, message) => {
+      const text =
+        typeof message.content === 'string'
+          ? message.content
+          : (message.content ?? []).map(part => part.text ?? '').join('');
+      const toolCalls = message.tool_calls ? JSON.stringify(message.tool_calls) : '';
+
+      return total + this.MESSAGE_OVERHEAD_TOKENS + this.estimateText(text + toolCalls);
+    }, 0);
+  }
+
+  public static estimateUsage(messages: ChatMessage[], completion: string): TokenUsage {
+    const promptTokens = this.estimateMessages(messages);
+    const completionTokens = this.estimateText(completion);
+
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
@@ -1,3 +1,31 @@
+import type { ExtraParam } from '../modules/providers/interfaces/provider.interface.js';
+
+/**
+ * Provider implementation type
+ */
+export type ProviderType =
+  | 'openrouter'
+  | 'deepseek'
+  | 'anthropic'
+  | 'gemini'
+  | 'ollama'
+  | 'openai-compatible';
+
+/**
+ * How the API key is sent to the provider
+ * - bearer: `Authorization: Bearer <apiKey>`
+ * - header: `<authHeader>: <apiKey>`
+ * - none: no authentication (e.g. local vLLM/Ollama)
+ */
+export type ProviderAuthScheme = 'bearer' | 'header' | 'none';
+
+/**
+ * How the next key is picked when a provider has several API keys
+ * - round-robin: keys are used in turn
+ * - least-recently-limited: the key that hit a quota longest ago (or never) is used
+ */
+export type ApiKeyRotation = 'round-robin' | 'least-recently-limited';
+
 /**
  * Provider configuration
  */
@@ -8,14 +36,64 @@ export interface ProviderConfig {
   enabled: boolean;
 
   /**
-   * Provider API key
+   * Provider implementation type.
+   * Optional for built-in providers (`openrouter`, `deepseek`, `anthropic`, `gemini`, `ollama`)
+   * where it is inferred from the key, required for any other provider name.
    */
-  apiKey: string;
+  type?: ProviderType;
 
   /**
-   * Provider base URL (optional, defaults will be used if not provided)
+   * Provider API key (optional when authScheme is `none` and for `ollama`)
+   */
+  apiKey?: string;
+
+  /**
+   * Several API keys rotated between requests (alternative to apiKey).
+   * A key that returns 429/402 is excluded for keyCooldownSecs.
+   */
+  apiKeys?: string[];
+
+  /**
+   * Key rotation strategy (default: round-robin)
+   */
+  keyRotation?: ApiKeyRotation;
+
+  /**
+   * How long a rate limited key is excluded from rotation, in seconds (default: 60)
+   */
+  keyCooldownSecs?: number;
+
+  /**
+   * Provider base URL (optional for built-in providers, required for `openai-compatible`)
    */
   baseUrl?: string;
+
+  /**
+   * Extra HTTP headers sent with every request (`openai-compatible` only)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Authentication scheme (`openai-compatible` only, default: bearer)
+   */
+  authScheme?: ProviderAuthScheme;
+
+  /**
+   * Header name used when authScheme is `header` (default: x-api-key)
+   */
+  authHeader?: string;
+
+  /**
+   * Discover locally installed models via `/api/tags` at startup (`ollama` only, default: true)
+   */
+  discoverModels?: boolean;
+
+  /**
+   * Extra OpenAI parameters (seed, logprobs, top_k, ...) accepted by the API,
+   * others are dropped (`openai-compatible` and `ollama` only).
+   * Default: OpenAI API parameters for `openai-compatible`, `seed` for `ollama`
+   */
+  supportedParams?: ExtraParam[];
 }
 
 /**
@@ -38,6 +116,14 @@ export interface FallbackConfig {
   model: string;
 }
 
+/**
+ * Delay growth between retries on the same model:
+ * - fixed: retryDelay ± jitter on every retry
+ * - exponential: retryDelay * 2^(retry - 1) ± jitter
+ * - decorrelated-jitter: random between retryDelay and 3x the previous delay
+ */
+export type RetryBackoffStrategy = 'fixed' | 'exponential' | 'decorrelated-jitter';
+
 /**
  * Routing configuration
  */
@@ -57,15 +143,56 @@ export interface RoutingConfig {
    */
   retryDelay: number;
 
+  /**
+   * Backoff strategy of retries on the same model (default: fixed)
+   */
+  retryBackoff?: RetryBackoffStrategy;
+
+  /**
+   * Upper bound of a backoff delay in milliseconds (default: 30000)
+   */
+  maxRetryDelay?: number;
+
+  /**
+   * Maximum wait in milliseconds advised by provider `Retry-After` / `x-ratelimit-reset*`
+   * headers on the same model. Longer advised waits switch to the next model (default: 10000)
+   */
+  maxRetryAfterDelay?: number;
+
   /**
    * Request timeout in seconds
    */
   timeoutSecs: number;
 
+  /**
+   * Total request deadline in seconds across all retries, model switches and fallback.
+   * Provider timeouts are shrunk to the remaining budget (default: no limit)
+   */
+  totalTimeoutSecs?: number;
+
+  /**
+   * Idle interval in seconds after which a `: keep-alive` comment is written to SSE streams,
+   * so reverse proxies don't drop connections while the model is silent. 0 disables (default: 15)
+   */
+  sseHeartbeatSecs?: number;
+
+  /**
+   * Return reasoning as content when a model returns empty content and no tool calls.
+   * Some reasoning models (e.g. gpt-oss) put the whole answer into reasoning.
+   * Not applied in JSON response mode and streaming (default: true)
+   */
+  reasoningAsContent?: boolean;
+
   /**
    * Fallback configuration
    */
   fallback: FallbackConfig;
+
+  /**
+   * Fallback embedding model used when all embedding models failed
+   * (optional, embeddings requests have no fallback when not set)
+   */
+  embeddingsFallback?: FallbackConfig;
 }
 
 /**
@@ -167,6 +294,61 @@ export interface ModelOverrideConfig {
    * Override tools/function calling support
    */
   supportsTools?: boolean;
+
+  /**
+   * Override last-resort flag (used only when no other candidate is available)
+   */
+  lastResort?: boolean;
+}
+
+/**
+ * Client (inbound API key) configuration
+ */
+export interface ClientConfig {
+  /**
+   * Client name (reported in `_router.client` and logs)
+   */
+  name: string;
+
+  /**
+   * API key sent by the client as `Authorization: Bearer <key>` or `x-api-key: <key>`
+   */
+  apiKey: string;
+
+  /**
+   * Only models having at least one of these tags can be used (default: any)
+   */
+  allowedTags?: string[];
+
+  /**
+   * Only models of these providers can be used (default: any)
+   */
+  allowedProviders?: string[];
+
+  /**
+   * Whether the paid fallback model can be used (default: true)
+   */
+  allowPaidFallback?: boolean;
+
+  /**
+   * Access to `/admin/*` endpoints (default: false)
+   */
+  admin?: boolean;
+
+  /**
+   * Maximum chat completion requests per minute (default: unlimited)
+   */
+  requestsPerMinute?: number;
+
+  /**
+   * Maximum tokens per day, counted from `usage` of provider responses (default: unlimited)
+   */
+  tokensPerDay?: number;
+
+  /**
+   * Maximum paid fallback calls per day (default: unlimited)
+   */
+  paidFallbackPerDay?: number;
 }
 
 /**
@@ -206,4 +388,10 @@ export interface RouterConfig {
    * Protection against skew/overload of specific models
    */
   modelRequestsPerMinute?: number;
+
+  /**
+   * Clients allowed to call the API.
+   * When not set, the API is open and no authentication is required.
+   */
+  clients?: ClientConfig[];
 }
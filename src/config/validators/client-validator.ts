@@ -0,0 +1,55 @@
+import { BaseValidator, ConfigValidationError } from './config-validator.js';
+import type { ClientConfig } from '../router-config.interface.js';
+
+export class ClientValidator extends BaseValidator<ClientConfig[]> {
+  public validate(value: unknown, path: string): asserts value is ClientConfig[] {
+    this.assertArray(value, path);
+
+    const apiKeys = new Set<string>();
+
+    for (const [index, client] of value.entries()) {
+      this.validateClient(client, `${path}[${index}]`);
+
+      const { apiKey } = client as ClientConfig;
+      if (apiKeys.has(apiKey)) {
+        throw new ConfigValidationError(`${path}[${index}].apiKey is used by another client`);
+      }
+      apiKeys.add(apiKey);
+    }
+  }
+
+  private validateClient(value: unknown, path: string): void {
+    this.assertType(value, 'object', path);
+
+    const client = value;
+
+    this.assertString(client.name, `${path}.name`);
+    this.assertString(client.apiKey, `${path}.apiKey`);
+
+    if (client.apiKey.length === 0) {
+      throw new ConfigValidationError(`${path}.apiKey must not be empty`);
+    }
+
+    for (const field of ['allowedTags', 'allowedProviders'] as const) {
+      const list = client[field];
+      if (list !== undefined) {
+        this.assertArray(list, `${path}.${field}`);
+        list.forEach((item, index) => this.assertString(item, `${path}.${field}[${index}]`));
+      }
+    }
+
+    if (client.allowPaidFallback !== undefined) {
+      this.assertBoolean(client.allowPaidFallback, `${path}.allowPaidFallback`);
+    }
+
+    if (client.admin !== undefined) {
+      this.assertBoolean(client.admin, `${path}.admin`);
+    }
+
+    for (const field of ['requestsPerMinute', 'tokensPerDay', 'paidFallbackPerDay'] as const) {
+      if (client[field] !== undefined) {
+        this.assertNumber(client[field], `${path}.${field}`, 1);
+      }
+    }
+  }
+}
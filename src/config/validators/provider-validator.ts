@@ -1,26 +1,111 @@
-import { BaseValidator } from './config-validator.js';
-import type { RouterConfig } from '../router-config.interface.js';
+import { BaseValidator, ConfigValidationError } from './config-validator.js';
+import type { RouterConfig, ProviderType } from '../router-config.interface.js';
 
 export class ProviderValidator extends BaseValidator<RouterConfig['providers']> {
+  private static readonly PROVIDER_TYPES: readonly ProviderType[] = [
+    'openrouter',
+    'deepseek',
+    'anthropic',
+    'gemini',
+    'ollama',
+    'openai-compatible',
+  ];
+  private static readonly BUILT_IN_PROVIDERS: readonly string[] = [
+    'openrouter',
+    'deepseek',
+    'anthropic',
+    'gemini',
+    'ollama',
+  ];
+  private static readonly AUTH_SCHEMES = ['bearer', 'header', 'none'] as const;
+  private static readonly KEY_ROTATIONS = ['round-robin', 'least-recently-limited'] as const;
+  private static readonly EXTRA_PARAMS = [
+    'seed',
+    'logit_bias',
+    'logprobs',
+    'top_logprobs',
+    'user',
+    'parallel_tool_calls',
+    'min_p',
+    'top_k',
+    'repetition_penalty',
+  ] as const;
+
   public validate(value: unknown, path: string): asserts value is RouterConfig['providers'] {
     this.assertType(value, 'object', path);
 
     const providers = value;
 
     for (const [providerName, providerConfig] of Object.entries(providers)) {
-      this.validateProvider(providerConfig, `${path}.${providerName}`);
+      this.validateProvider(providerName, providerConfig, `${path}.${providerName}`);
     }
   }
 
-  private validateProvider(value: unknown, path: string): void {
+  private validateProvider(providerName: string, value: unknown, path: string): void {
     this.assertType(value, 'object', path);
 
     const config = value;
 
     this.assertBoolean(config.enabled, `${path}.enabled`);
-    this.assertString(config.apiKey, `${path}.apiKey`);
-    if (config.baseUrl !== undefined) {
+
+    // Type can only be omitted for built-in providers, where it is inferred from the name
+    if (config.type !== undefined || !ProviderValidator.BUILT_IN_PROVIDERS.includes(providerName)) {
+      this.assertEnum(config.type, ProviderValidator.PROVIDER_TYPES, `${path}.type`);
+    }
+
+    if (config.authScheme !== undefined) {
+      this.assertEnum(config.authScheme, ProviderValidator.AUTH_SCHEMES, `${path}.authScheme`);
+    }
+
+    if (config.apiKeys !== undefined) {
+      this.assertArray(config.apiKeys, `${path}.apiKeys`);
+      if (config.apiKeys.length === 0) {
+        throw new ConfigValidationError(`${path}.apiKeys must not be empty`);
+      }
+      config.apiKeys.forEach((key, index) => this.assertString(key, `${path}.apiKeys[${index}]`));
+    }
+
+    // Local Ollama server does not require authentication
+    const isOllama = (config.type ?? providerName) === 'ollama';
+    if (
+      (config.authScheme !== 'none' && !isOllama && config.apiKeys === undefined) ||
+      config.apiKey !== undefined
+    ) {
+      this.assertString(config.apiKey, `${path}.apiKey`);
+    }
+
+    if (config.keyRotation !== undefined) {
+      this.assertEnum(config.keyRotation, ProviderValidator.KEY_ROTATIONS, `${path}.keyRotation`);
+    }
+
+    if (config.keyCooldownSecs !== undefined) {
+      this.assertNumber(config.keyCooldownSecs, `${path}.keyCooldownSecs`, 1);
+    }
+
+    if (config.type === 'openai-compatible' || config.baseUrl !== undefined) {
       this.assertString(config.baseUrl, `${path}.baseUrl`);
     }
+
+    if (config.authHeader !== undefined) {
+      this.assertString(config.authHeader, `${path}.authHeader`);
+    }
+
+    if (config.supportedParams !== undefined) {
+      this.assertArray(config.supportedParams, `${path}.supportedParams`);
+      config.supportedParams.forEach((param, index) =>
+        this.assertEnum(param, ProviderValidator.EXTRA_PARAMS, `${path}.supportedParams[${index}]`),
+      );
+    }
+
+    if (config.discoverModels !== undefined) {
+      this.assertBoolean(config.discoverModels, `${path}.discoverModels`);
+    }
+
+    if (config.headers !== undefined) {
+      this.assertType(config.headers, 'object', `${path}.headers`);
+      for (const [headerName, headerValue] of Object.entries(config.headers)) {
+        this.assertString(headerValue, `${path}.headers.${headerName}`);
+      }
+    }
   }
 }
@@ -2,12 +2,25 @@ import { BaseValidator } from './config-validator.js';
 import { ProviderValidator } from './provider-validator.js';
 import { RoutingValidator } from './routing-validator.js';
 import { CircuitBreakerValidator } from './circuit-breaker-validator.js';
+import { ClientValidator } from './client-validator.js';
 import type { RouterConfig } from '../router-config.interface.js';
 
 export class RouterConfigValidator extends BaseValidator<RouterConfig> {
+  private static readonly BOOLEAN_OVERRIDE_FIELDS = [
+    'available',
+    'jsonResponse',
+    'supportsImage',
+    'supportsVideo',
+    'supportsAudio',
+    'supportsFile',
+    'supportsTools',
+    'lastResort',
+  ] as const;
+
   private readonly providerValidator: ProviderValidator = new ProviderValidator();
   private readonly routingValidator: RoutingValidator = new RoutingValidator();
   private readonly circuitBreakerValidator: CircuitBreakerValidator = new CircuitBreakerValidator();
+  private readonly clientValidator: ClientValidator = new ClientValidator();
 
   public validate(value: unknown, path = 'RouterConfig'): asserts value is RouterConfig {
     this.assertType(value, 'object', path);
@@ -29,6 +42,10 @@ export class RouterConfigValidator extends BaseValidator<RouterConfig> {
     if (config.modelOverrides !== undefined) {
       this.validateModelOverrides(config.modelOverrides, `${path}.modelOverrides`);
     }
+
+    if (config.clients !== undefined) {
+      this.clientValidator.validate(config.clients, `${path}.clients`);
+    }
   }
 
   /**
@@ -86,7 +103,7 @@ export class RouterConfigValidator extends BaseValidator<RouterConfig> {
     }
 
     if (override.weight !== undefined) {
-      this.assertNumber(override.weight, `${path}.weight`);
+      this.assertNumber(override.weight, `${path}.weight`, 1, 100);
     }
 
     if (override.tags !== undefined) {
@@ -101,8 +118,10 @@ export class RouterConfigValidator extends BaseValidator<RouterConfig> {
       this.assertNumber(override.maxOutputTokens, `${path}.maxOutputTokens`);
     }
 
-    if (override.available !== undefined) {
-      this.assertBoolean(override.available, `${path}.available`);
+    for (const field of RouterConfigValidator.BOOLEAN_OVERRIDE_FIELDS) {
+      if (override[field] !== undefined) {
+        this.assertBoolean(override[field], `${path}.${field}`);
+      }
     }
   }
 }
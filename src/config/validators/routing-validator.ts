@@ -2,6 +2,12 @@ import { BaseValidator } from './config-validator.js';
 import type { RouterConfig } from '../router-config.interface.js';
 
 export class RoutingValidator extends BaseValidator<RouterConfig['routing']> {
+  private static readonly RETRY_BACKOFF_STRATEGIES = [
+    'fixed',
+    'exponential',
+    'decorrelated-jitter',
+  ] as const;
+
   public validate(value: unknown, path: string): asserts value is RouterConfig['routing'] {
     this.assertType(value, 'object', path);
 
@@ -10,9 +16,34 @@ export class RoutingValidator extends BaseValidator<RouterConfig['routing']> {
     this.assertNumber(routing.maxModelSwitches, `${path}.maxModelSwitches`, 0, 10);
     this.assertNumber(routing.maxSameModelRetries, `${path}.maxSameModelRetries`, 0, 10);
     this.assertNumber(routing.retryDelay, `${path}.retryDelay`, 0, 30000);
+    if (routing.retryBackoff !== undefined) {
+      this.assertEnum(
+        routing.retryBackoff,
+        RoutingValidator.RETRY_BACKOFF_STRATEGIES,
+        `${path}.retryBackoff`,
+      );
+    }
+    if (routing.maxRetryDelay !== undefined) {
+      this.assertNumber(routing.maxRetryDelay, `${path}.maxRetryDelay`, 0, 300000);
+    }
+    if (routing.maxRetryAfterDelay !== undefined) {
+      this.assertNumber(routing.maxRetryAfterDelay, `${path}.maxRetryAfterDelay`, 0, 300000);
+    }
     this.assertNumber(routing.timeoutSecs, `${path}.timeoutSecs`, 0, 600);
+    if (routing.totalTimeoutSecs !== undefined) {
+      this.assertNumber(routing.totalTimeoutSecs, `${path}.totalTimeoutSecs`, 1, 3600);
+    }
+    if (routing.sseHeartbeatSecs !== undefined) {
+      this.assertNumber(routing.sseHeartbeatSecs, `${path}.sseHeartbeatSecs`, 0, 300);
+    }
+    if (routing.reasoningAsContent !== undefined) {
+      this.assertBoolean(routing.reasoningAsContent, `${path}.reasoningAsContent`);
+    }
 
     this.validateFallback(routing.fallback, `${path}.fallback`);
+    if (routing.embeddingsFallback !== undefined) {
+      this.validateFallback(routing.embeddingsFallback, `${path}.embeddingsFallback`);
+    }
   }
 
   private validateFallback(value: unknown, path: string): void {
@@ -4,7 +4,9 @@ import { RateLimiterService } from '../rate-limiter/rate-limiter.service.js';
 import { ModelsService } from '../models/models.service.js';
 import type { ModelState } from '../state/interfaces/state.interface.js';
 import type { RateLimitStatus } from '../rate-limiter/interfaces/rate-limiter.interface.js';
+import { AdminOnly } from '../auth/auth.decorators.js';
 
+@AdminOnly()
 @Controller('admin')
 export class AdminController {
   private readonly logger = new Logger(AdminController.name);
@@ -46,6 +48,8 @@ export class AdminController {
         // Also include raw model ID for reference
         model: modelDef?.model || '',
         provider: modelDef?.provider || '',
+        // Fields replaced by modelOverrides from config.yaml
+        overriddenFields: modelDef ? this.modelsService.getOverriddenFields(modelDef) : [],
       };
     });
 
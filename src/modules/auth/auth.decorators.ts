@@ -0,0 +1,24 @@
+import { createParamDecorator, SetMetadata, type ExecutionContext } from '@nestjs/common';
+import type { AuthenticatedRequest } from './interfaces/authenticated-request.interface.js';
+import type { ClientConfig } from '../../config/router-config.interface.js';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+export const ADMIN_ONLY_KEY = 'adminOnly';
+
+/**
+ * Mark route or controller as accessible without API key
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+/**
+ * Mark route or controller as accessible only to clients with `admin: true`
+ */
+export const AdminOnly = () => SetMetadata(ADMIN_ONLY_KEY, true);
+
+/**
+ * Inject the authenticated client (undefined when no clients are configured)
+ */
+export const CurrentClient = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): ClientConfig | undefined =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().client,
+);
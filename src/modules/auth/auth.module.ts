@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { ClientAuthGuard } from './client-auth.guard.js';
+
+/**
+ * Authentication module.
+ * Registers ClientAuthGuard globally for all routes.
+ */
+@Module({
+  providers: [
+    {
+      provide: APP_GUARD,
+      useClass: ClientAuthGuard,
+    },
+  ],
+})
+export class AuthModule {}
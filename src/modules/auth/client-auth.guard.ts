@@ -0,0 +1,74 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  UnauthorizedException,
+  ForbiddenException,
+  type CanActivate,
+  type ExecutionContext,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ROUTER_CONFIG } from '../../config/router-config.provider.js';
+import type { ClientConfig, RouterConfig } from '../../config/router-config.interface.js';
+import type { AuthenticatedRequest } from './interfaces/authenticated-request.interface.js';
+import { ADMIN_ONLY_KEY, IS_PUBLIC_KEY } from './auth.decorators.js';
+
+/**
+ * Global guard authenticating clients by API key.
+ * The key is taken from `Authorization: Bearer <key>` or `x-api-key` header.
+ * Authentication is disabled when `clients` is not set in config.
+ */
+@Injectable()
+export class ClientAuthGuard implements CanActivate {
+  private readonly logger = new Logger(ClientAuthGuard.name);
+  private readonly clientsByKey?: Map<string, ClientConfig>;
+
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(ROUTER_CONFIG) config: RouterConfig,
+  ) {
+    if (config.clients) {
+      this.clientsByKey = new Map(config.clients.map(client => [client.apiKey, client]));
+      this.logger.log(`Client authentication enabled for ${config.clients.length} client(s)`);
+    }
+  }
+
+  public canActivate(context: ExecutionContext): boolean {
+    if (!this.clientsByKey) {
+      return true;
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const apiKey = this.extractApiKey(request);
+    if (!apiKey) {
+      throw new UnauthorizedException('API key is required');
+    }
+
+    const client = this.clientsByKey.get(apiKey);
+    if (!client) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    if (this.reflector.getAllAndOverride<boolean>(ADMIN_ONLY_KEY, targets) && !client.admin) {
+      throw new ForbiddenException(`Client "${client.name}" has no admin access`);
+    }
+
+    request.client = client;
+    return true;
+  }
+
+  private extractApiKey(request: AuthenticatedRequest): string | undefined {
+    const authorization = request.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length).trim() || undefined;
+    }
+
+    const headerKey = request.headers['x-api-key'];
+    return typeof headerKey === 'string' && headerKey ? headerKey : undefined;
+  }
+}
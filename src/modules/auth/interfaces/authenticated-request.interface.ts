@@ -0,0 +1,12 @@
+import type { FastifyRequest } from 'fastify';
+import type { ClientConfig } from '../../../config/router-config.interface.js';
+
+/**
+ * Request with the client resolved from its API key
+ */
+export interface AuthenticatedRequest extends FastifyRequest {
+  /**
+   * Authenticated client (undefined when no clients are configured)
+   */
+  client?: ClientConfig;
+}
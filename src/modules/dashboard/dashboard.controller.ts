@@ -3,6 +3,7 @@ import type { FastifyReply } from 'fastify';
 import { join, extname, normalize } from 'path';
 import { readFile, access } from 'fs/promises';
 import { constants } from 'fs';
+import { Public } from '../auth/auth.decorators.js';
 
 const dashboardBasePath = (process.env.BASE_PATH ?? '').replace(/^\/+|\/+$/g, '');
 const dashboardControllerPath = [dashboardBasePath, 'ui'].filter(Boolean).join('/');
@@ -10,7 +11,9 @@ const dashboardControllerPath = [dashboardBasePath, 'ui'].filter(Boolean).join('
 /**
  * Controller for serving static UI dashboard files
  * Serves the monitoring dashboard from the /public directory
+ * Static files are public, the dashboard sends the API key itself when calling the API
  */
+@Public()
 @Controller(dashboardControllerPath)
 export class DashboardController {
   private readonly publicPath: string;
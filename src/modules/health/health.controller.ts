@@ -1,9 +1,11 @@
 import { Controller, Get } from '@nestjs/common';
+import { Public } from '../auth/auth.decorators.js';
 
 /**
  * Simple health check controller
- * Provides a minimal `/health` endpoint
+ * Provides a minimal `/health` endpoint (no API key required)
  */
+@Public()
 @Controller('health')
 export class HealthController {
   /**
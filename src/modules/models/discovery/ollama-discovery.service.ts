@@ -0,0 +1,150 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import type { ModelDefinition } from '../interfaces/model.interface.js';
+import { MODELS_FETCH_TIMEOUT_MS } from '../../../common/constants/app.constants.js';
+
+/**
+ * Context size used when /api/show does not report one
+ */
+const DEFAULT_CONTEXT_SIZE = 4096;
+
+/**
+ * Ollama /api/tags response format
+ */
+interface OllamaTagsResponse {
+  models?: Array<{
+    name: string;
+    model?: string;
+    details?: {
+      family?: string;
+      parameter_size?: string;
+    };
+  }>;
+}
+
+/**
+ * Ollama /api/show response format
+ */
+interface OllamaShowResponse {
+  model_info?: Record<string, unknown>;
+  capabilities?: string[];
+}
+
+/**
+ * Discovers models installed on an Ollama server and converts them into model definitions.
+ * Discovered models are marked as last resort so that they are used only when
+ * no other candidate is available (before routing.fallback).
+ */
+@Injectable()
+export class OllamaDiscoveryService {
+  private readonly logger = new Logger(OllamaDiscoveryService.name);
+
+  constructor(private readonly httpService: HttpService) {}
+
+  /**
+   * Discover models of an Ollama provider.
+   * Returns undefined if the server is unreachable.
+   */
+  public async discover(
+    providerName: string,
+    baseUrl: string,
+  ): Promise<ModelDefinition[] | undefined> {
+    let tags: OllamaTagsResponse;
+    try {
+      const response = await firstValueFrom(
+        this.httpService.get<OllamaTagsResponse>('/api/tags', {
+          baseURL: baseUrl,
+          timeout: MODELS_FETCH_TIMEOUT_MS,
+        }),
+      );
+      tags = response.data;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to discover models of provider "${providerName}" at ${baseUrl}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return undefined;
+    }
+
+    const models: ModelDefinition[] = [];
+
+    for (const tag of tags.models ?? []) {
+      const modelId = tag.model ?? tag.name;
+      const info = await this.showModel(baseUrl, modelId);
+
+      models.push(this.toModelDefinition(providerName, modelId, tag.details?.family, info));
+    }
+
+    this.logger.log(`Discovered ${models.length} models of provider "${providerName}"`);
+
+    return models;
+  }
+
+  /**
+   * Fetch model details via /api/show (context length, capabilities)
+   */
+  private async showModel(baseUrl: string, model: string): Promise<OllamaShowResponse | undefined> {
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post<OllamaShowResponse>(
+          '/api/show',
+          { model },
+          { baseURL: baseUrl, timeout: MODELS_FETCH_TIMEOUT_MS },
+        ),
+      );
+      return response.data;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to get details of model "${model}": ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return undefined;
+    }
+  }
+
+  private toModelDefinition(
+    providerName: string,
+    model: string,
+    family: string | undefined,
+    info: OllamaShowResponse | undefined,
+  ): ModelDefinition {
+    const capabilities = info?.capabilities ?? [];
+    const contextSize =
+      this.extractModelInfoNumber(info?.model_info, 'context_length') ?? DEFAULT_CONTEXT_SIZE;
+    // Embedding-only models have no completion capability
+    const isEmbedding = capabilities.length > 0 && !capabilities.includes('completion');
+
+    return {
+      name: model,
+      provider: providerName,
+      model,
+      type: isEmbedding ? 'embedding' : capabilities.includes('thinking') ? 'reasoning' : 'fast',
+      contextSize,
+      maxOutputTokens: contextSize,
+      tags: ['local', providerName, ...(family ? [family] : [])],
+      jsonResponse: !isEmbedding,
+      available: true,
+      supportsImage: capabilities.includes('vision'),
+      supportsTools: capabilities.includes('tools'),
+      lastResort: true,
+      dimensions: isEmbedding
+        ? this.extractModelInfoNumber(info?.model_info, 'embedding_length')
+        : undefined,
+    };
+  }
+
+  /**
+   * Model metadata is reported as `<architecture>.<key>` in model_info
+   * (e.g. `llama.context_length`, `bert.embedding_length`)
+   */
+  private extractModelInfoNumber(
+    modelInfo: Record<string, unknown> | undefined,
+    key: string,
+  ): number | undefined {
+    if (!modelInfo) {
+      return undefined;
+    }
+
+    const entry = Object.entries(modelInfo).find(([name]) => name.endsWith(`.${key}`));
+    return typeof entry?.[1] === 'number' ? entry[1] : undefined;
+  }
+}
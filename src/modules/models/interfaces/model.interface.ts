@@ -1,7 +1,7 @@
 /**
  * Model type classification
  */
-export type ModelType = 'fast' | 'reasoning';
+export type ModelType = 'fast' | 'reasoning' | 'embedding';
 
 /**
  * LLM model definition
@@ -93,6 +93,19 @@ export interface ModelDefinition {
    * Default: false
    */
   supportsTools?: boolean;
+
+  /**
+   * Last resort model (e.g. local Ollama model)
+   * If true, model is selected only when no other candidate is available,
+   * before routing.fallback is used
+   * Default: false
+   */
+  lastResort?: boolean;
+
+  /**
+   * Number of dimensions of output vectors (embedding models)
+   */
+  dimensions?: number;
 }
 
 /**
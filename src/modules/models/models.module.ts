@@ -1,13 +1,14 @@
 import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
 import { ModelsService } from './models.service.js';
+import { OllamaDiscoveryService } from './discovery/ollama-discovery.service.js';
 
 /**
  * Module for LLM models management
  */
 @Module({
   imports: [HttpModule],
-  providers: [ModelsService],
+  providers: [ModelsService, OllamaDiscoveryService],
   exports: [ModelsService],
 })
 export class ModelsModule { }
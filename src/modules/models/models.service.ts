@@ -2,8 +2,11 @@ import { Injectable, Logger, Inject } from '@nestjs/common';
 import * as yaml from 'js-yaml';
 import * as fs from 'fs';
 import { ROUTER_CONFIG } from '../../config/router-config.provider.js';
-import type { RouterConfig } from '../../config/router-config.interface.js';
-import type { ModelDefinition } from './interfaces/model.interface.js';
+import type { RouterConfig, ModelOverrideConfig } from '../../config/router-config.interface.js';
+import type { ModelDefinition, ModelType } from './interfaces/model.interface.js';
+import { ModelValidationError } from './validators/model-validator.js';
+import { OllamaDiscoveryService } from './discovery/ollama-discovery.service.js';
+import { DEFAULT_OLLAMA_BASE_URL } from '../../common/constants/app.constants.js';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
 
@@ -21,9 +24,9 @@ export interface FilterCriteria {
   tags?: string | string[];
 
   /**
-   * Model type
+   * Model type. Embedding models are matched only when requested explicitly.
    */
-  type?: 'fast' | 'reasoning';
+  type?: ModelType;
 
   /**
    * Minimum context size required
@@ -71,14 +74,35 @@ export interface FilterCriteria {
   provider?: string;
 }
 
+/**
+ * Model fields that can be overridden via `modelOverrides` in config.yaml
+ */
+const OVERRIDABLE_FIELDS = [
+  'weight',
+  'tags',
+  'contextSize',
+  'maxOutputTokens',
+  'available',
+  'jsonResponse',
+  'supportsImage',
+  'supportsVideo',
+  'supportsAudio',
+  'supportsFile',
+  'supportsTools',
+  'lastResort',
+] as const;
+
 @Injectable()
 export class ModelsService {
   private readonly logger = new Logger(ModelsService.name);
   private models: ModelDefinition[] = [];
+  private overriddenFields = new Map<ModelDefinition, string[]>();
+  private unavailableDiscoveries = new Set<string>();
 
   constructor(
     @Inject(ROUTER_CONFIG) private readonly config: RouterConfig,
     private readonly httpService: HttpService,
+    private readonly ollamaDiscovery: OllamaDiscoveryService,
   ) { }
 
   async onModuleInit() {
@@ -86,9 +110,14 @@ export class ModelsService {
   }
 
   /**
-   * Load models from YAML file or URL
+   * Load models from YAML file or URL, add models discovered on local providers
+   * and apply config overrides.
+   * Throws ModelValidationError if an override does not match any loaded model.
    */
   async loadModels() {
+    this.overriddenFields = new Map();
+    this.unavailableDiscoveries = new Set();
+
     try {
       const modelsFile = this.config.modelsFile;
       let content: string;
@@ -108,9 +137,105 @@ export class ModelsService {
     } catch (error) {
       this.logger.error(`Failed to load models: ${error instanceof Error ? error.message : String(error)}`);
       this.models = [];
+      return;
+    }
+
+    await this.discoverModels();
+    this.applyOverrides(this.config.modelOverrides ?? []);
+  }
+
+  /**
+   * Add models discovered on enabled Ollama providers.
+   * Models already listed in the models file take precedence.
+   * Providers whose server is unreachable are remembered, see applyOverrides.
+   */
+  private async discoverModels(): Promise<void> {
+    for (const [providerName, providerConfig] of Object.entries(this.config.providers ?? {})) {
+      const type = providerConfig.type ?? providerName;
+      if (!providerConfig.enabled || type !== 'ollama' || providerConfig.discoverModels === false) {
+        continue;
+      }
+
+      const discovered = await this.ollamaDiscovery.discover(
+        providerName,
+        providerConfig.baseUrl ?? DEFAULT_OLLAMA_BASE_URL,
+      );
+      if (!discovered) {
+        this.unavailableDiscoveries.add(providerName);
+        continue;
+      }
+
+      for (const model of discovered) {
+        const exists = this.models.some(
+          m => m.provider === model.provider && m.model === model.model,
+        );
+        if (!exists) {
+          this.models.push(model);
+        }
+      }
+    }
+  }
+
+  /**
+   * Merge `modelOverrides` into loaded model definitions.
+   * Overrides match on name; provider and model, if set, must match as well.
+   * Unmatched overrides are skipped with a warning while model discovery is unavailable,
+   * since their models may be missing only because the local server is down.
+   */
+  private applyOverrides(overrides: ModelOverrideConfig[]): void {
+    for (const override of overrides) {
+      const targets = this.models.filter(
+        m =>
+          m.name === override.name &&
+          (override.provider === undefined || m.provider === override.provider) &&
+          (override.model === undefined || m.model === override.model),
+      );
+
+      if (targets.length === 0) {
+        const details = [
+          override.provider ? `provider "${override.provider}"` : undefined,
+          override.model ? `model "${override.model}"` : undefined,
+        ].filter(Boolean);
+        const message = `Model override "${override.name}"${details.length > 0 ? ` (${details.join(', ')})` : ''} does not match any loaded model`;
+
+        if (this.isDiscoveryUnavailable(override.provider)) {
+          this.logger.warn(`${message}, skipped while model discovery is unavailable`);
+          continue;
+        }
+        throw new ModelValidationError(message);
+      }
+
+      const fields = OVERRIDABLE_FIELDS.filter(field => override[field] !== undefined);
+
+      for (const target of targets) {
+        Object.assign(target, Object.fromEntries(fields.map(field => [field, override[field]])));
+
+        const existing = this.overriddenFields.get(target) ?? [];
+        this.overriddenFields.set(target, [...new Set([...existing, ...fields])]);
+      }
+
+      this.logger.log(
+        `Applied override to ${targets.length} model(s) "${override.name}": ${fields.join(', ') || 'no fields'}`,
+      );
     }
   }
 
+  /**
+   * Check whether discovery failed for the provider, or for any provider if none is given
+   */
+  private isDiscoveryUnavailable(provider?: string): boolean {
+    return provider === undefined
+      ? this.unavailableDiscoveries.size > 0
+      : this.unavailableDiscoveries.has(provider);
+  }
+
+  /**
+   * Get the list of fields overridden via config for a model
+   */
+  public getOverriddenFields(model: ModelDefinition): string[] {
+    return this.overriddenFields.get(model) ?? [];
+  }
+
   /**
    * Get all loaded models
    */
@@ -214,7 +339,7 @@ export class ModelsService {
       return false;
     }
 
-    if (criteria.type && model.type !== criteria.type) {
+    if (criteria.type ? model.type !== criteria.type : model.type === 'embedding') {
       return false;
     }
 
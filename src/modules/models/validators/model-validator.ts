@@ -6,7 +6,7 @@ export class ModelValidationError extends Error {
 }
 
 export class ModelValidator {
-  private static readonly VALID_TYPES = ['fast', 'reasoning'] as const;
+  private static readonly VALID_TYPES = ['fast', 'reasoning', 'embedding'] as const;
 
   public static validateRequired(model: Record<string, unknown>): void {
     this.assertString(model.name, 'name');
@@ -24,6 +24,10 @@ export class ModelValidator {
     if (model.weight !== undefined) {
       this.assertNumberInRange(model.weight, 1, 100, 'weight');
     }
+
+    if (model.dimensions !== undefined) {
+      this.assertPositiveNumber(model.dimensions, 'dimensions');
+    }
   }
 
   private static assertString(value: unknown, fieldName: string): asserts value is string {
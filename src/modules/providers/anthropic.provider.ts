@@ -0,0 +1,560 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { Readable } from 'stream';
+import { BaseProvider, type BaseProviderConfig } from './base.provider.js';
+import type {
+  ChatMessage,
+  ChatCompletionParams,
+  ChatCompletionResult,
+  ChatCompletionStreamChunk,
+  ExtraParam,
+} from './interfaces/provider.interface.js';
+import type { Tool, ToolCall, ToolChoice } from './interfaces/tools.interface.js';
+
+/**
+ * Anthropic API version sent in `anthropic-version` header
+ */
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Messages API requires max_tokens, used when the request does not specify it
+ */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Anthropic content block (request and response)
+ */
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | {
+      type: 'image';
+      source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string };
+    }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+/**
+ * Anthropic Messages API request format
+ */
+interface AnthropicRequest {
+  model: string;
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content: AnthropicContentBlock[];
+  }>;
+  system?: string;
+  max_tokens: number;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop_sequences?: string[];
+  tools?: Array<{
+    name: string;
+    description?: string;
+    input_schema: Record<string, unknown>;
+  }>;
+  tool_choice?: { type: 'auto' | 'any' | 'none' } | { type: 'tool'; name: string };
+  stream?: boolean;
+}
+
+/**
+ * Anthropic Messages API response format
+ */
+interface AnthropicResponse {
+  id: string;
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/**
+ * Anthropic Messages API streaming event (SSE `data:` payload)
+ */
+type AnthropicStreamEvent =
+  | {
+      type: 'message_start';
+      message: { id: string; model: string; usage?: { input_tokens?: number } };
+    }
+  | {
+      type: 'content_block_start';
+      index: number;
+      content_block: AnthropicContentBlock;
+    }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta:
+        | { type: 'text_delta'; text: string }
+        | { type: 'input_json_delta'; partial_json: string }
+        | { type: string };
+    }
+  | { type: 'content_block_stop'; index: number }
+  | {
+      type: 'message_delta';
+      delta: { stop_reason?: string | null };
+      usage?: { output_tokens?: number };
+    }
+  | { type: 'message_stop' }
+  | { type: 'ping' }
+  | { type: 'error'; error: { type: string; message: string } };
+
+/**
+ * Anthropic (Claude) Messages API provider implementation
+ */
+@Injectable()
+export class AnthropicProvider extends BaseProvider {
+  constructor(httpService: HttpService, config: BaseProviderConfig) {
+    super(httpService, config);
+  }
+
+  public get name(): string {
+    return 'anthropic';
+  }
+
+  public get supportedParams(): readonly ExtraParam[] {
+    return ['top_k'];
+  }
+
+  /**
+   * Perform chat completion using Anthropic Messages API
+   */
+  public async chatCompletion(params: ChatCompletionParams): Promise<ChatCompletionResult> {
+    const request = this.buildRequest(params);
+
+    const apiKey = this.acquireApiKey();
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post<AnthropicResponse>('/messages', request, {
+          baseURL: this.config.baseUrl,
+          timeout: (params.timeoutSecs ?? this.config.timeoutSecs) * 1000,
+          headers: this.buildHeaders(apiKey),
+          signal: params.abortSignal,
+        }),
+      );
+
+      return this.mapResponse(response.data);
+    } catch (error) {
+      const httpError = this.handleHttpError(error);
+      this.reportApiKeyError(apiKey, httpError);
+
+      throw new HttpException(
+        {
+          error: {
+            message: `Anthropic API error: ${httpError.message}`,
+            type: 'provider_error',
+            code: httpError.code,
+            details: httpError.details,
+            provider_request_id: httpError.providerRequestId,
+            provider_response: httpError.providerResponse,
+            retry_after_ms: httpError.retryAfterMs,
+          },
+        },
+        httpError.statusCode,
+      );
+    }
+  }
+
+  /**
+   * Perform chat completion with streaming using Anthropic Messages API
+   */
+  public async *chatCompletionStream(
+    params: ChatCompletionParams,
+  ): AsyncGenerator<ChatCompletionStreamChunk, void, unknown> {
+    const request = this.buildRequest(params);
+    request.stream = true;
+
+    const apiKey = this.acquireApiKey();
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post('/messages', request, {
+          baseURL: this.config.baseUrl,
+          timeout: (params.timeoutSecs ?? this.config.timeoutSecs) * 1000,
+          headers: this.buildHeaders(apiKey),
+          signal: params.abortSignal,
+          responseType: 'stream',
+        }),
+      );
+
+      const stream = response.data as Readable;
+
+      let id = '';
+      let model = params.model;
+      let inputTokens = 0;
+      // Anthropic indexes all content blocks, OpenAI indexes tool calls only
+      const toolCallIndexes = new Map<number, number>();
+
+      // Parse SSE stream
+      let buffer = '';
+      for await (const chunk of stream) {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const trimmedLine = line.trim();
+          if (trimmedLine.startsWith(':')) {
+            yield this.buildCommentChunk(trimmedLine, model);
+            continue;
+          }
+
+          // Event type is duplicated in the data payload, so `event:` lines are skipped
+          if (!trimmedLine.startsWith('data: ')) {
+            continue;
+          }
+
+          let event: AnthropicStreamEvent;
+          try {
+            event = JSON.parse(trimmedLine.slice(6)) as AnthropicStreamEvent;
+          } catch (parseError) {
+            this.logger.warn(`Failed to parse SSE chunk: ${trimmedLine}`, parseError);
+            continue;
+          }
+
+          switch (event.type) {
+            case 'message_start':
+              id = event.message.id;
+              model = event.message.model;
+              inputTokens = event.message.usage?.input_tokens ?? 0;
+              yield { id, model, delta: { role: 'assistant' } };
+              break;
+
+            case 'content_block_start':
+              if (event.content_block.type === 'tool_use') {
+                const toolIndex = toolCallIndexes.size;
+                toolCallIndexes.set(event.index, toolIndex);
+                yield {
+                  id,
+                  model,
+                  delta: {
+                    tool_calls: [
+                      {
+                        index: toolIndex,
+                        id: event.content_block.id,
+                        type: 'function',
+                        function: { name: event.content_block.name, arguments: '' },
+                      },
+                    ],
+                  },
+                };
+              }
+              break;
+
+            case 'content_block_delta':
+              if ('text' in event.delta) {
+                yield { id, model, delta: { content: event.delta.text } };
+              } else if ('partial_json' in event.delta) {
+                yield {
+                  id,
+                  model,
+                  delta: {
+                    tool_calls: [
+                      {
+                        index: toolCallIndexes.get(event.index) ?? 0,
+                        function: { arguments: event.delta.partial_json },
+                      },
+                    ],
+                  },
+                };
+              }
+              break;
+
+            case 'message_delta':
+              if (event.delta.stop_reason) {
+                const outputTokens = event.usage?.output_tokens ?? 0;
+                yield {
+                  id,
+                  model,
+                  delta: {},
+                  finishReason: this.mapStopReason(event.delta.stop_reason),
+                  usage: {
+                    promptTokens: inputTokens,
+                    completionTokens: outputTokens,
+                    totalTokens: inputTokens + outputTokens,
+                  },
+                };
+              }
+              break;
+
+            case 'message_stop':
+              return; // Stream completed
+
+            case 'error':
+              throw new HttpException(
+                {
+                  error: {
+                    message: `Anthropic streaming API error: ${event.error.message}`,
+                    type: 'provider_error',
+                    code: event.error.type,
+                  },
+                },
+                this.mapStreamErrorStatus(event.error.type),
+              );
+
+            default:
+              break;
+          }
+        }
+      }
+    } catch (error) {
+      // Error events of the stream are already mapped
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      const httpError = this.handleHttpError(error);
+      this.reportApiKeyError(apiKey, httpError);
+
+      throw new HttpException(
+        {
+          error: {
+            message: `Anthropic streaming API error: ${httpError.message}`,
+            type: 'provider_error',
+            code: httpError.code,
+            details: httpError.details,
+            provider_request_id: httpError.providerRequestId,
+            provider_response: httpError.providerResponse,
+            retry_after_ms: httpError.retryAfterMs,
+          },
+        },
+        httpError.statusCode,
+      );
+    }
+  }
+
+  /**
+   * Build request headers
+   */
+  private buildHeaders(apiKey: string): Record<string, string> {
+    return {
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  /**
+   * Translate OpenAI-style params into Messages API request
+   */
+  private buildRequest(params: ChatCompletionParams): AnthropicRequest {
+    const systemParts: string[] = [];
+    const messages: AnthropicRequest['messages'] = [];
+
+    for (const message of params.messages) {
+      if (message.role === 'system') {
+        systemParts.push(this.extractText(message.content));
+        continue;
+      }
+
+      const role = message.role === 'assistant' ? 'assistant' : 'user';
+      const content = this.mapMessageContent(message);
+
+      // Messages API requires alternating roles, so consecutive messages are merged
+      const previous = messages[messages.length - 1];
+      if (previous?.role === role) {
+        previous.content.push(...content);
+      } else {
+        messages.push({ role, content });
+      }
+    }
+
+    // Messages API has no JSON mode, so it is requested through the system prompt
+    if (params.responseFormat && params.responseFormat.type !== 'text') {
+      const schema = params.responseFormat.json_schema?.['schema'];
+      systemParts.push(
+        schema
+          ? `Respond only with a valid JSON object matching this JSON schema: ${JSON.stringify(schema)}`
+          : 'Respond only with a valid JSON object.',
+      );
+    }
+
+    const request: AnthropicRequest = {
+      model: params.model,
+      messages,
+      max_tokens: params.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: params.temperature,
+      top_p: params.topP,
+      top_k: params.extraParams?.top_k,
+    };
+
+    if (systemParts.length > 0) {
+      request.system = systemParts.join('\n\n');
+    }
+
+    if (params.stop) {
+      request.stop_sequences = Array.isArray(params.stop) ? params.stop : [params.stop];
+    }
+
+    if (params.tools && params.tools.length > 0) {
+      request.tools = params.tools.map(tool => this.mapTool(tool));
+    }
+
+    if (params.toolChoice) {
+      request.tool_choice = this.mapToolChoice(params.toolChoice);
+    }
+
+    return request;
+  }
+
+  /**
+   * Convert message content (text, images, tool calls and tool results) into content blocks
+   */
+  private mapMessageContent(message: ChatMessage): AnthropicContentBlock[] {
+    if (message.role === 'tool') {
+      return [
+        {
+          type: 'tool_result',
+          tool_use_id: message.tool_call_id ?? '',
+          content: this.extractText(message.content),
+        },
+      ];
+    }
+
+    const blocks: AnthropicContentBlock[] = [];
+
+    if (typeof message.content === 'string') {
+      if (message.content) {
+        blocks.push({ type: 'text', text: message.content });
+      }
+    } else if (Array.isArray(message.content)) {
+      for (const part of message.content) {
+        if (part.type === 'text' && part.text) {
+          blocks.push({ type: 'text', text: part.text });
+        } else if (part.type === 'image_url' && part.image_url) {
+          blocks.push(this.mapImage(part.image_url.url));
+        }
+      }
+    }
+
+    for (const toolCall of message.tool_calls ?? []) {
+      blocks.push({
+        type: 'tool_use',
+        id: toolCall.id,
+        name: toolCall.function.name,
+        input: this.parseToolArguments(toolCall.function.arguments),
+      });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Convert image URL (http(s) or base64 data URL) into image block
+   */
+  private mapImage(url: string): AnthropicContentBlock {
+    const dataUrlMatch = /^data:([^;]+);base64,(.*)$/s.exec(url);
+    if (dataUrlMatch) {
+      return {
+        type: 'image',
+        source: { type: 'base64', media_type: dataUrlMatch[1] ?? '', data: dataUrlMatch[2] ?? '' },
+      };
+    }
+
+    return { type: 'image', source: { type: 'url', url } };
+  }
+
+  private mapTool(tool: Tool): NonNullable<AnthropicRequest['tools']>[number] {
+    return {
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters ?? { type: 'object', properties: {} },
+    };
+  }
+
+  private mapToolChoice(toolChoice: ToolChoice): NonNullable<AnthropicRequest['tool_choice']> {
+    if (toolChoice === 'auto' || toolChoice === 'none') {
+      return { type: toolChoice };
+    }
+    if (toolChoice === 'required') {
+      return { type: 'any' };
+    }
+    return { type: 'tool', name: toolChoice.function.name };
+  }
+
+  private parseToolArguments(args: string): unknown {
+    try {
+      return JSON.parse(args || '{}') as unknown;
+    } catch {
+      this.logger.warn(`Failed to parse tool call arguments: ${args}`);
+      return {};
+    }
+  }
+
+  private extractText(content: ChatMessage['content']): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+    return (content ?? [])
+      .filter(part => part.type === 'text' && part.text)
+      .map(part => part.text)
+      .join('\n');
+  }
+
+  /**
+   * Map Anthropic stop reason to standard finish reason
+   */
+  private mapStopReason(reason: string | null): ChatCompletionResult['finishReason'] {
+    switch (reason) {
+      case 'max_tokens':
+        return 'length';
+      case 'tool_use':
+        return 'tool_calls';
+      case 'refusal':
+        return 'content_filter';
+      default:
+        // end_turn, stop_sequence, pause_turn
+        return 'stop';
+    }
+  }
+
+  /**
+   * Map error type of in-stream `error` event to HTTP status
+   */
+  private mapStreamErrorStatus(errorType: string): number {
+    switch (errorType) {
+      case 'rate_limit_error':
+        return HttpStatus.TOO_MANY_REQUESTS;
+      case 'overloaded_error':
+        return HttpStatus.SERVICE_UNAVAILABLE;
+      default:
+        return HttpStatus.BAD_GATEWAY;
+    }
+  }
+
+  /**
+   * Map Anthropic response to standard format
+   */
+  private mapResponse(response: AnthropicResponse): ChatCompletionResult {
+    const text = response.content
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+
+    const toolCalls: ToolCall[] = response.content
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({
+        id: block.id,
+        type: 'function',
+        function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+      }));
+
+    return {
+      id: response.id,
+      model: response.model,
+      content: this.handleContentWithToolCalls(text, toolCalls.length > 0 ? toolCalls : undefined),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: this.mapStopReason(response.stop_reason),
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+      },
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import { Logger } from '@nestjs/common';
+import { HttpException, HttpStatus, Logger } from '@nestjs/common';
 import type { HttpService } from '@nestjs/axios';
 import { isAxiosError } from 'axios';
 import type {
@@ -6,7 +6,13 @@ import type {
   ChatCompletionParams,
   ChatCompletionResult,
   ChatCompletionStreamChunk,
+  EmbeddingsParams,
+  EmbeddingsResult,
+  ExtraParam,
+  ExtraParams,
+  TokenUsage,
 } from './interfaces/provider.interface.js';
+import type { ApiKeyPool } from '../rate-limiter/api-key-pool.js';
 
 /**
  * Provider configuration
@@ -17,6 +23,11 @@ export interface BaseProviderConfig {
    */
   apiKey: string;
 
+  /**
+   * Pool of rotated API keys (overrides apiKey when set)
+   */
+  apiKeyPool?: ApiKeyPool;
+
   /**
    * Base URL
    */
@@ -61,6 +72,12 @@ export interface HttpErrorResponse {
    * Truncated provider response body (if available)
    */
   providerResponse?: string;
+
+  /**
+   * Wait advised by the provider before retrying, from `Retry-After` or
+   * `x-ratelimit-reset*` headers, in milliseconds (if available)
+   */
+  retryAfterMs?: number;
 }
 
 /**
@@ -78,12 +95,33 @@ export abstract class BaseProvider implements LlmProvider {
 
   public abstract get name(): string;
 
+  public abstract get supportedParams(): readonly ExtraParam[];
+
   public abstract chatCompletion(params: ChatCompletionParams): Promise<ChatCompletionResult>;
 
   public abstract chatCompletionStream(
     params: ChatCompletionParams,
   ): AsyncGenerator<ChatCompletionStreamChunk, void, unknown>;
 
+  /**
+   * Create embeddings. Providers without an embeddings API reject the request with 501,
+   * so the router switches to another model.
+   */
+  public embeddings(_params: EmbeddingsParams): Promise<EmbeddingsResult> {
+    return Promise.reject(
+      new HttpException(
+        {
+          error: {
+            message: `${this.name} provider does not support embeddings`,
+            type: 'provider_error',
+            code: 'embeddings_not_supported',
+          },
+        },
+        HttpStatus.NOT_IMPLEMENTED,
+      ),
+    );
+  }
+
   /**
    * Handle HTTP errors and convert to standard error response
    */
@@ -216,6 +254,7 @@ export abstract class BaseProvider implements LlmProvider {
           : extractedMessage;
 
       const code = (typeof errorObj?.code === 'string' ? errorObj.code : undefined) ?? error.code;
+      const retryAfterMs = this.extractRetryAfterMs(error.response?.headers);
 
       if (statusCode >= 500) {
         this.logger.error(
@@ -239,6 +278,7 @@ export abstract class BaseProvider implements LlmProvider {
         details: extractedDetails,
         providerRequestId,
         providerResponse,
+        retryAfterMs,
       };
     }
 
@@ -249,6 +289,100 @@ export abstract class BaseProvider implements LlmProvider {
     };
   }
 
+  /**
+   * Extract advised retry delay from rate limit headers.
+   * Supports `Retry-After` (seconds or HTTP date), `x-ratelimit-reset`
+   * (Unix timestamp in ms or seconds, or seconds to wait) and
+   * `x-ratelimit-reset-requests` / `x-ratelimit-reset-tokens` durations (e.g. `1s`, `6m0s`, `20ms`).
+   */
+  protected extractRetryAfterMs(headers: Record<string, unknown> | undefined): number | undefined {
+    const header = (name: string): string | undefined => {
+      const value = headers?.[name];
+      return typeof value === 'string' || typeof value === 'number'
+        ? String(value).trim()
+        : undefined;
+    };
+
+    const retryAfter = header('retry-after');
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      if (Number.isFinite(seconds)) {
+        return Math.max(0, Math.round(seconds * 1000));
+      }
+      const date = Date.parse(retryAfter);
+      if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+      }
+    }
+
+    const resetHeader = header('x-ratelimit-reset');
+    const reset = Number(resetHeader);
+    if (resetHeader && Number.isFinite(reset)) {
+      if (reset > 1e12) {
+        return Math.max(0, reset - Date.now());
+      }
+      if (reset > 1e9) {
+        return Math.max(0, reset * 1000 - Date.now());
+      }
+      return Math.max(0, Math.round(reset * 1000));
+    }
+
+    const durations = ['x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens']
+      .map(name => this.parseDurationMs(header(name)))
+      .filter((value): value is number => value !== undefined);
+
+    return durations.length > 0 ? Math.max(...durations) : undefined;
+  }
+
+  /**
+   * Parse Go-style duration (`1h2m3.5s`, `20ms`) or plain seconds to milliseconds
+   */
+  private parseDurationMs(value: string | undefined): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    if (/^\d+(\.\d+)?$/.test(value)) {
+      return Math.round(Number(value) * 1000);
+    }
+
+    const unitMs: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+    const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+    if (parts.length === 0 || parts.map(part => part[0]).join('') !== value) {
+      return undefined;
+    }
+
+    return Math.round(
+      parts.reduce((total, [, amount, unit]) => total + Number(amount) * unitMs[unit], 0),
+    );
+  }
+
+  /**
+   * Pick API key for the next request
+   */
+  protected acquireApiKey(): string {
+    return this.config.apiKeyPool?.acquire() ?? this.config.apiKey;
+  }
+
+  /**
+   * Exclude the key from rotation if the provider reported an exhausted quota (429/402)
+   */
+  protected reportApiKeyError(apiKey: string, error: HttpErrorResponse): void {
+    if (!this.config.apiKeyPool || !this.isQuotaError(error)) {
+      return;
+    }
+
+    this.config.apiKeyPool.markLimited(apiKey);
+    this.logger.warn(`API key ...${apiKey.slice(-4)} hit quota, excluded from rotation`);
+  }
+
+  /**
+   * Check if error is a quota error tied to the API key (429 or 402)
+   */
+  protected isQuotaError(error: HttpErrorResponse): boolean {
+    return this.isRateLimitError(error) || error.statusCode === 402;
+  }
+
   /**
    * Check if error is a rate limit error (429)
    */
@@ -297,6 +431,57 @@ export abstract class BaseProvider implements LlmProvider {
     }
   }
 
+  /**
+   * Extra parameters of the request accepted by the provider, in OpenAI request format
+   */
+  protected pickExtraParams(extraParams?: ExtraParams): ExtraParams {
+    return Object.fromEntries(
+      Object.entries(extraParams ?? {}).filter(
+        ([param, value]) =>
+          value !== undefined && this.supportedParams.includes(param as ExtraParam),
+      ),
+    );
+  }
+
+  /**
+   * Build a chunk forwarding an SSE comment line (`: ...`) to the client
+   */
+  protected buildCommentChunk(line: string, model: string): ChatCompletionStreamChunk {
+    return { id: '', model, delta: {}, comment: line.slice(1).trim() };
+  }
+
+  /**
+   * Map OpenAI-format usage (also sent in the last stream chunk with `stream_options.include_usage`)
+   */
+  protected mapOpenAiUsage(usage: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  }): TokenUsage {
+    const promptTokens = usage.prompt_tokens ?? 0;
+    const completionTokens = usage.completion_tokens ?? 0;
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+    };
+  }
+
+  /**
+   * Map OpenAI-format embeddings response, ordering vectors by input index
+   */
+  protected mapOpenAiEmbeddings(response: {
+    model: string;
+    data: Array<{ index: number; embedding: number[] }>;
+    usage?: { prompt_tokens?: number; total_tokens?: number };
+  }): EmbeddingsResult {
+    return {
+      model: response.model,
+      embeddings: [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding),
+      usage: this.mapOpenAiUsage(response.usage ?? {}),
+    };
+  }
+
   /**
    * Handle content field when tool calls are present
    * According to OpenAI spec, content should be null when tool_calls are present
@@ -6,14 +6,18 @@ import { BaseProvider, type BaseProviderConfig } from './base.provider.js';
 import type {
   ChatCompletionParams,
   ChatCompletionResult,
+  ChatCompletionLogprobs,
   ChatCompletionStreamChunk,
+  ExtraParam,
+  ExtraParams,
+  ReasoningEffort,
 } from './interfaces/provider.interface.js';
-import type { Tool, ToolCall, ToolChoice } from './interfaces/tools.interface.js';
+import type { Tool, ToolCall, ToolCallDelta, ToolChoice } from './interfaces/tools.interface.js';
 
 /**
  * DeepSeek API request format (OpenAI-compatible)
  */
-interface DeepSeekRequest {
+interface DeepSeekRequest extends ExtraParams {
   model: string;
   messages: Array<{
     role: string;
@@ -38,6 +42,8 @@ interface DeepSeekRequest {
   tools?: Tool[];
   tool_choice?: ToolChoice;
   stream?: boolean;
+  stream_options?: { include_usage: boolean };
+  reasoning_effort?: ReasoningEffort;
 }
 
 /**
@@ -51,8 +57,10 @@ interface DeepSeekResponse {
       role: string;
       content: string | null;
       tool_calls?: ToolCall[];
+      reasoning_content?: string | null;
     };
     finish_reason: string;
+    logprobs?: ChatCompletionLogprobs | null;
   }>;
   usage: {
     prompt_tokens: number;
@@ -71,10 +79,17 @@ interface DeepSeekStreamChunk {
     delta: {
       role?: 'assistant';
       content?: string;
-      tool_calls?: ToolCall[];
+      tool_calls?: ToolCallDelta[];
+      reasoning_content?: string | null;
     };
     finish_reason?: string;
+    logprobs?: ChatCompletionLogprobs | null;
   }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
 }
 
 /**
@@ -90,6 +105,10 @@ export class DeepSeekProvider extends BaseProvider {
     return 'deepseek';
   }
 
+  public get supportedParams(): readonly ExtraParam[] {
+    return ['logprobs', 'top_logprobs'];
+  }
+
   /**
    * Perform chat completion using DeepSeek API
    */
@@ -105,19 +124,23 @@ export class DeepSeekProvider extends BaseProvider {
       stop: params.stop,
       tools: params.tools,
       tool_choice: params.toolChoice,
+      reasoning_effort: params.reasoning?.effort,
+      ...this.pickExtraParams(params.extraParams),
     };
 
     if (params.responseFormat) {
       request.response_format = params.responseFormat;
     }
 
+    const apiKey = this.acquireApiKey();
+
     try {
       const response = await firstValueFrom(
         this.httpService.post<DeepSeekResponse>('/chat/completions', request, {
           baseURL: this.config.baseUrl,
           timeout: (params.timeoutSecs || this.config.timeoutSecs) * 1000,
           headers: {
-            Authorization: `Bearer ${this.config.apiKey}`,
+            Authorization: `Bearer ${apiKey}`,
             'Content-Type': 'application/json',
           },
           signal: params.abortSignal,
@@ -127,6 +150,7 @@ export class DeepSeekProvider extends BaseProvider {
       return this.mapResponse(response.data);
     } catch (error) {
       const httpError = this.handleHttpError(error);
+      this.reportApiKeyError(apiKey, httpError);
 
       throw new HttpException(
         {
@@ -137,6 +161,7 @@ export class DeepSeekProvider extends BaseProvider {
             details: httpError.details,
             provider_request_id: httpError.providerRequestId,
             provider_response: httpError.providerResponse,
+            retry_after_ms: httpError.retryAfterMs,
           },
         },
         httpError.statusCode,
@@ -161,20 +186,25 @@ export class DeepSeekProvider extends BaseProvider {
       stop: params.stop,
       tools: params.tools,
       tool_choice: params.toolChoice,
+      reasoning_effort: params.reasoning?.effort,
+      ...this.pickExtraParams(params.extraParams),
       stream: true,
+      stream_options: params.includeUsage ? { include_usage: true } : undefined,
     };
 
     if (params.responseFormat) {
       request.response_format = params.responseFormat;
     }
 
+    const apiKey = this.acquireApiKey();
+
     try {
       const response = await firstValueFrom(
         this.httpService.post('/chat/completions', request, {
           baseURL: this.config.baseUrl,
           timeout: (params.timeoutSecs || this.config.timeoutSecs) * 1000,
           headers: {
-            Authorization: `Bearer ${this.config.apiKey}`,
+            Authorization: `Bearer ${apiKey}`,
             'Content-Type': 'application/json',
           },
           signal: params.abortSignal,
@@ -193,8 +223,14 @@ export class DeepSeekProvider extends BaseProvider {
 
         for (const line of lines) {
           const trimmedLine = line.trim();
-          if (!trimmedLine || trimmedLine.startsWith(':')) {
-            continue; // Skip empty lines and comments
+          if (!trimmedLine) {
+            continue;
+          }
+
+          // Comments (e.g. `: OPENROUTER PROCESSING`) keep idle connections alive
+          if (trimmedLine.startsWith(':')) {
+            yield this.buildCommentChunk(trimmedLine, params.model);
+            continue;
           }
 
           if (trimmedLine === 'data: [DONE]') {
@@ -206,8 +242,13 @@ export class DeepSeekProvider extends BaseProvider {
               const jsonData = trimmedLine.slice(6); // Remove "data: " prefix
               const sseChunk = JSON.parse(jsonData) as DeepSeekStreamChunk;
 
+              const usage = sseChunk.usage ? this.mapOpenAiUsage(sseChunk.usage) : undefined;
               const choice = sseChunk.choices[0];
               if (!choice) {
+                // Usage chunk (stream_options.include_usage) has no choices
+                if (usage) {
+                  yield { id: sseChunk.id, model: sseChunk.model, delta: {}, usage };
+                }
                 continue;
               }
 
@@ -218,10 +259,13 @@ export class DeepSeekProvider extends BaseProvider {
                   role: choice.delta.role,
                   content: choice.delta.content,
                   tool_calls: choice.delta.tool_calls,
+                  reasoning_content: choice.delta.reasoning_content ?? undefined,
                 },
                 finishReason: choice.finish_reason
                   ? this.mapFinishReason(choice.finish_reason)
                   : undefined,
+                usage,
+                logprobs: choice.logprobs ?? undefined,
               };
             } catch (parseError) {
               this.logger.warn(`Failed to parse SSE chunk: ${trimmedLine}`, parseError);
@@ -231,6 +275,7 @@ export class DeepSeekProvider extends BaseProvider {
       }
     } catch (error) {
       const httpError = this.handleHttpError(error);
+      this.reportApiKeyError(apiKey, httpError);
 
       throw new HttpException(
         {
@@ -241,6 +286,7 @@ export class DeepSeekProvider extends BaseProvider {
             details: httpError.details,
             provider_request_id: httpError.providerRequestId,
             provider_response: httpError.providerResponse,
+            retry_after_ms: httpError.retryAfterMs,
           },
         },
         httpError.statusCode,
@@ -262,6 +308,8 @@ export class DeepSeekProvider extends BaseProvider {
       model: response.model,
       content: this.handleContentWithToolCalls(choice.message.content, choice.message.tool_calls),
       toolCalls: choice.message.tool_calls,
+      reasoningContent: choice.message.reasoning_content ?? undefined,
+      logprobs: choice.logprobs ?? undefined,
       finishReason: this.mapFinishReason(choice.finish_reason),
       usage: {
         promptTokens: response.usage.prompt_tokens,
@@ -0,0 +1,532 @@
+import { Injectable, HttpException } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { Readable } from 'stream';
+import { randomUUID } from 'node:crypto';
+import { BaseProvider, type BaseProviderConfig } from './base.provider.js';
+import type {
+  ChatMessage,
+  ChatCompletionParams,
+  ChatCompletionResult,
+  ChatCompletionStreamChunk,
+  ExtraParam,
+  TokenUsage,
+} from './interfaces/provider.interface.js';
+import type { Tool, ToolCall, ToolChoice } from './interfaces/tools.interface.js';
+
+/**
+ * Gemini content part (request and response)
+ */
+interface GeminiPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  fileData?: { fileUri: string; mimeType?: string };
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+  thought?: boolean;
+}
+
+/**
+ * Gemini content (a single conversation turn)
+ */
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+/**
+ * Gemini generateContent request format
+ */
+interface GeminiRequest {
+  contents: GeminiContent[];
+  systemInstruction?: { parts: GeminiPart[] };
+  tools?: Array<{
+    functionDeclarations: Array<{
+      name: string;
+      description?: string;
+      parameters?: Record<string, unknown>;
+    }>;
+  }>;
+  toolConfig?: {
+    functionCallingConfig: {
+      mode: 'AUTO' | 'ANY' | 'NONE';
+      allowedFunctionNames?: string[];
+    };
+  };
+  generationConfig: {
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    seed?: number;
+    maxOutputTokens?: number;
+    stopSequences?: string[];
+    frequencyPenalty?: number;
+    presencePenalty?: number;
+    responseMimeType?: string;
+    responseJsonSchema?: unknown;
+  };
+}
+
+/**
+ * Gemini generateContent response format (also used for each SSE chunk)
+ */
+interface GeminiResponse {
+  responseId?: string;
+  modelVersion?: string;
+  candidates?: Array<{
+    content?: { role?: string; parts?: GeminiPart[] };
+    finishReason?: string;
+  }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+/**
+ * Google Gemini (Generative Language API) provider implementation
+ */
+@Injectable()
+export class GeminiProvider extends BaseProvider {
+  constructor(httpService: HttpService, config: BaseProviderConfig) {
+    super(httpService, config);
+  }
+
+  public get name(): string {
+    return 'gemini';
+  }
+
+  public get supportedParams(): readonly ExtraParam[] {
+    return ['seed', 'top_k'];
+  }
+
+  /**
+   * Perform chat completion using Gemini generateContent API
+   */
+  public async chatCompletion(params: ChatCompletionParams): Promise<ChatCompletionResult> {
+    const request = this.buildRequest(params);
+
+    const apiKey = this.acquireApiKey();
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post<GeminiResponse>(
+          `/models/${encodeURIComponent(params.model)}:generateContent`,
+          request,
+          {
+            baseURL: this.config.baseUrl,
+            timeout: (params.timeoutSecs ?? this.config.timeoutSecs) * 1000,
+            headers: this.buildHeaders(apiKey),
+            signal: params.abortSignal,
+          },
+        ),
+      );
+
+      return this.mapResponse(response.data, params.model);
+    } catch (error) {
+      const httpError = this.handleHttpError(error);
+      this.reportApiKeyError(apiKey, httpError);
+
+      throw new HttpException(
+        {
+          error: {
+            message: `Gemini API error: ${httpError.message}`,
+            type: 'provider_error',
+            code: httpError.code,
+            details: httpError.details,
+            provider_request_id: httpError.providerRequestId,
+            provider_response: httpError.providerResponse,
+            retry_after_ms: httpError.retryAfterMs,
+          },
+        },
+        httpError.statusCode,
+      );
+    }
+  }
+
+  /**
+   * Perform chat completion with streaming using Gemini streamGenerateContent API
+   */
+  public async *chatCompletionStream(
+    params: ChatCompletionParams,
+  ): AsyncGenerator<ChatCompletionStreamChunk, void, unknown> {
+    const request = this.buildRequest(params);
+
+    const apiKey = this.acquireApiKey();
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post(
+          `/models/${encodeURIComponent(params.model)}:streamGenerateContent`,
+          request,
+          {
+            baseURL: this.config.baseUrl,
+            params: { alt: 'sse' },
+            timeout: (params.timeoutSecs ?? this.config.timeoutSecs) * 1000,
+            headers: this.buildHeaders(apiKey),
+            signal: params.abortSignal,
+            responseType: 'stream',
+          },
+        ),
+      );
+
+      const stream = response.data as Readable;
+
+      let isFirstChunk = true;
+      let toolCallIndex = 0;
+      let hasToolCalls = false;
+
+      // Parse SSE stream
+      let buffer = '';
+      for await (const chunk of stream) {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const trimmedLine = line.trim();
+          if (trimmedLine.startsWith(':')) {
+            yield this.buildCommentChunk(trimmedLine, params.model);
+            continue;
+          }
+
+          if (!trimmedLine.startsWith('data: ')) {
+            continue; // Skip empty lines
+          }
+
+          let sseChunk: GeminiResponse;
+          try {
+            sseChunk = JSON.parse(trimmedLine.slice(6)) as GeminiResponse;
+          } catch (parseError) {
+            this.logger.warn(`Failed to parse SSE chunk: ${trimmedLine}`, parseError);
+            continue;
+          }
+
+          const candidate = sseChunk.candidates?.[0];
+          const parts = (candidate?.content?.parts ?? []).filter(part => !part.thought);
+          const content = parts
+            .map(part => part.text)
+            .filter(text => text !== undefined)
+            .join('');
+          const toolCalls = parts
+            .filter(part => part.functionCall)
+            .map(part => ({
+              index: toolCallIndex++,
+              ...this.mapFunctionCall(part),
+            }));
+          hasToolCalls ||= toolCalls.length > 0;
+
+          const finishReason = candidate?.finishReason
+            ? this.mapGeminiFinishReason(candidate.finishReason, hasToolCalls)
+            : sseChunk.promptFeedback?.blockReason
+              ? 'content_filter'
+              : undefined;
+
+          if (!content && toolCalls.length === 0 && !finishReason) {
+            continue;
+          }
+
+          yield {
+            id: sseChunk.responseId ?? '',
+            model: sseChunk.modelVersion ?? params.model,
+            delta: {
+              role: isFirstChunk ? 'assistant' : undefined,
+              content: content || undefined,
+              tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+            },
+            finishReason,
+            // Usage is reported with the final chunk only
+            usage:
+              finishReason && sseChunk.usageMetadata
+                ? this.mapUsage(sseChunk.usageMetadata)
+                : undefined,
+          };
+          isFirstChunk = false;
+        }
+      }
+    } catch (error) {
+      const httpError = this.handleHttpError(error);
+      this.reportApiKeyError(apiKey, httpError);
+
+      throw new HttpException(
+        {
+          error: {
+            message: `Gemini streaming API error: ${httpError.message}`,
+            type: 'provider_error',
+            code: httpError.code,
+            details: httpError.details,
+            provider_request_id: httpError.providerRequestId,
+            provider_response: httpError.providerResponse,
+            retry_after_ms: httpError.retryAfterMs,
+          },
+        },
+        httpError.statusCode,
+      );
+    }
+  }
+
+  /**
+   * Build request headers
+   */
+  private buildHeaders(apiKey: string): Record<string, string> {
+    return {
+      'x-goog-api-key': apiKey,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  /**
+   * Translate OpenAI-style params into generateContent request
+   */
+  private buildRequest(params: ChatCompletionParams): GeminiRequest {
+    const systemParts: GeminiPart[] = [];
+    const contents: GeminiContent[] = [];
+    // Gemini identifies function responses by name, OpenAI by tool call id
+    const toolNamesById = new Map<string, string>();
+
+    for (const message of params.messages) {
+      if (message.role === 'system') {
+        systemParts.push({ text: this.extractText(message.content) });
+        continue;
+      }
+
+      for (const toolCall of message.tool_calls ?? []) {
+        toolNamesById.set(toolCall.id, toolCall.function.name);
+      }
+
+      const role = message.role === 'assistant' ? 'model' : 'user';
+      const parts = this.mapMessageParts(message, toolNamesById);
+
+      // Consecutive turns of the same role are merged (e.g. several tool results)
+      const previous = contents[contents.length - 1];
+      if (previous?.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+
+    const request: GeminiRequest = {
+      contents,
+      generationConfig: {
+        temperature: params.temperature,
+        topP: params.topP,
+        topK: params.extraParams?.top_k,
+        seed: params.extraParams?.seed,
+        maxOutputTokens: params.maxTokens,
+        frequencyPenalty: params.frequencyPenalty,
+        presencePenalty: params.presencePenalty,
+      },
+    };
+
+    if (systemParts.length > 0) {
+      request.systemInstruction = { parts: systemParts };
+    }
+
+    if (params.stop) {
+      request.generationConfig.stopSequences = Array.isArray(params.stop)
+        ? params.stop
+        : [params.stop];
+    }
+
+    if (params.responseFormat && params.responseFormat.type !== 'text') {
+      request.generationConfig.responseMimeType = 'application/json';
+      const schema = params.responseFormat.json_schema?.['schema'] as unknown;
+      if (schema) {
+        request.generationConfig.responseJsonSchema = schema;
+      }
+    }
+
+    if (params.tools && params.tools.length > 0) {
+      request.tools = [{ functionDeclarations: params.tools.map(tool => this.mapTool(tool)) }];
+    }
+
+    if (params.toolChoice) {
+      request.toolConfig = { functionCallingConfig: this.mapToolChoice(params.toolChoice) };
+    }
+
+    return request;
+  }
+
+  /**
+   * Convert message content (text, images, tool calls and tool results) into parts
+   */
+  private mapMessageParts(message: ChatMessage, toolNamesById: Map<string, string>): GeminiPart[] {
+    if (message.role === 'tool') {
+      return [
+        {
+          functionResponse: {
+            name: toolNamesById.get(message.tool_call_id ?? '') ?? message.name ?? '',
+            response: { content: this.extractText(message.content) },
+          },
+        },
+      ];
+    }
+
+    const parts: GeminiPart[] = [];
+
+    if (typeof message.content === 'string') {
+      if (message.content) {
+        parts.push({ text: message.content });
+      }
+    } else if (Array.isArray(message.content)) {
+      for (const part of message.content) {
+        if (part.type === 'text' && part.text) {
+          parts.push({ text: part.text });
+        } else if (part.type === 'image_url' && part.image_url) {
+          parts.push(this.mapImage(part.image_url.url));
+        }
+      }
+    }
+
+    for (const toolCall of message.tool_calls ?? []) {
+      parts.push({
+        functionCall: {
+          name: toolCall.function.name,
+          args: this.parseToolArguments(toolCall.function.arguments),
+        },
+      });
+    }
+
+    return parts;
+  }
+
+  /**
+   * Convert image URL (base64 data URL or file URI) into part
+   */
+  private mapImage(url: string): GeminiPart {
+    const dataUrlMatch = /^data:([^;]+);base64,(.*)$/s.exec(url);
+    if (dataUrlMatch) {
+      return { inlineData: { mimeType: dataUrlMatch[1] ?? '', data: dataUrlMatch[2] ?? '' } };
+    }
+
+    return { fileData: { fileUri: url } };
+  }
+
+  private mapTool(
+    tool: Tool,
+  ): NonNullable<GeminiRequest['tools']>[number]['functionDeclarations'][number] {
+    return {
+      name: tool.function.name,
+      description: tool.function.description,
+      parameters: tool.function.parameters,
+    };
+  }
+
+  private mapToolChoice(
+    toolChoice: ToolChoice,
+  ): NonNullable<GeminiRequest['toolConfig']>['functionCallingConfig'] {
+    if (toolChoice === 'auto') {
+      return { mode: 'AUTO' };
+    }
+    if (toolChoice === 'none') {
+      return { mode: 'NONE' };
+    }
+    if (toolChoice === 'required') {
+      return { mode: 'ANY' };
+    }
+    return { mode: 'ANY', allowedFunctionNames: [toolChoice.function.name] };
+  }
+
+  private mapFunctionCall(part: GeminiPart): ToolCall {
+    return {
+      id: `call_${randomUUID()}`,
+      type: 'function',
+      function: {
+        name: part.functionCall?.name ?? '',
+        arguments: JSON.stringify(part.functionCall?.args ?? {}),
+      },
+    };
+  }
+
+  private parseToolArguments(args: string): Record<string, unknown> {
+    try {
+      return JSON.parse(args || '{}') as Record<string, unknown>;
+    } catch {
+      this.logger.warn(`Failed to parse tool call arguments: ${args}`);
+      return {};
+    }
+  }
+
+  private extractText(content: ChatMessage['content']): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+    return (content ?? [])
+      .filter(part => part.type === 'text' && part.text)
+      .map(part => part.text)
+      .join('\n');
+  }
+
+  /**
+   * Map Gemini finish reason to standard format.
+   * Gemini reports STOP for function calls, so tool calls take precedence.
+   */
+  private mapGeminiFinishReason(
+    reason: string,
+    hasToolCalls: boolean,
+  ): ChatCompletionResult['finishReason'] {
+    switch (reason) {
+      case 'MAX_TOKENS':
+        return 'length';
+      case 'SAFETY':
+      case 'RECITATION':
+      case 'BLOCKLIST':
+      case 'PROHIBITED_CONTENT':
+      case 'SPII':
+      case 'IMAGE_SAFETY':
+        return 'content_filter';
+      default:
+        return hasToolCalls ? 'tool_calls' : 'stop';
+    }
+  }
+
+  /**
+   * Map Gemini response to standard format
+   */
+  private mapResponse(response: GeminiResponse, model: string): ChatCompletionResult {
+    const candidate = response.candidates?.[0];
+    if (!candidate && !response.promptFeedback?.blockReason) {
+      throw new Error('No candidates in Gemini response');
+    }
+
+    // Thought summaries are not part of the answer
+    const parts = (candidate?.content?.parts ?? []).filter(part => !part.thought);
+    const text = parts
+      .map(part => part.text)
+      .filter(t => t !== undefined)
+      .join('');
+    const toolCalls = parts
+      .filter(part => part.functionCall)
+      .map(part => this.mapFunctionCall(part));
+
+    const finishReason = candidate
+      ? this.mapGeminiFinishReason(candidate.finishReason ?? 'STOP', toolCalls.length > 0)
+      : 'content_filter';
+
+    return {
+      id: response.responseId ?? '',
+      model: response.modelVersion ?? model,
+      content: this.handleContentWithToolCalls(text, toolCalls.length > 0 ? toolCalls : undefined),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason,
+      usage: this.mapUsage(response.usageMetadata),
+    };
+  }
+
+  /**
+   * Map Gemini usage metadata (cumulative in every stream chunk)
+   */
+  private mapUsage(usageMetadata: GeminiResponse['usageMetadata']): TokenUsage {
+    const promptTokens = usageMetadata?.promptTokenCount ?? 0;
+    const completionTokens = usageMetadata?.candidatesTokenCount ?? 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: usageMetadata?.totalTokenCount ?? promptTokens + completionTokens,
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import type { Tool, ToolCall, ToolChoice } from './tools.interface.js';
+import type { Tool, ToolCall, ToolCallDelta, ToolChoice } from './tools.interface.js';
 
 /**
  * Chat message structure
@@ -33,6 +33,68 @@ export interface ChatMessage {
   tool_call_id?: string;
 }
 
+/**
+ * Additional OpenAI request parameters, forwarded as-is to providers that accept them
+ */
+export interface ExtraParams {
+  seed?: number;
+  logit_bias?: Record<string, number>;
+  logprobs?: boolean;
+  top_logprobs?: number;
+  user?: string;
+  parallel_tool_calls?: boolean;
+  min_p?: number;
+  top_k?: number;
+  repetition_penalty?: number;
+}
+
+/**
+ * Name of an additional OpenAI request parameter
+ */
+export type ExtraParam = keyof ExtraParams;
+
+/**
+ * Log probability of an output token (OpenAI format)
+ */
+export interface TokenLogprob {
+  token: string;
+  logprob: number;
+  bytes: number[] | null;
+  top_logprobs?: Array<{ token: string; logprob: number; bytes: number[] | null }>;
+}
+
+/**
+ * Log probabilities of a choice (OpenAI format)
+ */
+export interface ChatCompletionLogprobs {
+  content: TokenLogprob[] | null;
+}
+
+/**
+ * Reasoning effort of reasoning models
+ */
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+/**
+ * Reasoning (thinking) controls of reasoning models
+ */
+export interface ReasoningParams {
+  /**
+   * Reasoning effort
+   */
+  effort?: ReasoningEffort;
+
+  /**
+   * Maximum reasoning tokens (thinking budget)
+   */
+  maxTokens?: number;
+
+  /**
+   * Reason internally but don't return reasoning in the response
+   */
+  exclude?: boolean;
+}
+
 /**
  * Chat completion request parameters
  */
@@ -109,6 +171,30 @@ export interface ChatCompletionParams {
    * Request timeout in seconds (overrides provider default)
    */
   timeoutSecs?: number;
+
+  /**
+   * Ask the provider to report token usage at the end of the stream
+   */
+  includeUsage?: boolean;
+
+  /**
+   * Reasoning controls (applied by providers that support them)
+   */
+  reasoning?: ReasoningParams;
+
+  /**
+   * Additional OpenAI parameters, providers drop the ones they don't accept
+   */
+  extraParams?: ExtraParams;
+}
+
+/**
+ * Token usage statistics
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 }
 
 /**
@@ -138,16 +224,22 @@ export interface ChatCompletionResult {
   /**
    * Token usage statistics
    */
-  usage: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage: TokenUsage;
 
   /**
    * Tool calls generated by the model
    */
   toolCalls?: ToolCall[];
+
+  /**
+   * Reasoning (thinking) text of reasoning models, separate from content
+   */
+  reasoningContent?: string;
+
+  /**
+   * Log probabilities of output tokens (when requested with logprobs)
+   */
+  logprobs?: ChatCompletionLogprobs;
 }
 
 /**
@@ -182,7 +274,12 @@ export interface ChatCompletionStreamChunk {
     /**
      * Tool calls delta (for function calling)
      */
-    tool_calls?: ToolCall[];
+    tool_calls?: ToolCallDelta[];
+
+    /**
+     * Reasoning (thinking) text chunk of reasoning models
+     */
+    reasoning_content?: string;
   };
 
   /**
@@ -190,6 +287,22 @@ export interface ChatCompletionStreamChunk {
    */
   finishReason?: 'stop' | 'length' | 'content_filter' | 'tool_calls';
 
+  /**
+   * Token usage (only in the last chunk, when reported by the provider)
+   */
+  usage?: TokenUsage;
+
+  /**
+   * Log probabilities of the chunk tokens (when requested with logprobs)
+   */
+  logprobs?: ChatCompletionLogprobs;
+
+  /**
+   * SSE comment line received from the provider (e.g. `: OPENROUTER PROCESSING`).
+   * Comment chunks carry no delta and are forwarded to the client as-is.
+   */
+  comment?: string;
+
   /**
    * Router metadata (optional, included in first or last chunk)
    */
@@ -198,9 +311,76 @@ export interface ChatCompletionStreamChunk {
     model_name: string;
     attempts?: number;
     fallback_used?: boolean;
+    errors?: Array<{
+      provider: string;
+      model: string;
+      error: string;
+      code?: number;
+    }>;
+    client?: string;
+    budget_remaining_ms?: number;
+    hedge_winner?: 'primary' | 'hedge';
+    resumed?: boolean;
+    latency_ms?: number;
+    usage_estimated?: boolean;
   };
 }
 
+/**
+ * Embeddings request parameters
+ */
+export interface EmbeddingsParams {
+  /**
+   * Model ID at the provider
+   */
+  model: string;
+
+  /**
+   * Texts to embed
+   */
+  input: string[];
+
+  /**
+   * Number of dimensions of the output vectors (models supporting shortened embeddings)
+   */
+  dimensions?: number;
+
+  /**
+   * End-user id passed to the provider
+   */
+  user?: string;
+
+  /**
+   * Request timeout in seconds
+   */
+  timeoutSecs?: number;
+
+  /**
+   * Abort signal for request cancellation
+   */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Embeddings result
+ */
+export interface EmbeddingsResult {
+  /**
+   * Model used
+   */
+  model: string;
+
+  /**
+   * One vector per input text, in input order
+   */
+  embeddings: number[][];
+
+  /**
+   * Token usage (completionTokens is always 0)
+   */
+  usage: TokenUsage;
+}
+
 /**
  * LLM provider interface
  */
@@ -210,6 +390,11 @@ export interface LlmProvider {
    */
   readonly name: string;
 
+  /**
+   * Additional OpenAI parameters accepted by the provider API, others are dropped
+   */
+  readonly supportedParams: readonly ExtraParam[];
+
   /**
    * Perform chat completion
    */
@@ -222,4 +407,9 @@ export interface LlmProvider {
   chatCompletionStream(
     params: ChatCompletionParams,
   ): AsyncGenerator<ChatCompletionStreamChunk, void, unknown>;
+
+  /**
+   * Create embeddings of the input texts
+   */
+  embeddings(params: EmbeddingsParams): Promise<EmbeddingsResult>;
 }
@@ -83,15 +83,44 @@ export interface ToolCall {
   function: ToolCallFunction;
 }
 
+/**
+ * Incremental tool call fragment in a streaming response.
+ * The first fragment of a call carries id, type and function name;
+ * subsequent fragments with the same index append to function arguments.
+ */
+export interface ToolCallDelta {
+  /**
+   * Position of the tool call in the message
+   */
+  index: number;
+
+  /**
+   * Tool call ID (first fragment only)
+   */
+  id?: string;
+
+  /**
+   * Tool type (first fragment only)
+   */
+  type?: 'function';
+
+  /**
+   * Partial function call details
+   */
+  function?: Partial<ToolCallFunction>;
+}
+
 /**
  * Tool choice constraint
  * - 'auto': Model decides whether to call a function
  * - 'none': Model will not call any function
+ * - 'required': Model must call at least one function
  * - Object: Force model to call specific function
  */
 export type ToolChoice =
   | 'auto'
   | 'none'
+  | 'required'
   | {
       type: 'function';
       function: {
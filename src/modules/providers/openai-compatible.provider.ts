@@ -0,0 +1,441 @@
+import { Injectable, HttpException } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { Readable } from 'stream';
+import { BaseProvider, type BaseProviderConfig } from './base.provider.js';
+import type { ProviderAuthScheme } from '../../config/router-config.interface.js';
+import type {
+  ChatCompletionParams,
+  ChatCompletionResult,
+  ChatCompletionLogprobs,
+  ChatCompletionStreamChunk,
+  EmbeddingsParams,
+  EmbeddingsResult,
+  ExtraParam,
+  ExtraParams,
+} from './interfaces/provider.interface.js';
+import type { Tool, ToolCall, ToolCallDelta, ToolChoice } from './interfaces/tools.interface.js';
+
+/**
+ * OpenAI-compatible provider configuration
+ */
+export interface OpenAiCompatibleProviderConfig extends BaseProviderConfig {
+  /**
+   * Provider name as declared in config.yaml (referenced from models.yaml)
+   */
+  name: string;
+
+  /**
+   * Extra HTTP headers sent with every request
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Authentication scheme (default: bearer)
+   */
+  authScheme?: ProviderAuthScheme;
+
+  /**
+   * Header name used when authScheme is `header` (default: x-api-key)
+   */
+  authHeader?: string;
+
+  /**
+   * Extra OpenAI parameters accepted by the API (default: parameters of OpenAI API)
+   */
+  supportedParams?: readonly ExtraParam[];
+}
+
+/**
+ * Extra parameters accepted by OpenAI API
+ */
+const DEFAULT_SUPPORTED_PARAMS: readonly ExtraParam[] = [
+  'seed',
+  'logit_bias',
+  'logprobs',
+  'top_logprobs',
+  'user',
+  'parallel_tool_calls',
+];
+
+/**
+ * OpenAI Chat Completions API request format
+ */
+interface OpenAiCompatibleRequest extends ExtraParams {
+  model: string;
+  messages: Array<{
+    role: string;
+    content:
+      | string
+      | Array<{ type: string; text?: string; image_url?: { url: string; detail?: string } }>
+      | null;
+    name?: string;
+    tool_calls?: ToolCall[];
+    tool_call_id?: string;
+  }>;
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  stop?: string | string[];
+  response_format?: {
+    type: 'text' | 'json_object' | 'json_schema';
+    json_schema?: Record<string, unknown>;
+  };
+  tools?: Tool[];
+  tool_choice?: ToolChoice;
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+}
+
+/**
+ * OpenAI Chat Completions API response format
+ */
+interface OpenAiCompatibleResponse {
+  id: string;
+  model: string;
+  choices: Array<{
+    message: {
+      role: string;
+      content: string | null;
+      tool_calls?: ToolCall[];
+      // vLLM and DeepSeek-style servers use reasoning_content, Ollama and Groq use reasoning
+      reasoning_content?: string | null;
+      reasoning?: string | null;
+    };
+    finish_reason: string;
+    logprobs?: ChatCompletionLogprobs | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * OpenAI Chat Completions API streaming response format (SSE chunks)
+ */
+interface OpenAiCompatibleStreamChunk {
+  id: string;
+  model: string;
+  choices: Array<{
+    delta: {
+      role?: 'assistant';
+      content?: string;
+      tool_calls?: ToolCallDelta[];
+      reasoning_content?: string | null;
+      reasoning?: string | null;
+    };
+    finish_reason?: string | null;
+    logprobs?: ChatCompletionLogprobs | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
+}
+
+/**
+ * OpenAI Embeddings API response format
+ */
+interface OpenAiCompatibleEmbeddingsResponse {
+  model: string;
+  data: Array<{ index: number; embedding: number[] }>;
+  usage?: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * Generic provider for any OpenAI-compatible API (Groq, Together, Mistral, vLLM, Ollama, etc.)
+ */
+@Injectable()
+export class OpenAiCompatibleProvider extends BaseProvider {
+  constructor(
+    httpService: HttpService,
+    protected override readonly config: OpenAiCompatibleProviderConfig,
+  ) {
+    super(httpService, config);
+  }
+
+  public get name(): string {
+    return this.config.name;
+  }
+
+  public get supportedParams(): readonly ExtraParam[] {
+    return this.config.supportedParams ?? DEFAULT_SUPPORTED_PARAMS;
+  }
+
+  /**
+   * Perform chat completion using OpenAI-compatible API
+   */
+  public async chatCompletion(params: ChatCompletionParams): Promise<ChatCompletionResult> {
+    const request = this.buildRequest(params);
+
+    const apiKey = this.acquireApiKey();
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post<OpenAiCompatibleResponse>('/chat/completions', request, {
+          baseURL: this.config.baseUrl,
+          timeout: (params.timeoutSecs ?? this.config.timeoutSecs) * 1000,
+          headers: this.buildHeaders(apiKey),
+          signal: params.abortSignal,
+        }),
+      );
+
+      return this.mapResponse(response.data);
+    } catch (error) {
+      const httpError = this.handleHttpError(error);
+      this.reportApiKeyError(apiKey, httpError);
+
+      throw new HttpException(
+        {
+          error: {
+            message: `${this.name} API error: ${httpError.message}`,
+            type: 'provider_error',
+            code: httpError.code,
+            details: httpError.details,
+            provider_request_id: httpError.providerRequestId,
+            provider_response: httpError.providerResponse,
+            retry_after_ms: httpError.retryAfterMs,
+          },
+        },
+        httpError.statusCode,
+      );
+    }
+  }
+
+  /**
+   * Perform chat completion with streaming using OpenAI-compatible API
+   */
+  public async *chatCompletionStream(
+    params: ChatCompletionParams,
+  ): AsyncGenerator<ChatCompletionStreamChunk, void, unknown> {
+    const request = this.buildRequest(params);
+    request.stream = true;
+    if (params.includeUsage) {
+      request.stream_options = { include_usage: true };
+    }
+
+    const apiKey = this.acquireApiKey();
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post('/chat/completions', request, {
+          baseURL: this.config.baseUrl,
+          timeout: (params.timeoutSecs ?? this.config.timeoutSecs) * 1000,
+          headers: this.buildHeaders(apiKey),
+          signal: params.abortSignal,
+          responseType: 'stream',
+        }),
+      );
+
+      const stream = response.data as Readable;
+
+      // Parse SSE stream
+      let buffer = '';
+      for await (const chunk of stream) {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const trimmedLine = line.trim();
+          if (!trimmedLine) {
+            continue;
+          }
+
+          // Comments (e.g. `: OPENROUTER PROCESSING`) keep idle connections alive
+          if (trimmedLine.startsWith(':')) {
+            yield this.buildCommentChunk(trimmedLine, params.model);
+            continue;
+          }
+
+          if (trimmedLine === 'data: [DONE]') {
+            return; // Stream completed
+          }
+
+          if (trimmedLine.startsWith('data: ')) {
+            try {
+              const jsonData = trimmedLine.slice(6); // Remove "data: " prefix
+              const sseChunk = JSON.parse(jsonData) as OpenAiCompatibleStreamChunk;
+
+              const usage = sseChunk.usage ? this.mapOpenAiUsage(sseChunk.usage) : undefined;
+              const choice = sseChunk.choices[0];
+              if (!choice) {
+                // Usage chunk (stream_options.include_usage) has no choices
+                if (usage) {
+                  yield { id: sseChunk.id, model: sseChunk.model, delta: {}, usage };
+                }
+                continue;
+              }
+
+              yield {
+                id: sseChunk.id,
+                model: sseChunk.model,
+                delta: {
+                  role: choice.delta.role,
+                  content: choice.delta.content,
+                  tool_calls: choice.delta.tool_calls,
+                  reasoning_content:
+                    choice.delta.reasoning_content ?? choice.delta.reasoning ?? undefined,
+                },
+                finishReason: choice.finish_reason
+                  ? this.mapFinishReason(choice.finish_reason)
+                  : undefined,
+                usage,
+                logprobs: choice.logprobs ?? undefined,
+              };
+            } catch (parseError) {
+              this.logger.warn(`Failed to parse SSE chunk: ${trimmedLine}`, parseError);
+            }
+          }
+        }
+      }
+    } catch (error) {
+      const httpError = this.handleHttpError(error);
+      this.reportApiKeyError(apiKey, httpError);
+
+      throw new HttpException(
+        {
+          error: {
+            message: `${this.name} streaming API error: ${httpError.message}`,
+            type: 'provider_error',
+            code: httpError.code,
+            details: httpError.details,
+            provider_request_id: httpError.providerRequestId,
+            provider_response: httpError.providerResponse,
+            retry_after_ms: httpError.retryAfterMs,
+          },
+        },
+        httpError.statusCode,
+      );
+    }
+  }
+
+  /**
+   * Create embeddings using OpenAI-compatible API
+   */
+  public override async embeddings(params: EmbeddingsParams): Promise<EmbeddingsResult> {
+    const apiKey = this.acquireApiKey();
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post<OpenAiCompatibleEmbeddingsResponse>(
+          '/embeddings',
+          {
+            model: params.model,
+            input: params.input,
+            dimensions: params.dimensions,
+            user: params.user,
+            encoding_format: 'float',
+          },
+          {
+            baseURL: this.config.baseUrl,
+            timeout: (params.timeoutSecs ?? this.config.timeoutSecs) * 1000,
+            headers: this.buildHeaders(apiKey),
+            signal: params.abortSignal,
+          },
+        ),
+      );
+
+      return this.mapOpenAiEmbeddings(response.data);
+    } catch (error) {
+      const httpError = this.handleHttpError(error);
+      this.reportApiKeyError(apiKey, httpError);
+
+      throw new HttpException(
+        {
+          error: {
+            message: `${this.name} API error: ${httpError.message}`,
+            type: 'provider_error',
+            code: httpError.code,
+            details: httpError.details,
+            provider_request_id: httpError.providerRequestId,
+            provider_response: httpError.providerResponse,
+            retry_after_ms: httpError.retryAfterMs,
+          },
+        },
+        httpError.statusCode,
+      );
+    }
+  }
+
+  /**
+   * Build request body from chat completion params
+   */
+  private buildRequest(params: ChatCompletionParams): OpenAiCompatibleRequest {
+    const request: OpenAiCompatibleRequest = {
+      model: params.model,
+      messages: params.messages,
+      temperature: params.temperature,
+      max_tokens: params.maxTokens,
+      top_p: params.topP,
+      frequency_penalty: params.frequencyPenalty,
+      presence_penalty: params.presencePenalty,
+      stop: params.stop,
+      tools: params.tools,
+      tool_choice: params.toolChoice,
+      ...this.pickExtraParams(params.extraParams),
+    };
+
+    if (params.responseFormat) {
+      request.response_format = params.responseFormat;
+    }
+
+    return request;
+  }
+
+  /**
+   * Build request headers: configured extra headers plus authentication
+   */
+  private buildHeaders(apiKey: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.config.headers,
+    };
+
+    switch (this.config.authScheme ?? 'bearer') {
+      case 'bearer':
+        headers['Authorization'] = `Bearer ${apiKey}`;
+        break;
+      case 'header':
+        headers[this.config.authHeader ?? 'x-api-key'] = apiKey;
+        break;
+      case 'none':
+        break;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Map OpenAI-compatible response to standard format
+   */
+  private mapResponse(response: OpenAiCompatibleResponse): ChatCompletionResult {
+    const choice = response.choices[0];
+    if (!choice) {
+      throw new Error(`No choices in ${this.name} response`);
+    }
+
+    return {
+      id: response.id,
+      model: response.model,
+      content: this.handleContentWithToolCalls(choice.message.content, choice.message.tool_calls),
+      toolCalls: choice.message.tool_calls,
+      reasoningContent: choice.message.reasoning_content ?? choice.message.reasoning ?? undefined,
+      logprobs: choice.logprobs ?? undefined,
+      finishReason: this.mapFinishReason(choice.finish_reason),
+      usage: {
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: response.usage?.completion_tokens ?? 0,
+        totalTokens: response.usage?.total_tokens ?? 0,
+      },
+    };
+  }
+}
@@ -7,14 +7,21 @@ import { BaseProvider, type BaseProviderConfig } from './base.provider.js';
 import type {
   ChatCompletionParams,
   ChatCompletionResult,
+  ChatCompletionLogprobs,
   ChatCompletionStreamChunk,
+  EmbeddingsParams,
+  EmbeddingsResult,
+  ExtraParam,
+  ExtraParams,
+  ReasoningEffort,
+  ReasoningParams,
 } from './interfaces/provider.interface.js';
-import type { Tool, ToolCall, ToolChoice } from './interfaces/tools.interface.js';
+import type { Tool, ToolCall, ToolCallDelta, ToolChoice } from './interfaces/tools.interface.js';
 
 /**
  * OpenRouter API request format
  */
-interface OpenRouterRequest {
+interface OpenRouterRequest extends ExtraParams {
   model: string;
   messages: Array<{
     role: string;
@@ -39,6 +46,13 @@ interface OpenRouterRequest {
   tools?: Tool[];
   tool_choice?: ToolChoice;
   stream?: boolean;
+  stream_options?: { include_usage: boolean };
+  // Unified reasoning param, effort and max_tokens are mutually exclusive
+  reasoning?: {
+    effort?: ReasoningEffort;
+    max_tokens?: number;
+    exclude?: boolean;
+  };
 }
 
 /**
@@ -52,10 +66,10 @@ interface OpenRouterResponse {
       role: string;
       content: string | null;
       tool_calls?: ToolCall[];
-      // Reasoning models may put response in reasoning field instead of content
-      reasoning?: string;
+      reasoning?: string | null;
     };
     finish_reason: string;
+    logprobs?: ChatCompletionLogprobs | null;
   }>;
   usage: {
     prompt_tokens: number;
@@ -74,12 +88,46 @@ interface OpenRouterStreamChunk {
     delta: {
       role?: 'assistant';
       content?: string;
-      tool_calls?: ToolCall[];
+      tool_calls?: ToolCallDelta[];
+      reasoning?: string | null;
     };
     finish_reason?: string;
+    logprobs?: ChatCompletionLogprobs | null;
   }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
+}
+
+/**
+ * OpenRouter Embeddings API response format
+ */
+interface OpenRouterEmbeddingsResponse {
+  model: string;
+  data: Array<{ index: number; embedding: number[] }>;
+  usage?: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
 }
 
+/**
+ * Extra OpenAI parameters accepted by OpenRouter
+ */
+const SUPPORTED_PARAMS: readonly ExtraParam[] = [
+  'seed',
+  'logit_bias',
+  'logprobs',
+  'top_logprobs',
+  'user',
+  'parallel_tool_calls',
+  'min_p',
+  'top_k',
+  'repetition_penalty',
+];
+
 /**
  * OpenRouter LLM provider implementation
  */
@@ -93,6 +141,10 @@ export class OpenRouterProvider extends BaseProvider {
     return 'openrouter';
   }
 
+  public get supportedParams(): readonly ExtraParam[] {
+    return SUPPORTED_PARAMS;
+  }
+
   /**
    * Perform chat completion using OpenRouter API
    */
@@ -108,19 +160,26 @@ export class OpenRouterProvider extends BaseProvider {
       stop: params.stop,
       tools: params.tools,
       tool_choice: params.toolChoice,
+      ...this.pickExtraParams(params.extraParams),
     };
 
     if (params.responseFormat) {
       request.response_format = params.responseFormat;
     }
 
+    if (params.reasoning) {
+      request.reasoning = this.mapReasoning(params.reasoning);
+    }
+
+    const apiKey = this.acquireApiKey();
+
     try {
       const response = await firstValueFrom(
         this.httpService.post<OpenRouterResponse>('/chat/completions', request, {
           baseURL: this.config.baseUrl,
           timeout: (params.timeoutSecs || this.config.timeoutSecs) * 1000,
           headers: {
-            Authorization: `Bearer ${this.config.apiKey}`,
+            Authorization: `Bearer ${apiKey}`,
             'HTTP-Referer': 'https://github.com/free-llm-router',
             'X-Title': 'Free LLM Router',
           },
@@ -131,6 +190,7 @@ export class OpenRouterProvider extends BaseProvider {
       return this.mapResponse(response.data, { responseFormat: params.responseFormat });
     } catch (error) {
       const httpError = this.handleHttpError(error);
+      this.reportApiKeyError(apiKey, httpError);
 
       throw new HttpException(
         {
@@ -141,6 +201,7 @@ export class OpenRouterProvider extends BaseProvider {
             details: httpError.details,
             provider_request_id: httpError.providerRequestId,
             provider_response: httpError.providerResponse,
+            retry_after_ms: httpError.retryAfterMs,
           },
         },
         httpError.statusCode,
@@ -165,20 +226,28 @@ export class OpenRouterProvider extends BaseProvider {
       stop: params.stop,
       tools: params.tools,
       tool_choice: params.toolChoice,
+      ...this.pickExtraParams(params.extraParams),
       stream: true,
+      stream_options: params.includeUsage ? { include_usage: true } : undefined,
     };
 
     if (params.responseFormat) {
       request.response_format = params.responseFormat;
     }
 
+    if (params.reasoning) {
+      request.reasoning = this.mapReasoning(params.reasoning);
+    }
+
+    const apiKey = this.acquireApiKey();
+
     try {
       const response = await firstValueFrom(
         this.httpService.post('/chat/completions', request, {
           baseURL: this.config.baseUrl,
           timeout: (params.timeoutSecs || this.config.timeoutSecs) * 1000,
           headers: {
-            Authorization: `Bearer ${this.config.apiKey}`,
+            Authorization: `Bearer ${apiKey}`,
             'HTTP-Referer': 'https://github.com/free-llm-router',
             'X-Title': 'Free LLM Router',
           },
@@ -198,8 +267,14 @@ export class OpenRouterProvider extends BaseProvider {
 
         for (const line of lines) {
           const trimmedLine = line.trim();
-          if (!trimmedLine || trimmedLine.startsWith(':')) {
-            continue; // Skip empty lines and comments
+          if (!trimmedLine) {
+            continue;
+          }
+
+          // Comments (e.g. `: OPENROUTER PROCESSING`) keep idle connections alive
+          if (trimmedLine.startsWith(':')) {
+            yield this.buildCommentChunk(trimmedLine, params.model);
+            continue;
           }
 
           if (trimmedLine === 'data: [DONE]') {
@@ -211,8 +286,13 @@ export class OpenRouterProvider extends BaseProvider {
               const jsonData = trimmedLine.slice(6); // Remove "data: " prefix
               const sseChunk = JSON.parse(jsonData) as OpenRouterStreamChunk;
 
+              const usage = sseChunk.usage ? this.mapOpenAiUsage(sseChunk.usage) : undefined;
               const choice = sseChunk.choices[0];
               if (!choice) {
+                // Usage chunk (stream_options.include_usage) has no choices
+                if (usage) {
+                  yield { id: sseChunk.id, model: sseChunk.model, delta: {}, usage };
+                }
                 continue;
               }
 
@@ -223,10 +303,13 @@ export class OpenRouterProvider extends BaseProvider {
                   role: choice.delta.role,
                   content: choice.delta.content,
                   tool_calls: choice.delta.tool_calls,
+                  reasoning_content: choice.delta.reasoning ?? undefined,
                 },
                 finishReason: choice.finish_reason
                   ? this.mapFinishReason(choice.finish_reason)
                   : undefined,
+                usage,
+                logprobs: choice.logprobs ?? undefined,
               };
             } catch (parseError) {
               this.logger.warn(`Failed to parse SSE chunk: ${trimmedLine}`, parseError);
@@ -236,6 +319,7 @@ export class OpenRouterProvider extends BaseProvider {
       }
     } catch (error) {
       const httpError = this.handleHttpError(error);
+      this.reportApiKeyError(apiKey, httpError);
 
       throw new HttpException(
         {
@@ -246,6 +330,7 @@ export class OpenRouterProvider extends BaseProvider {
             details: httpError.details,
             provider_request_id: httpError.providerRequestId,
             provider_response: httpError.providerResponse,
+            retry_after_ms: httpError.retryAfterMs,
           },
         },
         httpError.statusCode,
@@ -253,6 +338,70 @@ export class OpenRouterProvider extends BaseProvider {
     }
   }
 
+  /**
+   * Create embeddings using OpenRouter API
+   */
+  public override async embeddings(params: EmbeddingsParams): Promise<EmbeddingsResult> {
+    const apiKey = this.acquireApiKey();
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post<OpenRouterEmbeddingsResponse>(
+          '/embeddings',
+          {
+            model: params.model,
+            input: params.input,
+            dimensions: params.dimensions,
+            user: params.user,
+            encoding_format: 'float',
+          },
+          {
+            baseURL: this.config.baseUrl,
+            timeout: (params.timeoutSecs ?? this.config.timeoutSecs) * 1000,
+            headers: {
+              Authorization: `Bearer ${apiKey}`,
+              'HTTP-Referer': 'https://github.com/free-llm-router',
+              'X-Title': 'Free LLM Router',
+            },
+            signal: params.abortSignal,
+          },
+        ),
+      );
+
+      return this.mapOpenAiEmbeddings(response.data);
+    } catch (error) {
+      const httpError = this.handleHttpError(error);
+      this.reportApiKeyError(apiKey, httpError);
+
+      throw new HttpException(
+        {
+          error: {
+            message: `OpenRouter API error: ${httpError.message}`,
+            type: 'provider_error',
+            code: httpError.code,
+            details: httpError.details,
+            provider_request_id: httpError.providerRequestId,
+            provider_response: httpError.providerResponse,
+            retry_after_ms: httpError.retryAfterMs,
+          },
+        },
+        httpError.statusCode,
+      );
+    }
+  }
+
+  /**
+   * Map reasoning controls to OpenRouter's unified `reasoning` param.
+   * A thinking budget takes precedence over effort.
+   */
+  private mapReasoning(reasoning: ReasoningParams): OpenRouterRequest['reasoning'] {
+    return {
+      effort: reasoning.maxTokens === undefined ? reasoning.effort : undefined,
+      max_tokens: reasoning.maxTokens,
+      exclude: reasoning.exclude,
+    };
+  }
+
   /**
    * Map OpenRouter response to standard format
    */
@@ -271,6 +420,7 @@ export class OpenRouterProvider extends BaseProvider {
       options?.responseFormat?.type === 'json_schema';
 
     let messageContent = choice.message.content;
+    const reasoningContent = choice.message.reasoning ?? undefined;
 
     if (jsonResponseRequested) {
       const parsedFromContent = JsonParser.safeParse(messageContent);
@@ -278,7 +428,7 @@ export class OpenRouterProvider extends BaseProvider {
         messageContent = JSON.stringify(parsedFromContent);
       } else {
         this.logger.error(
-          { content: messageContent, reasoning: choice.message.reasoning },
+          { content: messageContent, reasoning: reasoningContent },
           'Failed to parse JSON from content in JSON response mode',
         );
         throw new HttpException(
@@ -293,17 +443,10 @@ export class OpenRouterProvider extends BaseProvider {
           502,
         );
       }
-    } else {
-      // Some reasoning models (e.g., gpt-oss-20b) put response in reasoning field instead of content
-      // Use reasoning as fallback when content is empty
-      if (!messageContent && choice.message.reasoning) {
-        this.logger.debug('Using reasoning field as content fallback');
-        messageContent = choice.message.reasoning;
-      }
     }
 
     // Debug logging for truly empty responses
-    if (!messageContent && !choice.message.tool_calls) {
+    if (!messageContent && !reasoningContent && !choice.message.tool_calls) {
       this.logger.warn({ choice }, 'OpenRouter warning: empty content and no tool calls');
     }
 
@@ -312,6 +455,8 @@ export class OpenRouterProvider extends BaseProvider {
       model: response.model,
       content: this.handleContentWithToolCalls(messageContent, choice.message.tool_calls),
       toolCalls: choice.message.tool_calls,
+      reasoningContent,
+      logprobs: choice.logprobs ?? undefined,
       finishReason: this.mapFinishReason(choice.finish_reason),
       usage: {
         promptTokens: response.usage.prompt_tokens,
@@ -2,10 +2,20 @@ import { Module, DynamicModule, Provider } from '@nestjs/common';
 import { HttpModule, HttpService } from '@nestjs/axios';
 import { OpenRouterProvider } from './openrouter.provider.js';
 import { DeepSeekProvider } from './deepseek.provider.js';
+import { AnthropicProvider } from './anthropic.provider.js';
+import { GeminiProvider } from './gemini.provider.js';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider.js';
 import { loadRouterConfig } from '../../config/router.config.js';
-import type { LlmProvider } from './interfaces/provider.interface.js';
+import { RateLimiterService } from '../rate-limiter/rate-limiter.service.js';
+import { DEFAULT_OLLAMA_BASE_URL } from '../../common/constants/app.constants.js';
+import type { ExtraParam, LlmProvider } from './interfaces/provider.interface.js';
 import type { BaseProviderConfig } from './base.provider.js';
-import type { RouterConfig } from '../../config/router-config.interface.js';
+import type { ApiKeyPool } from '../rate-limiter/api-key-pool.js';
+import type {
+  RouterConfig,
+  ProviderConfig,
+  ProviderType,
+} from '../../config/router-config.interface.js';
 
 /**
  * Token for providers map
@@ -17,77 +27,62 @@ export const PROVIDERS_MAP = 'PROVIDERS_MAP';
  */
 export type ProvidersMap = Map<string, LlmProvider>;
 
+/**
+ * Default base URLs for built-in providers
+ */
+const DEFAULT_BASE_URLS: Partial<Record<ProviderType, string>> = {
+  openrouter: 'https://openrouter.ai/api/v1',
+  deepseek: 'https://api.deepseek.com',
+  anthropic: 'https://api.anthropic.com/v1',
+  gemini: 'https://generativelanguage.googleapis.com/v1beta',
+  ollama: DEFAULT_OLLAMA_BASE_URL,
+};
+
+/**
+ * Extra OpenAI parameters accepted by Ollama's OpenAI-compatible API
+ */
+const OLLAMA_SUPPORTED_PARAMS: ExtraParam[] = ['seed'];
+
 /**
  * Module for LLM providers
  */
 @Module({})
 export class ProvidersModule {
   /**
-   * Register providers dynamically based on configuration
+   * Register providers dynamically based on configuration.
+   * Every enabled entry in `providers` becomes an LlmProvider keyed by its name.
    */
   public static forRoot(): DynamicModule {
     const routerConfig: RouterConfig = loadRouterConfig();
 
-    const providers: Provider[] = [];
-
-    // Register OpenRouter if enabled
-    if (routerConfig.providers['openrouter']?.enabled) {
-      const openRouterConfig: BaseProviderConfig = {
-        apiKey: routerConfig.providers['openrouter'].apiKey,
-        baseUrl: routerConfig.providers['openrouter'].baseUrl ?? 'https://openrouter.ai/api/v1',
-        timeoutSecs: routerConfig.routing.timeoutSecs,
-      };
-
-      providers.push({
-        provide: 'OpenRouterProvider',
-        useFactory: (httpService: HttpService) =>
-          new OpenRouterProvider(httpService, openRouterConfig),
-        inject: [HttpService],
-      });
-    } else {
-      providers.push({
-        provide: 'OpenRouterProvider',
-        useValue: undefined,
-      });
-    }
-
-    // Register DeepSeek if enabled
-    if (routerConfig.providers['deepseek']?.enabled) {
-      const deepSeekConfig: BaseProviderConfig = {
-        apiKey: routerConfig.providers['deepseek'].apiKey,
-        baseUrl: routerConfig.providers['deepseek'].baseUrl ?? 'https://api.deepseek.com',
-        timeoutSecs: routerConfig.routing.timeoutSecs,
-      };
+    const providers: Provider[] = [
+      {
+        provide: PROVIDERS_MAP,
+        useFactory: (httpService: HttpService, rateLimiterService: RateLimiterService) => {
+          const map = new Map<string, LlmProvider>();
 
-      providers.push({
-        provide: 'DeepSeekProvider',
-        useFactory: (httpService: HttpService) => new DeepSeekProvider(httpService, deepSeekConfig),
-        inject: [HttpService],
-      });
-    } else {
-      providers.push({
-        provide: 'DeepSeekProvider',
-        useValue: undefined,
-      });
-    }
-
-    // Create providers map provider
-    providers.push({
-      provide: PROVIDERS_MAP,
-      useFactory: (openRouter?: OpenRouterProvider, deepSeek?: DeepSeekProvider) => {
-        const map = new Map<string, LlmProvider>();
+          for (const [name, providerConfig] of Object.entries(routerConfig.providers)) {
+            if (!providerConfig.enabled) {
+              continue;
+            }
 
-        if (openRouter) {
-          map.set('openrouter', openRouter);
-        }
-        if (deepSeek) {
-          map.set('deepseek', deepSeek);
-        }
+            map.set(
+              name,
+              ProvidersModule.createProvider(
+                name,
+                providerConfig,
+                routerConfig.routing.timeoutSecs,
+                httpService,
+                rateLimiterService.getApiKeyPool(name),
+              ),
+            );
+          }
 
-        return map;
+          return map;
+        },
+        inject: [HttpService, RateLimiterService],
       },
-      inject: ['OpenRouterProvider', 'DeepSeekProvider'],
-    });
+    ];
 
     return {
       module: ProvidersModule,
@@ -96,4 +91,59 @@ export class ProvidersModule {
       exports: [PROVIDERS_MAP],
     };
   }
+
+  /**
+   * Create provider instance for a config entry.
+   * Type is inferred from the name for built-in providers.
+   * When a key pool is given, every request picks its key from the pool.
+   */
+  public static createProvider(
+    name: string,
+    providerConfig: ProviderConfig,
+    timeoutSecs: number,
+    httpService: HttpService,
+    apiKeyPool?: ApiKeyPool,
+  ): LlmProvider {
+    const type = providerConfig.type ?? (name as ProviderType);
+    const apiKey = providerConfig.apiKey ?? providerConfig.apiKeys?.[0];
+
+    const baseConfig: BaseProviderConfig = {
+      apiKey: apiKey ?? '',
+      apiKeyPool,
+      baseUrl: providerConfig.baseUrl ?? DEFAULT_BASE_URLS[type] ?? '',
+      timeoutSecs,
+    };
+
+    switch (type) {
+      case 'openrouter':
+        return new OpenRouterProvider(httpService, baseConfig);
+      case 'deepseek':
+        return new DeepSeekProvider(httpService, baseConfig);
+      case 'anthropic':
+        return new AnthropicProvider(httpService, baseConfig);
+      case 'gemini':
+        return new GeminiProvider(httpService, baseConfig);
+      case 'ollama':
+        // Ollama serves OpenAI-compatible API under /v1 of the native API root
+        return new OpenAiCompatibleProvider(httpService, {
+          ...baseConfig,
+          name,
+          baseUrl: `${baseConfig.baseUrl.replace(/\/+$/, '')}/v1`,
+          headers: providerConfig.headers,
+          authScheme: apiKey ? 'bearer' : 'none',
+          supportedParams: providerConfig.supportedParams ?? OLLAMA_SUPPORTED_PARAMS,
+        });
+      case 'openai-compatible':
+        return new OpenAiCompatibleProvider(httpService, {
+          ...baseConfig,
+          name,
+          headers: providerConfig.headers,
+          authScheme: providerConfig.authScheme,
+          authHeader: providerConfig.authHeader,
+          supportedParams: providerConfig.supportedParams,
+        });
+      default:
+        throw new Error(`Unknown provider type "${String(type)}" for provider "${name}"`);
+    }
+  }
 }
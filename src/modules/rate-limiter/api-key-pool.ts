@@ -0,0 +1,127 @@
+import type { ApiKeyRotation } from '../../config/router-config.interface.js';
+import type { ApiKeyStatus } from './interfaces/rate-limiter.interface.js';
+
+/**
+ * Per-key state
+ */
+interface ApiKeyState {
+  key: string;
+  requests: number;
+  limitedCount: number;
+  lastLimitedAt?: number;
+  excludedUntil?: number;
+}
+
+/**
+ * Pool of API keys of a single provider.
+ * Keys that hit a quota (429/402) are excluded for a cooldown period
+ * and the next request uses another key.
+ */
+export class ApiKeyPool {
+  private readonly keys: ApiKeyState[];
+  private nextIndex = 0;
+
+  constructor(
+    keys: string[],
+    private readonly rotation: ApiKeyRotation,
+    private readonly cooldownMs: number,
+  ) {
+    this.keys = keys.map(key => ({ key, requests: 0, limitedCount: 0 }));
+  }
+
+  /**
+   * Number of keys in the pool
+   */
+  public get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Pick a key for the next request.
+   * If every key is excluded, the one whose cooldown ends first is returned.
+   */
+  public acquire(): string {
+    const now = Date.now();
+    const available = this.keys.filter(state => !this.isExcluded(state, now));
+
+    let state: ApiKeyState;
+    if (available.length === 0) {
+      state = this.keys.reduce((a, b) =>
+        (a.excludedUntil ?? 0) <= (b.excludedUntil ?? 0) ? a : b,
+      );
+    } else if (this.rotation === 'least-recently-limited') {
+      // Never limited keys first, then the one limited longest ago
+      state = available.reduce((a, b) =>
+        (a.lastLimitedAt ?? 0) <= (b.lastLimitedAt ?? 0) ? a : b,
+      );
+    } else {
+      state = this.nextRoundRobin(now);
+    }
+
+    state.requests++;
+    return state.key;
+  }
+
+  /**
+   * Temporarily exclude a key after a quota error
+   */
+  public markLimited(key: string): void {
+    const state = this.keys.find(item => item.key === key);
+    if (!state) {
+      return;
+    }
+
+    const now = Date.now();
+    state.limitedCount++;
+    state.lastLimitedAt = now;
+    state.excludedUntil = now + this.cooldownMs;
+  }
+
+  /**
+   * Check if at least one key is not excluded
+   */
+  public hasAvailableKey(): boolean {
+    const now = Date.now();
+    return this.keys.some(state => !this.isExcluded(state, now));
+  }
+
+  /**
+   * Per-key counters for admin API. Keys are masked.
+   */
+  public getStatus(): ApiKeyStatus[] {
+    const now = Date.now();
+
+    return this.keys.map(state => ({
+      key: ApiKeyPool.maskKey(state.key),
+      requests: state.requests,
+      limitedCount: state.limitedCount,
+      excluded: this.isExcluded(state, now),
+      excludedUntil:
+        state.excludedUntil && state.excludedUntil > now
+          ? new Date(state.excludedUntil).toISOString()
+          : undefined,
+      lastLimitedAt: state.lastLimitedAt ? new Date(state.lastLimitedAt).toISOString() : undefined,
+    }));
+  }
+
+  private nextRoundRobin(now: number): ApiKeyState {
+    for (let i = 0; i < this.keys.length; i++) {
+      const index = (this.nextIndex + i) % this.keys.length;
+      const state = this.keys[index];
+      if (!this.isExcluded(state, now)) {
+        this.nextIndex = (index + 1) % this.keys.length;
+        return state;
+      }
+    }
+
+    return this.keys[0];
+  }
+
+  private isExcluded(state: ApiKeyState, now: number): boolean {
+    return state.excludedUntil !== undefined && state.excludedUntil > now;
+  }
+
+  private static maskKey(key: string): string {
+    return key.length > 8 ? `...${key.slice(-4)}` : '***';
+  }
+}
@@ -23,6 +23,77 @@ export interface TokenBucket {
   refillRate: number;
 }
 
+/**
+ * API key counters for admin API
+ */
+export interface ApiKeyStatus {
+  /**
+   * Masked key (last 4 characters)
+   */
+  key: string;
+
+  /**
+   * Number of requests sent with this key
+   */
+  requests: number;
+
+  /**
+   * Number of quota errors (429/402) returned for this key
+   */
+  limitedCount: number;
+
+  /**
+   * Whether the key is currently excluded from rotation
+   */
+  excluded: boolean;
+
+  /**
+   * End of the current exclusion (ISO string)
+   */
+  excludedUntil?: string;
+
+  /**
+   * Time of the last quota error (ISO string)
+   */
+  lastLimitedAt?: string;
+}
+
+/**
+ * Client quota that was exceeded
+ */
+export type ClientQuotaLimit = 'requestsPerMinute' | 'tokensPerDay';
+
+/**
+ * Result of a client quota check
+ */
+export type ClientQuotaCheck =
+  | { allowed: true }
+  | {
+      allowed: false;
+      limit: ClientQuotaLimit;
+      /**
+       * Seconds until the quota allows a new request
+       */
+      retryAfterSecs: number;
+    };
+
+/**
+ * Usage of a single client quota
+ */
+export interface QuotaUsage {
+  limit: number;
+  remaining: number;
+}
+
+/**
+ * Client quotas for admin API
+ */
+export interface ClientQuotaStatus {
+  requestsPerMinute?: QuotaUsage;
+  tokensPerDay?: QuotaUsage;
+  paidFallbackPerDay?: QuotaUsage;
+}
+
 /**
  * Rate limit status for admin API
  */
@@ -32,4 +103,12 @@ export interface RateLimitStatus {
   activeBuckets: {
     models: number;
   };
+  /**
+   * Per-key counters of providers configured with multiple API keys
+   */
+  apiKeys?: Record<string, ApiKeyStatus[]>;
+  /**
+   * Quotas of clients configured with limits
+   */
+  clients?: Record<string, ClientQuotaStatus>;
 }
@@ -1,15 +1,35 @@
 import { Injectable, OnModuleDestroy, Inject, Logger } from '@nestjs/common';
 import { ROUTER_CONFIG } from '../../config/router-config.provider.js';
-import type { RouterConfig } from '../../config/router-config.interface.js';
-import type { RateLimitStatus, TokenBucket } from './interfaces/rate-limiter.interface.js';
+import type { ClientConfig, RouterConfig } from '../../config/router-config.interface.js';
+import type {
+  ApiKeyStatus,
+  ClientQuotaCheck,
+  ClientQuotaStatus,
+  RateLimitStatus,
+  TokenBucket,
+} from './interfaces/rate-limiter.interface.js';
+import { ApiKeyPool } from './api-key-pool.js';
 import {
   STALE_BUCKET_THRESHOLD_MS,
   RATE_LIMITER_CLEANUP_INTERVAL_MS,
+  DEFAULT_API_KEY_COOLDOWN_SECS,
 } from '../../common/constants/app.constants.js';
 
+type ClientQuota = keyof ClientQuotaStatus;
+
+/**
+ * Refill period of each client quota in minutes
+ */
+const CLIENT_QUOTA_PERIOD_MINUTES: Record<ClientQuota, number> = {
+  requestsPerMinute: 1,
+  tokensPerDay: 24 * 60,
+  paidFallbackPerDay: 24 * 60,
+};
+
 /**
  * Rate Limiter Service implementing Token Bucket algorithm.
- * Provides global, per-client, and per-model rate limiting.
+ * Provides per-model rate limiting and per-client quotas
+ * (requests per minute, tokens per day, paid fallback calls per day).
  */
 @Injectable()
 export class RateLimiterService implements OnModuleDestroy {
@@ -19,11 +39,39 @@ export class RateLimiterService implements OnModuleDestroy {
   // Token buckets for model limiter
   private readonly modelBuckets: Map<string, TokenBucket> = new Map();
 
+  // API key pools of providers configured with apiKeys
+  private readonly apiKeyPools: Map<string, ApiKeyPool> = new Map();
+
+  // Token buckets for client quotas, keyed by "<client>:<quota>"
+  private readonly clientBuckets: Map<string, TokenBucket> = new Map();
+  private readonly clients: ClientConfig[];
+
   // Cleanup interval for stale buckets
   private cleanupIntervalId?: ReturnType<typeof setInterval>;
 
   constructor(@Inject(ROUTER_CONFIG) routerConfig: RouterConfig) {
     this.modelRequestsPerMinute = routerConfig.modelRequestsPerMinute;
+    this.clients = routerConfig.clients ?? [];
+
+    for (const [providerName, providerConfig] of Object.entries(routerConfig.providers ?? {})) {
+      if (!providerConfig.enabled || !providerConfig.apiKeys?.length) {
+        continue;
+      }
+
+      const keys = [
+        ...(providerConfig.apiKey ? [providerConfig.apiKey] : []),
+        ...providerConfig.apiKeys.filter(key => key !== providerConfig.apiKey),
+      ];
+      this.apiKeyPools.set(
+        providerName,
+        new ApiKeyPool(
+          keys,
+          providerConfig.keyRotation ?? 'round-robin',
+          (providerConfig.keyCooldownSecs ?? DEFAULT_API_KEY_COOLDOWN_SECS) * 1000,
+        ),
+      );
+      this.logger.log(`Provider "${providerName}" uses ${keys.length} API keys`);
+    }
 
     if (this.modelRequestsPerMinute) {
       this.logger.log(`Rate limiting enabled for models: ${this.modelRequestsPerMinute} req/min`);
@@ -71,17 +119,137 @@ export class RateLimiterService implements OnModuleDestroy {
     return this.tryConsume(bucket);
   }
 
+  /**
+   * Check client token and request quotas and count the request
+   * @returns Exceeded quota and seconds to wait if the request is not allowed
+   */
+  public checkClient(client: ClientConfig): ClientQuotaCheck {
+    // Token quota is checked first so a rejected request does not spend a request token
+    const tokenBucket = this.getClientBucket(client, 'tokensPerDay');
+    if (tokenBucket) {
+      this.refillBucket(tokenBucket);
+      if (tokenBucket.tokens < 1) {
+        return {
+          allowed: false,
+          limit: 'tokensPerDay',
+          retryAfterSecs: this.getRetryAfterSecs(tokenBucket),
+        };
+      }
+    }
+
+    const requestBucket = this.getClientBucket(client, 'requestsPerMinute');
+    if (requestBucket && !this.tryConsume(requestBucket)) {
+      return {
+        allowed: false,
+        limit: 'requestsPerMinute',
+        retryAfterSecs: this.getRetryAfterSecs(requestBucket),
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Count tokens used by a client request.
+   * The bucket may go below zero, then new requests wait until the debt is refilled.
+   */
+  public recordClientTokens(client: ClientConfig, tokens: number): void {
+    const bucket = this.getClientBucket(client, 'tokensPerDay');
+    if (!bucket || tokens <= 0) return;
+
+    this.refillBucket(bucket);
+    bucket.tokens -= tokens;
+  }
+
+  /**
+   * Check client paid fallback quota
+   * @returns true if allowed, false if the daily quota is exhausted
+   */
+  public checkClientFallback(client: ClientConfig): boolean {
+    const bucket = this.getClientBucket(client, 'paidFallbackPerDay');
+    return bucket ? this.tryConsume(bucket) : true;
+  }
+
+  /**
+   * Get API key pool of a provider (only for providers configured with apiKeys)
+   */
+  public getApiKeyPool(providerName: string): ApiKeyPool | undefined {
+    return this.apiKeyPools.get(providerName);
+  }
+
+  /**
+   * Check if a provider has an API key that is not excluded after a quota error
+   */
+  public hasAvailableApiKey(providerName: string): boolean {
+    return this.apiKeyPools.get(providerName)?.hasAvailableKey() ?? false;
+  }
+
   /**
    * Get current rate limiting status
    */
   public getStatus(): RateLimitStatus {
-    return {
+    const status: RateLimitStatus = {
       enabled: !!this.modelRequestsPerMinute,
       requestsPerMinute: this.modelRequestsPerMinute,
       activeBuckets: {
         models: this.modelBuckets.size,
       },
     };
+
+    if (this.apiKeyPools.size > 0) {
+      const apiKeys: Record<string, ApiKeyStatus[]> = {};
+      for (const [providerName, pool] of this.apiKeyPools.entries()) {
+        apiKeys[providerName] = pool.getStatus();
+      }
+      status.apiKeys = apiKeys;
+    }
+
+    const clients: Record<string, ClientQuotaStatus> = {};
+    for (const client of this.clients) {
+      const quotas: ClientQuotaStatus = {};
+      for (const quota of Object.keys(CLIENT_QUOTA_PERIOD_MINUTES) as ClientQuota[]) {
+        const bucket = this.getClientBucket(client, quota);
+        if (bucket) {
+          this.refillBucket(bucket);
+          quotas[quota] = {
+            limit: bucket.maxTokens,
+            remaining: Math.max(0, Math.floor(bucket.tokens)),
+          };
+        }
+      }
+      if (Object.keys(quotas).length > 0) {
+        clients[client.name] = quotas;
+      }
+    }
+    if (Object.keys(clients).length > 0) {
+      status.clients = clients;
+    }
+
+    return status;
+  }
+
+  /**
+   * Get or create the bucket of a client quota (undefined if the quota is not configured)
+   */
+  private getClientBucket(client: ClientConfig, quota: ClientQuota): TokenBucket | undefined {
+    const limit = client[quota];
+    if (!limit) return undefined;
+
+    const key = `${client.name}:${quota}`;
+    let bucket = this.clientBuckets.get(key);
+    if (!bucket) {
+      bucket = this.createBucket(limit / CLIENT_QUOTA_PERIOD_MINUTES[quota], limit);
+      this.clientBuckets.set(key, bucket);
+    }
+
+    return bucket;
+  }
+
+  /**
+   * Seconds until the bucket has a whole token again
+   */
+  private getRetryAfterSecs(bucket: TokenBucket): number {
+    return Math.max(1, Math.ceil((1 - bucket.tokens) / bucket.refillRate / 1000));
   }
 
   /**
@@ -4,6 +4,7 @@ import {
   IsNumber,
   IsOptional,
   IsBoolean,
+  IsInt,
   ValidateNested,
   IsIn,
   Min,
@@ -14,8 +15,10 @@ import {
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import type { Tool, ToolChoice } from '../../providers/interfaces/tools.interface.js';
+import type { ReasoningEffort } from '../../providers/interfaces/provider.interface.js';
 import { IsValidToolChoice } from '../validators/tool-choice.validator.js';
 import { IsValidContent } from '../validators/content.validator.js';
+import { RoutingOptionsDto } from './routing-options.dto.js';
 
 /**
  * Function parameters DTO (JSON Schema)
@@ -122,6 +125,32 @@ export class ChatMessageDto {
   public tool_call_id?: string;
 }
 
+export class StreamOptionsDto {
+  /**
+   * Send a final chunk with token usage before [DONE]
+   */
+  @IsOptional()
+  @IsBoolean()
+  public include_usage?: boolean;
+}
+
+export class ReasoningOptionsDto {
+  /**
+   * Maximum reasoning tokens (thinking budget)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  public max_tokens?: number;
+
+  /**
+   * Reason internally but don't return reasoning in the response
+   */
+  @IsOptional()
+  @IsBoolean()
+  public exclude?: boolean;
+}
+
 export class ResponseFormatDto {
   @IsString()
   @IsIn(['text', 'json_object', 'json_schema'])
@@ -135,7 +164,7 @@ export class ResponseFormatDto {
 /**
  * Chat completion request DTO
  */
-export class ChatCompletionRequestDto {
+export class ChatCompletionRequestDto extends RoutingOptionsDto {
   // Standard OpenAI fields
   @IsArray()
   @ValidateNested({ each: true })
@@ -176,178 +205,127 @@ export class ChatCompletionRequestDto {
   @IsOptional()
   public stop?: string | string[];
 
+  // Additional OpenAI parameters, forwarded to providers that accept them
   @IsOptional()
-  @ValidateNested()
-  @Type(() => ResponseFormatDto)
-  public response_format?: ResponseFormatDto;
+  @IsInt()
+  public seed?: number;
 
-  // Function calling fields
   @IsOptional()
-  @IsArray()
-  @ValidateNested({ each: true })
-  @Type(() => ToolDto)
-  public tools?: ToolDto[];
-
-  @IsOptional()
-  @IsValidToolChoice()
-  public tool_choice?: ToolChoice;
-
-  // Router-specific fields
-  @IsOptional()
-  public model?: string | string[];
+  @IsObject()
+  public logit_bias?: Record<string, number>;
 
   @IsOptional()
-  public tags?: string | string[];
+  @IsBoolean()
+  public logprobs?: boolean;
 
   @IsOptional()
-  @IsString()
-  @IsIn(['fast', 'reasoning'])
-  public type?: 'fast' | 'reasoning';
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  public top_logprobs?: number;
 
+  /**
+   * Number of choices. Only a single choice is supported
+   */
   @IsOptional()
-  @IsNumber()
+  @IsInt()
   @Min(1)
-  public min_context_size?: number;
+  @Max(1)
+  public n?: number;
 
   @IsOptional()
-  @IsNumber()
-  @Min(1)
-  public min_max_output_tokens?: number;
+  @IsString()
+  public user?: string;
 
-  // Smart routing fields
-  /**
-   * Prefer models with lowest latency
-   * If true, selects model with best avgLatency
-   */
   @IsOptional()
   @IsBoolean()
-  public prefer_fast?: boolean;
+  public parallel_tool_calls?: boolean;
 
-  /**
-   * Minimum success rate for model selection (0-1)
-   * Filters out models with success rate below this threshold
-   */
   @IsOptional()
   @IsNumber()
   @Min(0)
   @Max(1)
-  public min_success_rate?: number;
+  public min_p?: number;
 
-  /**
-   * Selection mode for smart strategy
-   * - weighted_random: Select randomly based on weight (default)
-   * - best: Select model with highest weight
-   * - top_n_random: Select randomly from top N (3) best models
-   */
   @IsOptional()
-  @IsString()
-  @IsIn(['weighted_random', 'best', 'top_n_random'])
-  public selection_mode?: 'weighted_random' | 'best' | 'top_n_random';
-
-  /**
-   * Enable streaming mode (Server-Sent Events)
-   * If true, response will be streamed incrementally
-   */
-  @IsOptional()
-  @IsBoolean()
-  public stream?: boolean;
+  @IsInt()
+  @Min(0)
+  public top_k?: number;
 
-  /**
-   * Image input support required
-   * If true, only select models that support image_url content
-   */
   @IsOptional()
-  @IsBoolean()
-  public supports_image?: boolean;
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  public repetition_penalty?: number;
 
   /**
-   * Video input support required
-   * If true, only select models that support video content
+   * Only select models whose provider accepts all additional parameters of the request.
+   * By default unsupported parameters are dropped for such models
    */
   @IsOptional()
   @IsBoolean()
-  public supports_video?: boolean;
+  public strict_params?: boolean;
 
-  /**
-   * Audio input support required
-   * If true, only select models that support audio content
-   */
   @IsOptional()
-  @IsBoolean()
-  public supports_audio?: boolean;
+  @ValidateNested()
+  @Type(() => ResponseFormatDto)
+  public response_format?: ResponseFormatDto;
 
   /**
-   * File/document input support required
-   * If true, only select models that support file/document content
+   * Return reasoning of reasoning models in `reasoning_content` of the message and stream deltas
    */
   @IsOptional()
   @IsBoolean()
-  public supports_file?: boolean;
+  public include_reasoning?: boolean;
 
   /**
-   * Tools/function calling support required
-   * If true, only select models that support function calling and tool use
+   * Reasoning effort of reasoning models (OpenAI compatible).
+   * `high` makes the selector prefer models of type `reasoning`
    */
   @IsOptional()
-  @IsBoolean()
-  public supports_tools?: boolean;
+  @IsIn(['low', 'medium', 'high'])
+  public reasoning_effort?: ReasoningEffort;
 
-  // Routing behavior overrides (per-request)
   /**
-   * Maximum number of model switches for this request
-   * Overrides config.routing.maxModelSwitches for this request only
+   * Reasoning controls (OpenRouter compatible)
    */
   @IsOptional()
-  @IsNumber()
-  @Min(1)
-  @Max(10)
-  public max_model_switches?: number;
+  @ValidateNested()
+  @Type(() => ReasoningOptionsDto)
+  public reasoning?: ReasoningOptionsDto;
 
-  /**
-   * Maximum retries on the same model for this request
-   * Overrides config.routing.maxSameModelRetries for this request only
-   */
+  // Function calling fields
   @IsOptional()
-  @IsNumber()
-  @Min(0)
-  @Max(10)
-  public max_same_model_retries?: number;
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ToolDto)
+  public tools?: ToolDto[];
 
-  /**
-   * Delay between retries in milliseconds for this request
-   * Overrides config.routing.retryDelay for this request only
-   */
   @IsOptional()
-  @IsNumber()
-  @Min(0)
-  @Max(30000)
-  public retry_delay?: number;
+  @IsValidToolChoice()
+  public tool_choice?: ToolChoice;
 
   /**
-   * Request timeout in seconds for this request
-   * Overrides config.routing.timeoutSecs and provider configuration
+   * Enable streaming mode (Server-Sent Events)
+   * If true, response will be streamed incrementally
    */
   @IsOptional()
-  @IsNumber()
-  @Min(1)
-  @Max(600)
-  public timeout_secs?: number;
+  @IsBoolean()
+  public stream?: boolean;
 
   /**
-   * Fallback provider for this request
-   * Overrides config.routing.fallback.provider if fallback is enabled
-   * Applied only if routing.fallback.enabled is true or undefined
+   * Streaming options (OpenAI compatible)
    */
   @IsOptional()
-  @IsString()
-  public fallback_provider?: string;
+  @ValidateNested()
+  @Type(() => StreamOptionsDto)
+  public stream_options?: StreamOptionsDto;
 
   /**
-   * Fallback model for this request
-   * Overrides config.routing.fallback.model if fallback is enabled
-   * Applied only if routing.fallback.enabled is true or undefined
+   * Continue the stream on the next model if the current one fails after chunks were sent.
+   * The next model receives the partial assistant message and continues it.
    */
   @IsOptional()
-  @IsString()
-  public fallback_model?: string;
+  @IsBoolean()
+  public stream_resume?: boolean;
 }
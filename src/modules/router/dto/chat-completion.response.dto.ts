@@ -1,4 +1,11 @@
 import type { ToolCall } from '../../providers/interfaces/tools.interface.js';
+import type { ChatCompletionLogprobs } from '../../providers/interfaces/provider.interface.js';
+import type { ModelType } from '../../models/interfaces/model.interface.js';
+
+/**
+ * Which request of a hedged pair returned the response
+ */
+export type HedgeWinner = 'primary' | 'hedge';
 
 /**
  * Router metadata included in responses
@@ -33,6 +40,21 @@ export interface RouterMetadata {
    * Parsed JSON data (only present when response_format requests JSON and content is valid JSON)
    */
   data?: unknown;
+
+  /**
+   * Name of the authenticated client (only present when clients are configured)
+   */
+  client?: string;
+
+  /**
+   * Remaining total request budget in milliseconds (only present when a total timeout is set)
+   */
+  budget_remaining_ms?: number;
+
+  /**
+   * Which request won when a hedge request was sent (only present with hedge_after_ms)
+   */
+  hedge_winner?: HedgeWinner;
 }
 
 /**
@@ -66,6 +88,10 @@ export interface RouterErrorInfo {
 export interface ChatCompletionChoice {
   index: number;
   message: ChatCompletionMessage;
+  /**
+   * Log probabilities of output tokens (only present with logprobs)
+   */
+  logprobs?: ChatCompletionLogprobs;
   finish_reason: 'stop' | 'length' | 'content_filter' | 'tool_calls';
 }
 
@@ -76,6 +102,10 @@ export interface ChatCompletionMessage {
   role: 'assistant';
   content: string | null;
   tool_calls?: ToolCall[];
+  /**
+   * Reasoning of reasoning models (only present with include_reasoning)
+   */
+  reasoning_content?: string;
 }
 
 /**
@@ -128,6 +158,22 @@ export interface ChatCompletionResponseDto {
   _router: RouterMetadata;
 }
 
+/**
+ * Error event sent over SSE when a streaming request fails
+ */
+export interface StreamErrorEventDto {
+  error: {
+    message: string;
+    type: 'invalid_request_error' | 'rate_limit_error' | 'server_error';
+    code?: string | number;
+
+    /**
+     * Errors of every failed attempt (only present when all models failed)
+     */
+    errors?: RouterErrorInfo[];
+  };
+}
+
 /**
  * Model info in models list response
  */
@@ -135,7 +181,7 @@ export interface ModelInfo {
   name: string;
   provider: string;
   model: string;
-  type: 'fast' | 'reasoning';
+  type: ModelType;
   contextSize: number;
   maxOutputTokens: number;
   tags: string[];
@@ -147,11 +193,45 @@ export interface ModelInfo {
   supportsVideo?: boolean;
   supportsAudio?: boolean;
   supportsFile?: boolean;
+  supportsTools?: boolean;
+  dimensions?: number;
 }
 
 /**
- * Models list response DTO
+ * Detailed models list response DTO
  */
 export interface ModelsResponseDto {
   models: ModelInfo[];
 }
+
+/**
+ * Model object in OpenAI format
+ */
+export interface OpenAiModelDto {
+  /**
+   * Value accepted in the `model` request field
+   */
+  id: string;
+  object: 'model';
+
+  /**
+   * Unix timestamp (seconds). The router does not track model release dates,
+   * so the service start time is reported.
+   */
+  created: number;
+  owned_by: string;
+}
+
+/**
+ * Models list response DTO (OpenAI compatible)
+ */
+export interface OpenAiModelsResponseDto {
+  object: 'list';
+  data: OpenAiModelDto[];
+}
+
+/**
+ * Single model response DTO: OpenAI model object with router capabilities.
+ * Capabilities are absent for virtual ids (e.g. `auto`).
+ */
+export type ModelResponseDto = OpenAiModelDto & Partial<ModelInfo>;
@@ -0,0 +1,97 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsBoolean,
+  IsInt,
+  ValidateNested,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { IsValidPrompt } from '../validators/prompt.validator.js';
+import { StreamOptionsDto } from './chat-completion.request.dto.js';
+import { RoutingOptionsDto } from './routing-options.dto.js';
+
+/**
+ * Text completion request DTO (legacy OpenAI completions API).
+ * Routed as a chat completion with a single user message.
+ */
+export class CompletionRequestDto extends RoutingOptionsDto {
+  // Standard OpenAI fields
+  @IsValidPrompt()
+  public prompt!: string | string[];
+
+  /**
+   * Text that follows the completion (fill-in-the-middle)
+   */
+  @IsOptional()
+  @IsString()
+  public suffix?: string;
+
+  /**
+   * Return the prompt followed by the completion
+   */
+  @IsOptional()
+  @IsBoolean()
+  public echo?: boolean;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(10000000)
+  public max_tokens?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  public temperature?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  public top_p?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-2)
+  @Max(2)
+  public frequency_penalty?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-2)
+  @Max(2)
+  public presence_penalty?: number;
+
+  @IsOptional()
+  public stop?: string | string[];
+
+  @IsOptional()
+  @IsInt()
+  public seed?: number;
+
+  @IsOptional()
+  @IsString()
+  public user?: string;
+
+  /**
+   * Number of choices. Only a single choice is supported
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1)
+  public n?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  public stream?: boolean;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => StreamOptionsDto)
+  public stream_options?: StreamOptionsDto;
+}
@@ -0,0 +1,40 @@
+import type {
+  ChatCompletionChoice,
+  ChatCompletionUsage,
+  RouterMetadata,
+} from './chat-completion.response.dto.js';
+
+/**
+ * Text completion choice
+ */
+export interface CompletionChoice {
+  index: number;
+  text: string;
+
+  /**
+   * Always null: token log probabilities are not supported for text completions
+   */
+  logprobs: null;
+
+  /**
+   * Null in stream chunks until the last one
+   */
+  finish_reason: ChatCompletionChoice['finish_reason'] | null;
+}
+
+/**
+ * Text completion response DTO (legacy OpenAI completions API)
+ */
+export interface CompletionResponseDto {
+  id: string;
+
+  /**
+   * Object type (always 'text_completion', also for stream chunks)
+   */
+  object: 'text_completion';
+  created: number;
+  model: string;
+  choices: CompletionChoice[];
+  usage: ChatCompletionUsage;
+  _router: RouterMetadata;
+}
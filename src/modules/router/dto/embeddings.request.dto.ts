@@ -0,0 +1,32 @@
+import { IsString, IsOptional, IsInt, IsIn, Min } from 'class-validator';
+import { IsValidEmbeddingsInput } from '../validators/embeddings-input.validator.js';
+import { RoutingOptionsDto } from './routing-options.dto.js';
+
+/**
+ * Embeddings request DTO (OpenAI compatible).
+ * Only models of type `embedding` are selected; `type` of routing options is ignored.
+ */
+export class EmbeddingsRequestDto extends RoutingOptionsDto {
+  // Standard OpenAI fields
+  @IsValidEmbeddingsInput()
+  public input!: string | string[];
+
+  /**
+   * Vectors as arrays of floats (default) or base64-encoded little-endian float32
+   */
+  @IsOptional()
+  @IsIn(['float', 'base64'])
+  public encoding_format?: 'float' | 'base64';
+
+  /**
+   * Number of dimensions of the output vectors (models supporting shortened embeddings)
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  public dimensions?: number;
+
+  @IsOptional()
+  @IsString()
+  public user?: string;
+}
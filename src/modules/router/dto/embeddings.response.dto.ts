@@ -0,0 +1,28 @@
+import type { RouterMetadata } from './chat-completion.response.dto.js';
+
+/**
+ * Embedding vector of a single input text
+ */
+export interface EmbeddingDto {
+  object: 'embedding';
+  index: number;
+
+  /**
+   * Array of floats, or base64 string with encoding_format: 'base64'
+   */
+  embedding: number[] | string;
+}
+
+/**
+ * Embeddings response DTO (OpenAI compatible)
+ */
+export interface EmbeddingsResponseDto {
+  object: 'list';
+  data: EmbeddingDto[];
+  model: string;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+  _router: RouterMetadata;
+}
@@ -0,0 +1,198 @@
+import {
+  IsArray,
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsObject,
+  ValidateNested,
+  ValidateIf,
+  ArrayMinSize,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  IsValidAnthropicContent,
+  IsValidAnthropicSystem,
+} from '../validators/anthropic-content.validator.js';
+import { RoutingOptionsDto } from './routing-options.dto.js';
+
+/**
+ * Image source of an Anthropic image block
+ */
+export type AnthropicImageSource =
+  | { type: 'base64'; media_type: string; data: string }
+  | { type: 'url'; url: string };
+
+export interface AnthropicTextBlock {
+  type: 'text';
+  text: string;
+}
+
+export interface AnthropicImageBlock {
+  type: 'image';
+  source: AnthropicImageSource;
+}
+
+/**
+ * Content block of an Anthropic request message
+ */
+export type AnthropicRequestBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | {
+      type: 'tool_result';
+      tool_use_id: string;
+      content?: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+      is_error?: boolean;
+    }
+  | { type: 'thinking' | 'redacted_thinking' };
+
+export class AnthropicMessageDto {
+  @IsString()
+  @IsIn(['user', 'assistant'])
+  public role!: 'user' | 'assistant';
+
+  @IsValidAnthropicContent()
+  public content!: string | AnthropicRequestBlock[];
+}
+
+/**
+ * Client tool DTO. Server tools (web search, code execution, etc.) are not supported
+ */
+export class AnthropicToolDto {
+  @IsOptional()
+  @IsIn(['custom'])
+  public type?: 'custom';
+
+  @IsString()
+  public name!: string;
+
+  @IsOptional()
+  @IsString()
+  public description?: string;
+
+  /**
+   * JSON Schema of the tool input, forwarded to the model as function parameters
+   */
+  @IsObject()
+  public input_schema!: Record<string, unknown>;
+
+  /**
+   * Accepted for compatibility, prompt caching is not supported
+   */
+  @IsOptional()
+  @IsObject()
+  public cache_control?: Record<string, unknown>;
+}
+
+/**
+ * Tool choice DTO. `any` (force some tool call) is routed as `required`
+ */
+export class AnthropicToolChoiceDto {
+  @IsString()
+  @IsIn(['auto', 'any', 'none', 'tool'])
+  public type!: 'auto' | 'any' | 'none' | 'tool';
+
+  @ValidateIf((choice: AnthropicToolChoiceDto) => choice.type === 'tool')
+  @IsString()
+  public name?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  public disable_parallel_tool_use?: boolean;
+}
+
+/**
+ * Extended thinking options, the budget is forwarded as reasoning max tokens
+ */
+export class AnthropicThinkingDto {
+  @IsString()
+  @IsIn(['enabled', 'disabled'])
+  public type!: 'enabled' | 'disabled';
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  public budget_tokens?: number;
+}
+
+export class AnthropicMetadataDto {
+  @IsOptional()
+  @IsString()
+  public user_id?: string;
+}
+
+/**
+ * Anthropic Messages API request DTO.
+ * Routed as a chat completion, so any client built on the Anthropic SDK can use free models.
+ */
+export class MessagesRequestDto extends RoutingOptionsDto {
+  // Standard Anthropic fields
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => AnthropicMessageDto)
+  public messages!: AnthropicMessageDto[];
+
+  @IsOptional()
+  @IsValidAnthropicSystem()
+  public system?: string | AnthropicTextBlock[];
+
+  @IsNumber()
+  @Min(1)
+  @Max(10000000)
+  public max_tokens!: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  public stop_sequences?: string[];
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  public temperature?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  public top_p?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  public top_k?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AnthropicMetadataDto)
+  public metadata?: AnthropicMetadataDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AnthropicThinkingDto)
+  public thinking?: AnthropicThinkingDto;
+
+  // Function calling fields
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AnthropicToolDto)
+  public tools?: AnthropicToolDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AnthropicToolChoiceDto)
+  public tool_choice?: AnthropicToolChoiceDto;
+
+  @IsOptional()
+  @IsBoolean()
+  public stream?: boolean;
+}
@@ -0,0 +1,46 @@
+import type { RouterMetadata } from './chat-completion.response.dto.js';
+
+/**
+ * Content block of an Anthropic response message
+ */
+export type AnthropicResponseBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown };
+
+/**
+ * Anthropic stop reason. Stop sequences are reported as `end_turn`,
+ * since chat completions don't tell which sequence matched
+ */
+export type AnthropicStopReason = 'end_turn' | 'max_tokens' | 'tool_use' | 'refusal';
+
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/**
+ * Anthropic Messages API response DTO
+ */
+export interface MessagesResponseDto {
+  id: string;
+
+  /**
+   * Object type (always 'message')
+   */
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: AnthropicResponseBlock[];
+
+  /**
+   * Null in the message_start stream event
+   */
+  stop_reason: AnthropicStopReason | null;
+
+  /**
+   * Always null, see AnthropicStopReason
+   */
+  stop_sequence: null;
+  usage: AnthropicUsage;
+  _router?: RouterMetadata;
+}
@@ -0,0 +1,177 @@
+import {
+  IsArray,
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsBoolean,
+  IsIn,
+  IsObject,
+  ValidateNested,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import type { ReasoningEffort } from '../../providers/interfaces/provider.interface.js';
+import { IsValidResponsesInput } from '../validators/responses-input.validator.js';
+import { IsValidResponsesToolChoice } from '../validators/responses-tool-choice.validator.js';
+import { FunctionParametersDto } from './chat-completion.request.dto.js';
+import { RoutingOptionsDto } from './routing-options.dto.js';
+
+/**
+ * Content part of a Responses API message item
+ */
+export interface ResponsesContentPart {
+  type: 'input_text' | 'output_text' | 'input_image';
+  text?: string;
+  image_url?: string;
+  detail?: 'auto' | 'high' | 'low';
+}
+
+/**
+ * Responses API input item (message, function call of a previous turn or its output)
+ */
+export type ResponsesInputItem =
+  | {
+      type?: 'message';
+      role: 'user' | 'assistant' | 'system' | 'developer';
+      content: string | ResponsesContentPart[];
+    }
+  | { type: 'function_call'; call_id: string; name: string; arguments: string }
+  | { type: 'function_call_output'; call_id: string; output: string }
+  | { type: 'reasoning' };
+
+/**
+ * Responses API tool choice (function name at the top level)
+ */
+export type ResponsesToolChoice = 'auto' | 'none' | { type: 'function'; name: string };
+
+/**
+ * Function tool DTO (Responses API keeps function fields at the top level)
+ */
+export class ResponsesFunctionToolDto {
+  @IsString()
+  @IsIn(['function'])
+  public type!: 'function';
+
+  @IsString()
+  public name!: string;
+
+  @IsOptional()
+  @IsString()
+  public description?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FunctionParametersDto)
+  public parameters?: FunctionParametersDto;
+
+  /**
+   * Accepted for compatibility, arguments are not checked against the schema
+   */
+  @IsOptional()
+  @IsBoolean()
+  public strict?: boolean;
+}
+
+export class ResponsesTextFormatDto {
+  @IsString()
+  @IsIn(['text', 'json_object', 'json_schema'])
+  public type!: 'text' | 'json_object' | 'json_schema';
+
+  @IsOptional()
+  @IsString()
+  public name?: string;
+
+  @IsOptional()
+  @IsString()
+  public description?: string;
+
+  @IsOptional()
+  @IsObject()
+  public schema?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsBoolean()
+  public strict?: boolean;
+}
+
+export class ResponsesTextOptionsDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ResponsesTextFormatDto)
+  public format?: ResponsesTextFormatDto;
+}
+
+export class ResponsesReasoningDto {
+  @IsOptional()
+  @IsIn(['low', 'medium', 'high'])
+  public effort?: ReasoningEffort;
+}
+
+/**
+ * Responses API request DTO (OpenAI compatible).
+ * Stateless: converted into a chat completion request, previous_response_id is not supported.
+ */
+export class ResponsesRequestDto extends RoutingOptionsDto {
+  // Standard OpenAI fields
+  @IsValidResponsesInput()
+  public input!: string | ResponsesInputItem[];
+
+  /**
+   * System message placed before the input
+   */
+  @IsOptional()
+  @IsString()
+  public instructions?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(10000000)
+  public max_output_tokens?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  public temperature?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  public top_p?: number;
+
+  @IsOptional()
+  @IsString()
+  public user?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  public parallel_tool_calls?: boolean;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ResponsesTextOptionsDto)
+  public text?: ResponsesTextOptionsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ResponsesReasoningDto)
+  public reasoning?: ResponsesReasoningDto;
+
+  // Function calling fields
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ResponsesFunctionToolDto)
+  public tools?: ResponsesFunctionToolDto[];
+
+  @IsOptional()
+  @IsValidResponsesToolChoice()
+  public tool_choice?: ResponsesToolChoice;
+
+  @IsOptional()
+  @IsBoolean()
+  public stream?: boolean;
+}
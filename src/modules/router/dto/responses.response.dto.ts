@@ -0,0 +1,77 @@
+import type { RouterMetadata } from './chat-completion.response.dto.js';
+
+/**
+ * Text content of an output message
+ */
+export interface ResponsesOutputText {
+  type: 'output_text';
+  text: string;
+
+  /**
+   * Always empty: citations are not supported
+   */
+  annotations: [];
+}
+
+/**
+ * Assistant message output item
+ */
+export interface ResponsesMessageItem {
+  type: 'message';
+  id: string;
+  status: 'in_progress' | 'completed';
+  role: 'assistant';
+  content: ResponsesOutputText[];
+}
+
+/**
+ * Function call output item. The client runs the function and sends
+ * a function_call_output item with the same call_id in the next request.
+ */
+export interface ResponsesFunctionCallItem {
+  type: 'function_call';
+  id: string;
+  call_id: string;
+  name: string;
+
+  /**
+   * Function arguments as JSON string
+   */
+  arguments: string;
+  status: 'in_progress' | 'completed';
+}
+
+export type ResponsesOutputItem = ResponsesMessageItem | ResponsesFunctionCallItem;
+
+export interface ResponsesUsage {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Responses API response DTO (OpenAI compatible)
+ */
+export interface ResponsesResponseDto {
+  id: string;
+
+  /**
+   * Object type (always 'response')
+   */
+  object: 'response';
+  created_at: number;
+
+  /**
+   * 'incomplete' when the output was cut by max_output_tokens or a content filter
+   */
+  status: 'in_progress' | 'completed' | 'incomplete';
+  incomplete_details: { reason: 'max_output_tokens' | 'content_filter' } | null;
+  model: string;
+  output: ResponsesOutputItem[];
+
+  /**
+   * Null in stream events until the response is completed
+   */
+  usage: ResponsesUsage | null;
+  _router?: RouterMetadata;
+}
@@ -0,0 +1,198 @@
+import { IsString, IsNumber, IsOptional, IsBoolean, IsIn, Min, Max } from 'class-validator';
+import type { RetryBackoffStrategy } from '../../../config/router-config.interface.js';
+
+/**
+ * Router extension fields accepted by every completion endpoint:
+ * model selection, smart routing, capability filters and routing overrides
+ */
+export class RoutingOptionsDto {
+  // Model selection fields
+  @IsOptional()
+  public model?: string | string[];
+
+  @IsOptional()
+  public tags?: string | string[];
+
+  @IsOptional()
+  @IsString()
+  @IsIn(['fast', 'reasoning'])
+  public type?: 'fast' | 'reasoning';
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  public min_context_size?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  public min_max_output_tokens?: number;
+
+  // Smart routing fields
+  /**
+   * Prefer models with lowest latency
+   * If true, selects model with best avgLatency
+   */
+  @IsOptional()
+  @IsBoolean()
+  public prefer_fast?: boolean;
+
+  /**
+   * Minimum success rate for model selection (0-1)
+   * Filters out models with success rate below this threshold
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  public min_success_rate?: number;
+
+  /**
+   * Selection mode for smart strategy
+   * - weighted_random: Select randomly based on weight (default)
+   * - best: Select model with highest weight
+   * - top_n_random: Select randomly from top N (3) best models
+   */
+  @IsOptional()
+  @IsString()
+  @IsIn(['weighted_random', 'best', 'top_n_random'])
+  public selection_mode?: 'weighted_random' | 'best' | 'top_n_random';
+
+  /**
+   * Image input support required
+   * If true, only select models that support image_url content
+   */
+  @IsOptional()
+  @IsBoolean()
+  public supports_image?: boolean;
+
+  /**
+   * Video input support required
+   * If true, only select models that support video content
+   */
+  @IsOptional()
+  @IsBoolean()
+  public supports_video?: boolean;
+
+  /**
+   * Audio input support required
+   * If true, only select models that support audio content
+   */
+  @IsOptional()
+  @IsBoolean()
+  public supports_audio?: boolean;
+
+  /**
+   * File/document input support required
+   * If true, only select models that support file/document content
+   */
+  @IsOptional()
+  @IsBoolean()
+  public supports_file?: boolean;
+
+  /**
+   * Tools/function calling support required
+   * If true, only select models that support function calling and tool use
+   */
+  @IsOptional()
+  @IsBoolean()
+  public supports_tools?: boolean;
+
+  // Routing behavior overrides (per-request)
+  /**
+   * Maximum number of model switches for this request
+   * Overrides config.routing.maxModelSwitches for this request only
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(10)
+  public max_model_switches?: number;
+
+  /**
+   * Maximum retries on the same model for this request
+   * Overrides config.routing.maxSameModelRetries for this request only
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(10)
+  public max_same_model_retries?: number;
+
+  /**
+   * Delay between retries in milliseconds for this request
+   * Overrides config.routing.retryDelay for this request only
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(30000)
+  public retry_delay?: number;
+
+  /**
+   * Backoff strategy of retries on the same model for this request
+   * Overrides config.routing.retryBackoff for this request only
+   */
+  @IsOptional()
+  @IsIn(['fixed', 'exponential', 'decorrelated-jitter'])
+  public retry_backoff?: RetryBackoffStrategy;
+
+  /**
+   * Upper bound of a backoff delay in milliseconds for this request
+   * Overrides config.routing.maxRetryDelay for this request only
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(300000)
+  public max_retry_delay?: number;
+
+  /**
+   * Request timeout in seconds for this request
+   * Overrides config.routing.timeoutSecs and provider configuration
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(600)
+  public timeout_secs?: number;
+
+  /**
+   * Total deadline in seconds across all retries, model switches and fallback
+   * Overrides config.routing.totalTimeoutSecs for this request only
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(3600)
+  public total_timeout_secs?: number;
+
+  /**
+   * Send the same request to the next selected model if the first one has not responded
+   * (or has not sent the first stream chunk) within this time in milliseconds.
+   * The first successful response wins, the other request is aborted.
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(600000)
+  public hedge_after_ms?: number;
+
+  /**
+   * Fallback provider for this request
+   * Overrides config.routing.fallback.provider if fallback is enabled
+   * Applied only if routing.fallback.enabled is true or undefined
+   */
+  @IsOptional()
+  @IsString()
+  public fallback_provider?: string;
+
+  /**
+   * Fallback model for this request
+   * Overrides config.routing.fallback.model if fallback is enabled
+   * Applied only if routing.fallback.enabled is true or undefined
+   */
+  @IsOptional()
+  @IsString()
+  public fallback_model?: string;
+}
@@ -0,0 +1,24 @@
+import type { ChatCompletionStreamChunk } from '../../providers/interfaces/provider.interface.js';
+import type { StreamErrorEventDto } from '../dto/chat-completion.response.dto.js';
+
+/**
+ * Converts router stream chunks into the SSE events of an API format
+ * (chat completions, text completions, etc.). Created per request, so it may keep state.
+ */
+export interface SseFormatter {
+  /**
+   * SSE payload for a stream chunk (empty string to send nothing).
+   * Upstream comment chunks are written by the controller and never reach the formatter.
+   */
+  chunk(chunk: ChatCompletionStreamChunk): string;
+
+  /**
+   * SSE payload sent after the last chunk
+   */
+  done(): string;
+
+  /**
+   * SSE payload sent when the stream fails
+   */
+  error(event: StreamErrorEventDto): string;
+}
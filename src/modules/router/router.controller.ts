@@ -4,23 +4,73 @@ import {
   Get,
   Body,
   HttpCode,
+  HttpException,
   HttpStatus,
   Logger,
   Inject,
+  NotFoundException,
+  Param,
   Req,
   Res,
 } from '@nestjs/common';
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { RouterService } from './router.service.js';
 import { ModelsService } from '../models/models.service.js';
+import { RateLimiterService } from '../rate-limiter/rate-limiter.service.js';
 import { ChatCompletionRequestDto } from './dto/chat-completion.request.dto.js';
+import { CompletionRequestDto } from './dto/completion.request.dto.js';
+import type { CompletionResponseDto } from './dto/completion.response.dto.js';
+import { EmbeddingsRequestDto } from './dto/embeddings.request.dto.js';
+import type { EmbeddingsResponseDto } from './dto/embeddings.response.dto.js';
+import { ResponsesRequestDto } from './dto/responses.request.dto.js';
+import type { ResponsesResponseDto } from './dto/responses.response.dto.js';
+import { MessagesRequestDto } from './dto/messages.request.dto.js';
+import type { MessagesResponseDto } from './dto/messages.response.dto.js';
+import { CompletionConverterService } from './services/completion-converter.service.js';
+import { ResponsesConverterService } from './services/responses-converter.service.js';
+import { MessagesConverterService } from './services/messages-converter.service.js';
 import { ROUTER_CONFIG } from '../../config/router-config.provider.js';
-import type { RouterConfig } from '../../config/router-config.interface.js';
+import type { ClientConfig, RouterConfig } from '../../config/router-config.interface.js';
+import { CurrentClient } from '../auth/auth.decorators.js';
+import {
+  AllModelsFailedError,
+  ClientQuotaExceededError,
+  DeadlineExceededError,
+} from '../../common/errors/router.errors.js';
+import { ErrorExtractor } from '../../common/utils/error-extractor.util.js';
+import type { SseFormatter } from './interfaces/sse-formatter.interface.js';
+import {
+  parseModelInput,
+  parseTagAlias,
+  TAG_ALIAS_PREFIX,
+} from '../selector/utils/model-parser.js';
+import type { ModelDefinition } from '../models/interfaces/model.interface.js';
+import { DEFAULT_SSE_HEARTBEAT_SECS } from '../../common/constants/app.constants.js';
 import type {
   ChatCompletionResponseDto,
+  ModelInfo,
+  ModelResponseDto,
   ModelsResponseDto,
+  OpenAiModelDto,
+  OpenAiModelsResponseDto,
+  StreamErrorEventDto,
 } from './dto/chat-completion.response.dto.js';
 
+/**
+ * Error types allowed in SSE error events
+ */
+const STREAM_ERROR_TYPES = ['invalid_request_error', 'rate_limit_error', 'server_error'] as const;
+
+/**
+ * Virtual model id selecting a model with Smart Strategy
+ */
+const AUTO_MODEL_ID = 'auto';
+
+/**
+ * `owned_by` of virtual model ids
+ */
+const ROUTER_OWNER = 'router';
+
 /**
  * Controller for router endpoints
  */
@@ -28,9 +78,18 @@ import type {
 export class RouterController {
   private readonly logger = new Logger(RouterController.name);
 
+  /**
+   * Reported as `created` of every model in OpenAI format
+   */
+  private readonly startedAt = Math.floor(Date.now() / 1000);
+
   constructor(
     private readonly routerService: RouterService,
     private readonly modelsService: ModelsService,
+    private readonly rateLimiterService: RateLimiterService,
+    private readonly completionConverter: CompletionConverterService,
+    private readonly responsesConverter: ResponsesConverterService,
+    private readonly messagesConverter: MessagesConverterService,
     @Inject(ROUTER_CONFIG) private readonly config: RouterConfig,
   ) {}
 
@@ -45,7 +104,134 @@ export class RouterController {
     @Body() request: ChatCompletionRequestDto,
     @Req() req: FastifyRequest,
     @Res() res: FastifyReply,
+    @CurrentClient() client?: ClientConfig,
   ): Promise<ChatCompletionResponseDto | void> {
+    return this.handleCompletion(request, req, res, client, {
+      toResponse: response => response,
+      createSseFormatter: () => this.createChatSseFormatter(),
+    });
+  }
+
+  /**
+   * Text completion endpoint (legacy OpenAI API)
+   * POST /api/v1/completions
+   * The prompt is routed as a chat completion with a single user message
+   */
+  @Post('completions')
+  @HttpCode(HttpStatus.OK)
+  public async completion(
+    @Body() request: CompletionRequestDto,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+    @CurrentClient() client?: ClientConfig,
+  ): Promise<CompletionResponseDto | void> {
+    const chatRequest = this.completionConverter.toChatRequest(request);
+
+    return this.handleCompletion(chatRequest, req, res, client, {
+      toResponse: response => this.completionConverter.toCompletionResponse(response, request),
+      createSseFormatter: () => this.completionConverter.createSseFormatter(request),
+    });
+  }
+
+  /**
+   * Responses endpoint (OpenAI Responses API)
+   * POST /api/v1/responses
+   * Input items are routed as a chat completion, the result is returned as output items
+   */
+  @Post('responses')
+  @HttpCode(HttpStatus.OK)
+  public async responses(
+    @Body() request: ResponsesRequestDto,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+    @CurrentClient() client?: ClientConfig,
+  ): Promise<ResponsesResponseDto | void> {
+    const chatRequest = this.responsesConverter.toChatRequest(request);
+
+    return this.handleCompletion(chatRequest, req, res, client, {
+      toResponse: response => this.responsesConverter.toResponsesResponse(response),
+      createSseFormatter: () => this.responsesConverter.createSseFormatter(),
+    });
+  }
+
+  /**
+   * Messages endpoint (Anthropic Messages API)
+   * POST /api/v1/messages
+   * Lets Anthropic SDK clients use the router with base URL `<host>/api`
+   */
+  @Post('messages')
+  @HttpCode(HttpStatus.OK)
+  public async messages(
+    @Body() request: MessagesRequestDto,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+    @CurrentClient() client?: ClientConfig,
+  ): Promise<MessagesResponseDto | void> {
+    const chatRequest = this.messagesConverter.toChatRequest(request);
+
+    return this.handleCompletion(chatRequest, req, res, client, {
+      toResponse: response => this.messagesConverter.toMessagesResponse(response),
+      createSseFormatter: () => this.messagesConverter.createSseFormatter(),
+    });
+  }
+
+  /**
+   * Embeddings endpoint (OpenAI compatible)
+   * POST /api/v1/embeddings
+   */
+  @Post('embeddings')
+  @HttpCode(HttpStatus.OK)
+  public async embeddings(
+    @Body() request: EmbeddingsRequestDto,
+    @Res({ passthrough: true }) res: FastifyReply,
+    @CurrentClient() client?: ClientConfig,
+  ): Promise<EmbeddingsResponseDto> {
+    if (client) {
+      const quota = this.rateLimiterService.checkClient(client);
+      if (!quota.allowed) {
+        throw new ClientQuotaExceededError(client.name, quota.limit, quota.retryAfterSecs);
+      }
+    }
+
+    // Response is closed before it was sent only when the client disconnected
+    const abortController = new AbortController();
+    const closeListener = () => {
+      if (!res.raw.writableFinished) {
+        this.logger.debug('Embeddings request cancelled: client disconnected');
+        abortController.abort();
+      }
+    };
+    res.raw.on('close', closeListener);
+
+    try {
+      return await this.routerService.embeddings(request, abortController.signal, client);
+    } finally {
+      res.raw.off('close', closeListener);
+    }
+  }
+
+  /**
+   * Route a chat completion request and send the response in the format of the calling endpoint.
+   * Handles client disconnects, stream timeouts, backpressure and SSE heartbeats.
+   */
+  private async handleCompletion<T>(
+    request: ChatCompletionRequestDto,
+    req: FastifyRequest,
+    res: FastifyReply,
+    client: ClientConfig | undefined,
+    format: {
+      toResponse: (response: ChatCompletionResponseDto) => T;
+      createSseFormatter: () => SseFormatter;
+    },
+  ): Promise<T | void> {
+    // Checked before streaming starts so the 429 is sent as a regular JSON response
+    if (client) {
+      const quota = this.rateLimiterService.checkClient(client);
+      if (!quota.allowed) {
+        throw new ClientQuotaExceededError(client.name, quota.limit, quota.retryAfterSecs);
+      }
+    }
+
     const abortController = new AbortController();
     const signal = abortController.signal;
 
@@ -86,6 +272,14 @@ export class RouterController {
           res.raw.socket.setTimeout(timeoutMs, onTimeout);
         }
 
+        // Every socket write (including keep-alive comments) resets the socket timeouts,
+        // so upstream inactivity is tracked by a timer that only provider chunks reset
+        let upstreamTimer: ReturnType<typeof setTimeout> | undefined;
+        const resetUpstreamTimeout = () => {
+          clearTimeout(upstreamTimer);
+          upstreamTimer = setTimeout(onTimeout, timeoutMs);
+        };
+
         // Set SSE headers
         res.raw.setHeader('Content-Type', 'text/event-stream');
         res.raw.setHeader('Cache-Control', 'no-cache');
@@ -117,45 +311,69 @@ export class RouterController {
           });
         };
 
+        // Keep-alive comments stop reverse proxies from dropping the connection
+        // while waiting for the next chunk (e.g. reasoning models before the first token)
+        const heartbeatMs =
+          (this.config.routing.sseHeartbeatSecs ?? DEFAULT_SSE_HEARTBEAT_SECS) * 1000;
+        let heartbeatTimer: ReturnType<typeof setTimeout> | undefined;
+
+        const scheduleHeartbeat = () => {
+          clearTimeout(heartbeatTimer);
+          if (heartbeatMs <= 0) {
+            return;
+          }
+
+          heartbeatTimer = setTimeout(() => {
+            if (
+              !signal.aborted &&
+              !res.raw.writableEnded &&
+              !res.raw.destroyed &&
+              !res.raw.writableNeedDrain
+            ) {
+              res.raw.write(': keep-alive\n\n');
+            }
+            scheduleHeartbeat();
+          }, heartbeatMs);
+        };
+
         const writeSse = async (payload: string): Promise<void> => {
           if (signal.aborted || res.raw.writableEnded || res.raw.destroyed) {
             return;
           }
 
           const ok = res.raw.write(payload);
+          scheduleHeartbeat();
           if (!ok) {
             await waitForDrain();
           }
         };
 
         // Stream chunks
+        const formatter = format.createSseFormatter();
         try {
-          for await (const chunk of this.routerService.chatCompletionStream(request, signal)) {
-            // Format as SSE event
-            const sseData: Record<string, unknown> = {
-              id: chunk.id,
-              object: 'chat.completion.chunk',
-              created: Math.floor(Date.now() / 1000),
-              model: chunk.model,
-              choices: [
-                {
-                  index: 0,
-                  delta: chunk.delta,
-                  finish_reason: chunk.finishReason ?? null,
-                },
-              ],
-            };
+          scheduleHeartbeat();
+          resetUpstreamTimeout();
+
+          for await (const chunk of this.routerService.chatCompletionStream(
+            request,
+            signal,
+            client,
+          )) {
+            resetUpstreamTimeout();
 
-            // Include router metadata if present (usually in first chunk)
-            if (chunk._router) {
-              sseData._router = chunk._router;
+            // Upstream SSE comment
+            if (chunk.comment !== undefined) {
+              await writeSse(`: ${chunk.comment}\n\n`);
+              continue;
             }
 
-            await writeSse(`data: ${JSON.stringify(sseData)}\n\n`);
+            const payload = formatter.chunk(chunk);
+            if (payload) {
+              await writeSse(payload);
+            }
           }
 
-          // Send [DONE] message
-          await writeSse('data: [DONE]\n\n');
+          await writeSse(formatter.done());
           if (!res.raw.writableEnded) {
             res.raw.end();
           }
@@ -165,23 +383,26 @@ export class RouterController {
             return;
           } else {
             this.logger.error(
-              `Streaming chat completion failed: ${error instanceof Error ? error.message : String(error)}`,
+              `Streaming completion failed: ${error instanceof Error ? error.message : String(error)}`,
             );
           }
           // Try to send error as SSE if stream not ended
           if (!res.raw.writableEnded) {
-            await writeSse(
-              `data: ${JSON.stringify({ error: { message: error instanceof Error ? error.message : 'Unknown error' } })}\n\n`,
-            );
+            await writeSse(formatter.error(this.buildStreamErrorEvent(error)));
             if (!res.raw.writableEnded) {
               res.raw.end();
             }
           }
           throw error;
+        } finally {
+          clearTimeout(heartbeatTimer);
+          clearTimeout(upstreamTimer);
         }
       } else {
         // Non-streaming mode
-        const response = await this.routerService.chatCompletion(request, signal);
+        const response = format.toResponse(
+          await this.routerService.chatCompletion(request, signal, client),
+        );
         res.send(response);
         return response;
       }
@@ -191,7 +412,7 @@ export class RouterController {
           this.logger.debug('Request cancelled due to client disconnection');
         } else {
           this.logger.error(
-            `Chat completion failed: ${error instanceof Error ? error.message : String(error)}`,
+            `Completion failed: ${error instanceof Error ? error.message : String(error)}`,
           );
         }
         throw error;
@@ -205,32 +426,198 @@ export class RouterController {
   }
 
   /**
-   * Get available models
+   * SSE events of chat completion chunks (OpenAI compatible)
+   */
+  private createChatSseFormatter(): SseFormatter {
+    return {
+      chunk: chunk => {
+        const sseData: Record<string, unknown> = {
+          id: chunk.id,
+          object: 'chat.completion.chunk',
+          created: Math.floor(Date.now() / 1000),
+          model: chunk.model,
+          // Final usage chunk (stream_options.include_usage) has no choices
+          choices: chunk.usage
+            ? []
+            : [
+                {
+                  index: 0,
+                  delta: chunk.delta,
+                  logprobs: chunk.logprobs,
+                  finish_reason: chunk.finishReason ?? null,
+                },
+              ],
+        };
+
+        if (chunk.usage) {
+          sseData.usage = {
+            prompt_tokens: chunk.usage.promptTokens,
+            completion_tokens: chunk.usage.completionTokens,
+            total_tokens: chunk.usage.totalTokens,
+          };
+        }
+
+        // Include router metadata if present (usually in first chunk)
+        if (chunk._router) {
+          sseData._router = chunk._router;
+        }
+
+        return `data: ${JSON.stringify(sseData)}\n\n`;
+      },
+      done: () => 'data: [DONE]\n\n',
+      error: event => `data: ${JSON.stringify(event)}\n\n`,
+    };
+  }
+
+  /**
+   * Build OpenAI-style error event for a failed stream, with per-model errors when all models failed
+   */
+  private buildStreamErrorEvent(error: unknown): StreamErrorEventDto {
+    if (error instanceof AllModelsFailedError || error instanceof DeadlineExceededError) {
+      return {
+        error: {
+          message: error.message,
+          type: 'server_error',
+          code: error instanceof DeadlineExceededError ? 'deadline_exceeded' : 'all_models_failed',
+          errors: error.errors,
+        },
+      };
+    }
+
+    const status = ErrorExtractor.extractErrorCode(error);
+    const response = error instanceof HttpException ? error.getResponse() : undefined;
+    const details =
+      typeof response === 'object' && response !== null && 'error' in response
+        ? (response as { error: { type?: string; code?: string | number } }).error
+        : undefined;
+
+    return {
+      error: {
+        message: ErrorExtractor.extractErrorMessage(error),
+        type: this.getStreamErrorType(details?.type, status),
+        code: details?.code ?? status,
+      },
+    };
+  }
+
+  /**
+   * Error type of the SSE error event. Upstream types (e.g. `provider_error` of providers)
+   * are only kept when they are one of the OpenAI types, otherwise derived from the status
+   */
+  private getStreamErrorType(
+    upstreamType: string | undefined,
+    status: number | undefined,
+  ): StreamErrorEventDto['error']['type'] {
+    if (upstreamType && (STREAM_ERROR_TYPES as readonly string[]).includes(upstreamType)) {
+      return upstreamType as StreamErrorEventDto['error']['type'];
+    }
+    if (status === HttpStatus.TOO_MANY_REQUESTS) {
+      return 'rate_limit_error';
+    }
+
+    return status !== undefined && status < 500 ? 'invalid_request_error' : 'server_error';
+  }
+
+  /**
+   * Get available models (OpenAI compatible)
    * GET /api/v1/models
+   * Lists `auto`, every unique model name accepted in the `model` request field
+   * and a `tag:<tag>` alias for every tag of available models
    */
   @Get('models')
-  public getModels(): ModelsResponseDto {
+  public getModels(): OpenAiModelsResponseDto {
+    const data: OpenAiModelDto[] = [this.toOpenAiModel(AUTO_MODEL_ID, ROUTER_OWNER)];
+    const seen = new Set<string>([AUTO_MODEL_ID]);
+    const tags = new Set<string>();
+    const models = this.modelsService.getAvailable();
+
+    for (const model of models) {
+      if (!seen.has(model.name)) {
+        seen.add(model.name);
+        data.push(this.toOpenAiModel(model.name, model.provider));
+      }
+      model.tags.forEach(tag => tags.add(tag));
+    }
+
+    for (const tag of tags) {
+      data.push(this.toOpenAiModel(`${TAG_ALIAS_PREFIX}${tag}`, ROUTER_OWNER));
+    }
+
+    return { object: 'list', data };
+  }
+
+  /**
+   * Get available models with routing details
+   * GET /api/v1/models/details
+   */
+  @Get('models/details')
+  public getModelDetails(): ModelsResponseDto {
     const models = this.modelsService.getAvailable();
 
     return {
-      models: models.map(model => ({
-        name: model.name,
-        provider: model.provider,
-        model: model.model,
-        type: model.type,
-        contextSize: model.contextSize,
-        maxOutputTokens: model.maxOutputTokens,
-        tags: model.tags,
-        jsonResponse: model.jsonResponse,
-        available: model.available,
-        weight: model.weight,
-
-        // Multimodal support fields
-        supportsImage: model.supportsImage,
-        supportsVideo: model.supportsVideo,
-        supportsAudio: model.supportsAudio,
-        supportsFile: model.supportsFile,
-      })),
+      models: models.map(model => this.toModelInfo(model)),
+    };
+  }
+
+  /**
+   * Get a single model with its capabilities
+   * GET /api/v1/models/:id
+   * Accepts "model" or "provider/model" (URL-encoded). When several providers serve
+   * the model, the first available one is returned. Tag aliases are returned as virtual
+   * models if any available model matches the tags.
+   */
+  @Get('models/:id')
+  public getModel(@Param('id') id: string): ModelResponseDto {
+    const tags = parseTagAlias(id);
+    if (tags) {
+      if (this.modelsService.filter({ tags }).length === 0) {
+        throw new NotFoundException(`Model "${id}" not found`);
+      }
+      return this.toOpenAiModel(id, ROUTER_OWNER);
+    }
+
+    const { models } = parseModelInput(id);
+    const ref = models[0];
+
+    if (!ref) {
+      return this.toOpenAiModel(AUTO_MODEL_ID, ROUTER_OWNER);
+    }
+
+    const model = this.modelsService
+      .getAvailable()
+      .find(item => item.name === ref.name && (!ref.provider || item.provider === ref.provider));
+
+    if (!model) {
+      throw new NotFoundException(`Model "${id}" not found`);
+    }
+
+    return { ...this.toOpenAiModel(id, model.provider), ...this.toModelInfo(model) };
+  }
+
+  private toOpenAiModel(id: string, ownedBy: string): OpenAiModelDto {
+    return { id, object: 'model', created: this.startedAt, owned_by: ownedBy };
+  }
+
+  private toModelInfo(model: ModelDefinition): ModelInfo {
+    return {
+      name: model.name,
+      provider: model.provider,
+      model: model.model,
+      type: model.type,
+      contextSize: model.contextSize,
+      maxOutputTokens: model.maxOutputTokens,
+      tags: model.tags,
+      jsonResponse: model.jsonResponse,
+      available: model.available,
+      weight: model.weight,
+
+      // Multimodal support fields
+      supportsImage: model.supportsImage,
+      supportsVideo: model.supportsVideo,
+      supportsAudio: model.supportsAudio,
+      supportsFile: model.supportsFile,
+      supportsTools: model.supportsTools,
+      dimensions: model.dimensions,
     };
   }
 }
@@ -3,6 +3,9 @@ import { RouterController } from './router.controller.js';
 import { RouterService } from './router.service.js';
 import { RetryHandlerService } from './services/retry-handler.service.js';
 import { RequestBuilderService } from './services/request-builder.service.js';
+import { CompletionConverterService } from './services/completion-converter.service.js';
+import { ResponsesConverterService } from './services/responses-converter.service.js';
+import { MessagesConverterService } from './services/messages-converter.service.js';
 import { ModelsModule } from '../models/models.module.js';
 import { ProvidersModule } from '../providers/providers.module.js';
 import { SelectorModule } from '../selector/selector.module.js';
@@ -14,7 +17,14 @@ import { StateModule } from '../state/state.module.js';
 @Module({
   imports: [ModelsModule, ProvidersModule.forRoot(), SelectorModule, StateModule],
   controllers: [RouterController],
-  providers: [RouterService, RetryHandlerService, RequestBuilderService],
+  providers: [
+    RouterService,
+    RetryHandlerService,
+    RequestBuilderService,
+    CompletionConverterService,
+    ResponsesConverterService,
+    MessagesConverterService,
+  ],
   exports: [RouterService],
 })
 export class RouterModule {}
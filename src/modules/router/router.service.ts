@@ -7,26 +7,51 @@ import { ROUTER_CONFIG } from '../../config/router-config.provider.js';
 import type { ProvidersMap } from '../providers/providers.module.js';
 import { PROVIDERS_MAP } from '../providers/providers.module.js';
 import type { ChatCompletionRequestDto } from './dto/chat-completion.request.dto.js';
-import type { ChatCompletionResponseDto } from './dto/chat-completion.response.dto.js';
+import type { RoutingOptionsDto } from './dto/routing-options.dto.js';
+import type { EmbeddingsRequestDto } from './dto/embeddings.request.dto.js';
+import type { EmbeddingsResponseDto } from './dto/embeddings.response.dto.js';
+import type { ChatCompletionResponseDto, HedgeWinner } from './dto/chat-completion.response.dto.js';
 import type {
+  ChatCompletionParams,
   ChatCompletionResult,
   ChatCompletionStreamChunk,
+  EmbeddingsParams,
+  EmbeddingsResult,
+  ExtraParam,
+  LlmProvider,
+  TokenUsage,
 } from '../providers/interfaces/provider.interface.js';
-import type { RouterConfig } from '../../config/router-config.interface.js';
+import type { ClientConfig, RouterConfig } from '../../config/router-config.interface.js';
 import type { ModelDefinition } from '../models/interfaces/model.interface.js';
 import { parseModelInput } from '../selector/utils/model-parser.js';
-import { RetryHandlerService } from './services/retry-handler.service.js';
+import { RetryHandlerService, type BackoffPolicy } from './services/retry-handler.service.js';
+import { RequestDeadline } from './utils/request-deadline.js';
 import { RequestBuilderService } from './services/request-builder.service.js';
 import { ErrorExtractor, type ErrorInfo } from '../../common/utils/error-extractor.util.js';
 import {
   AllModelsFailedError,
+  DeadlineExceededError,
   ProviderNotFoundError,
   RequestCancelledError,
 } from '../../common/errors/router.errors.js';
 import { RateLimiterService } from '../rate-limiter/rate-limiter.service.js';
 import { JsonParser } from '../../common/utils/json-parser.util.js';
+import { TokenEstimator } from '../../common/utils/token-estimator.util.js';
+import {
+  DEFAULT_MAX_RETRY_AFTER_DELAY,
+  DEFAULT_MAX_RETRY_DELAY,
+} from '../../common/constants/retry.constants.js';
 import { HttpException, HttpStatus } from '@nestjs/common';
 
+/**
+ * Builds provider params of a single attempt on a model
+ */
+type AttemptParamsBuilder<P> = (
+  modelId: string,
+  abortSignal: AbortSignal,
+  timeoutSecs?: number,
+) => P;
+
 /**
  * Router service for handling chat completion requests with fallback logic
  */
@@ -52,6 +77,7 @@ export class RouterService {
   public async chatCompletion(
     request: ChatCompletionRequestDto,
     clientSignal?: AbortSignal,
+    client?: ClientConfig,
   ): Promise<ChatCompletionResponseDto> {
     // Register request for graceful shutdown tracking
     this.shutdownService.registerRequest();
@@ -62,12 +88,33 @@ export class RouterService {
       const maxSameModelRetries =
         request.max_same_model_retries ?? this.config.routing.maxSameModelRetries;
       const retryDelay = request.retry_delay ?? this.config.routing.retryDelay;
+      const retryBackoff: BackoffPolicy = {
+        strategy: request.retry_backoff ?? this.config.routing.retryBackoff ?? 'fixed',
+        maxDelay:
+          request.max_retry_delay ?? this.config.routing.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY,
+      };
+      const deadline = new RequestDeadline(
+        request.total_timeout_secs ?? this.config.routing.totalTimeoutSecs,
+      );
 
-      return await this.executeWithShutdownHandling(request, clientSignal, {
-        maxModelSwitches,
-        maxSameModelRetries,
-        retryDelay,
-      });
+      const response = await this.executeWithShutdownHandling(
+        request,
+        clientSignal,
+        {
+          maxModelSwitches,
+          maxSameModelRetries,
+          retryDelay,
+          retryBackoff,
+          deadline,
+        },
+        client,
+      );
+
+      if (client) {
+        this.rateLimiterService.recordClientTokens(client, response.usage.total_tokens);
+      }
+
+      return response;
     } finally {
       // Always unregister request when done
       this.shutdownService.unregisterRequest();
@@ -81,6 +128,33 @@ export class RouterService {
     );
   }
 
+  /**
+   * Providers accepting every additional parameter of a strict_params request.
+   * Undefined when models of any provider can be used.
+   */
+  private getProvidersAcceptingParams(request: ChatCompletionRequestDto): string[] | undefined {
+    if (!request.strict_params) {
+      return undefined;
+    }
+
+    const extraParams = this.requestBuilder.buildExtraParams(request);
+    if (!extraParams) {
+      return undefined;
+    }
+
+    const requested = Object.keys(extraParams) as ExtraParam[];
+    return [...this.providersMap]
+      .filter(([, provider]) => requested.every(param => provider.supportedParams.includes(param)))
+      .map(([name]) => name);
+  }
+
+  /**
+   * Reasoning is returned only on request and never when excluded by `reasoning.exclude`
+   */
+  private shouldIncludeReasoning(request: ChatCompletionRequestDto): boolean {
+    return request.include_reasoning === true && !request.reasoning?.exclude;
+  }
+
   /**
    * Handle chat completion with streaming (Server-Sent Events)
    * Implements retry/fallback logic similar to non-streaming mode
@@ -88,9 +162,11 @@ export class RouterService {
   public async *chatCompletionStream(
     request: ChatCompletionRequestDto,
     clientSignal?: AbortSignal,
+    client?: ClientConfig,
   ): AsyncGenerator<ChatCompletionStreamChunk, void, unknown> {
     // Register request for graceful shutdown tracking
     this.shutdownService.registerRequest();
+    const requestStartTime = Date.now();
 
     try {
       // Use per-request overrides or fall back to config
@@ -98,19 +174,37 @@ export class RouterService {
       const maxSameModelRetries =
         request.max_same_model_retries ?? this.config.routing.maxSameModelRetries;
       const retryDelay = request.retry_delay ?? this.config.routing.retryDelay;
+      const retryBackoff: BackoffPolicy = {
+        strategy: request.retry_backoff ?? this.config.routing.retryBackoff ?? 'fixed',
+        maxDelay:
+          request.max_retry_delay ?? this.config.routing.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY,
+      };
+      const deadline = new RequestDeadline(
+        request.total_timeout_secs ?? this.config.routing.totalTimeoutSecs,
+      );
 
       // Combine client signal with shutdown signal
       const abortSignal = this.createCombinedAbortSignal(clientSignal);
       const parsedModel = parseModelInput(request.model);
       const excludedModels: string[] = [];
+      const errors: ErrorInfo[] = [];
       let attemptCount = 0;
-      let isFirstChunk = true;
+      // Content already sent to the client, used to continue on another model (stream_resume)
+      let sentContent = '';
+      let sentToolCallArguments = '';
+      let chunksSent = false;
+      let toolCallsSent = false;
+      let lastChunk: ChatCompletionStreamChunk | undefined;
 
       // Try up to maxModelSwitches models
       for (let i = 0; i < maxModelSwitches; i++) {
+        if (!deadline.canAttempt()) {
+          break;
+        }
+
         attemptCount++;
 
-        const model = this.selectModel(request, parsedModel, excludedModels);
+        const model = this.selectModel(request, parsedModel, excludedModels, client);
         if (!model) {
           this.logger.warn('No suitable model found for streaming');
           break;
@@ -120,70 +214,175 @@ export class RouterService {
           `Streaming attempt ${attemptCount}: Using model ${model.name} (${model.provider})`,
         );
 
-        // Get provider
-        const provider = this.providersMap.get(model.provider);
-        if (!provider) {
-          throw new ProviderNotFoundError(model.provider);
-        }
-
-        // Build completion params
-        const completionParams = this.requestBuilder.buildChatCompletionParams(
-          request,
-          model.model,
-          abortSignal,
-        );
+        const resuming = chunksSent;
+        const attemptRequest = sentContent
+          ? this.requestBuilder.buildResumeRequest(request, sentContent)
+          : request;
+
+        // Open provider stream through the same retry pipeline as non-streaming requests.
+        // The attempt succeeds once the first chunk arrives. Comments before it are dropped,
+        // the controller's heartbeat keeps the client connection alive meanwhile.
+        const openStream = (target: ModelDefinition, signal: AbortSignal) =>
+          this.executeWithRateLimitRetry({
+            model: target,
+            request: attemptRequest,
+            abortSignal: signal,
+            maxSameModelRetries,
+            retryDelay,
+            retryBackoff,
+            deadline,
+            buildParams: this.buildChatParams(attemptRequest),
+            send: async (provider, params) => {
+              const stream = provider.chatCompletionStream(params);
+              let first = await stream.next();
+              while (!first.done && first.value.comment !== undefined) {
+                first = await stream.next();
+              }
+              return { stream, first };
+            },
+          });
 
         // Stream chunks from provider
         const startTime = Date.now();
+        let activeModel = model;
+        let attemptStarted = false;
+        let upstreamUsage: TokenUsage | undefined;
 
         try {
-          for await (const chunk of provider.chatCompletionStream(completionParams)) {
+          const hedgeAfterMs = i === 0 ? request.hedge_after_ms : undefined;
+          const opened =
+            hedgeAfterMs === undefined
+              ? { value: await openStream(model, abortSignal), model }
+              : await this.executeHedged({
+                  model,
+                  hedgeAfterMs,
+                  abortSignal,
+                  run: openStream,
+                  selectHedgeModel: () =>
+                    this.selectModel(
+                      request,
+                      parsedModel,
+                      [...excludedModels, `${model.provider}/${model.name}`],
+                      client,
+                    ),
+                  onHedgeStarted: () => attemptCount++,
+                  onFailed: (failedModel, error) => {
+                    excludedModels.push(`${failedModel.provider}/${failedModel.name}`);
+                    errors.push(ErrorExtractor.extractErrorInfo(error, failedModel));
+                  },
+                  dispose: ({ stream }) => void stream.return(undefined),
+                });
+          activeModel = opened.model;
+
+          for await (const chunk of this.resumeStream(opened.value)) {
             this.checkAbortSignal(abortSignal);
 
-            // Add router metadata to first chunk
-            if (isFirstChunk) {
+            // Upstream comments are forwarded without router bookkeeping
+            if (chunk.comment !== undefined) {
+              yield chunk;
+              continue;
+            }
+
+            // Usage is reported once in the final chunk built by the router
+            if (chunk.usage) {
+              upstreamUsage = chunk.usage;
+              chunk.usage = undefined;
+              if (!chunk.delta.content && !chunk.delta.tool_calls && !chunk.finishReason) {
+                continue;
+              }
+            }
+
+            if (!this.shouldIncludeReasoning(request)) {
+              chunk.delta.reasoning_content = undefined;
+            }
+
+            // Add router metadata to first chunk (and to the first chunk after a mid-stream switch)
+            if (!attemptStarted) {
               chunk._router = {
-                provider: model.provider,
-                model_name: model.name,
+                provider: activeModel.provider,
+                model_name: activeModel.name,
                 attempts: attemptCount,
                 fallback_used: false,
+                errors: errors.length > 0 ? errors : undefined,
+                client: client?.name,
+                budget_remaining_ms: deadline.remainingMs(),
+                hedge_winner: opened.hedgeWinner,
+                resumed: resuming || undefined,
               };
-              isFirstChunk = false;
+              attemptStarted = true;
             }
 
+            chunksSent = true;
+            sentContent += chunk.delta.content ?? '';
+            sentToolCallArguments += (chunk.delta.tool_calls ?? [])
+              .map(toolCall => toolCall.function?.arguments ?? '')
+              .join('');
+            toolCallsSent ||= (chunk.delta.tool_calls?.length ?? 0) > 0;
+            lastChunk = chunk;
+
             yield chunk;
           }
 
-          // Record success
-          const latencyMs = Date.now() - startTime;
-          this.circuitBreaker.onSuccess(model.name, latencyMs);
-
           this.logger.debug(
-            `Streaming successful: ${model.name} (${model.provider}) in ${attemptCount} attempt(s)`,
+            `Streaming successful: ${activeModel.name} (${activeModel.provider}) in ${attemptCount} attempt(s)`,
           );
 
+          yield* this.finishStream({
+            request,
+            client,
+            lastChunk,
+            model: activeModel,
+            attempts: attemptCount,
+            fallbackUsed: false,
+            usage: upstreamUsage,
+            completion: sentContent + sentToolCallArguments,
+            startTime: requestStartTime,
+          });
+
           return; // Success - exit generator
         } catch (error) {
-          const latencyMs = Date.now() - startTime;
-          const errorInfo = ErrorExtractor.extractErrorInfo(error, model);
-
-          if (!ErrorExtractor.isClientError(errorInfo.code)) {
-            this.circuitBreaker.onFailure(model.name, errorInfo.code, latencyMs);
+          if (abortSignal.aborted || ErrorExtractor.isAbortError(error)) {
+            throw this.handleAbortError();
           }
 
-          if (ErrorExtractor.isAbortError(error)) {
-            throw this.handleAbortError();
+          const errorInfo = ErrorExtractor.extractErrorInfo(error, activeModel);
+
+          if (attemptStarted) {
+            if (!ErrorExtractor.isClientError(errorInfo.code)) {
+              this.circuitBreaker.onFailure(
+                activeModel.name,
+                errorInfo.code,
+                Date.now() - startTime,
+              );
+            }
+
+            // Chunks were already sent, so another model can only continue the partial message.
+            // Tool call deltas can't be continued.
+            if (!request.stream_resume || toolCallsSent) {
+              this.logger.error(
+                `Streaming model ${activeModel.name} (${activeModel.provider}) failed mid-stream: ${errorInfo.error}`,
+              );
+              throw error;
+            }
+
+            this.logger.warn(
+              `Streaming model ${activeModel.name} (${activeModel.provider}) failed mid-stream, resuming on next model`,
+            );
           }
 
           // Track failed model and try next one
-          excludedModels.push(`${model.provider}/${model.name}`);
+          excludedModels.push(`${activeModel.provider}/${activeModel.name}`);
+          errors.push(errorInfo);
 
           this.logger.warn(
-            `Streaming model ${model.name} (${model.provider}) failed: ${errorInfo.error} (code: ${errorInfo.code ?? 'N/A'})`,
+            `Streaming model ${activeModel.name} (${activeModel.provider}) failed: ${errorInfo.error} (code: ${errorInfo.code ?? 'N/A'})`,
           );
 
-          // If client error (4xx except 429), don't retry
           if (ErrorExtractor.isClientError(errorInfo.code)) {
+            if (this.canSwitchOnClientError(request, activeModel, error, errorInfo.code)) {
+              continue;
+            }
+
             this.logger.error('Client error detected in streaming, not retrying');
             throw error;
           }
@@ -192,10 +391,14 @@ export class RouterService {
         }
       }
 
+      if (!deadline.canAttempt()) {
+        this.logger.warn(`Streaming request deadline exceeded after ${attemptCount} attempt(s)`);
+        throw new DeadlineExceededError(deadline.totalTimeoutSecs ?? 0, attemptCount, errors);
+      }
+
       // If all free models failed, try fallback to paid model
       // Use per-request fallback settings if provided, otherwise use config
-      const fallbackEnabled = this.config.routing.fallback?.enabled !== false;
-      if (fallbackEnabled) {
+      if (this.isFallbackAllowed(request, client)) {
         this.logger.warn('All free models failed in streaming, attempting fallback to paid model');
 
         try {
@@ -209,54 +412,246 @@ export class RouterService {
           }
 
           const completionParams = this.requestBuilder.buildChatCompletionParams(
-            request,
+            sentContent ? this.requestBuilder.buildResumeRequest(request, sentContent) : request,
             fallbackModelName,
             abortSignal,
+            this.getAttemptTimeoutSecs(request, deadline),
           );
 
           this.stateService.recordFallbackUsage();
 
+          let fallbackStarted = false;
+          let fallbackUsage: TokenUsage | undefined;
+          let fallbackCompletion = '';
           for await (const chunk of fallbackProvider.chatCompletionStream(completionParams)) {
             this.checkAbortSignal(abortSignal);
 
+            if (chunk.comment !== undefined) {
+              yield chunk;
+              continue;
+            }
+
+            if (chunk.usage) {
+              fallbackUsage = chunk.usage;
+              chunk.usage = undefined;
+              if (!chunk.delta.content && !chunk.delta.tool_calls && !chunk.finishReason) {
+                continue;
+              }
+            }
+
+            if (!this.shouldIncludeReasoning(request)) {
+              chunk.delta.reasoning_content = undefined;
+            }
+
             // Add router metadata to first chunk
-            if (isFirstChunk) {
+            if (!fallbackStarted) {
               chunk._router = {
                 provider: fallbackProviderName,
                 model_name: fallbackModelName,
                 attempts: attemptCount + 1,
                 fallback_used: true,
+                errors: errors.length > 0 ? errors : undefined,
+                client: client?.name,
+                budget_remaining_ms: deadline.remainingMs(),
+                resumed: chunksSent || undefined,
               };
-              isFirstChunk = false;
+              fallbackStarted = true;
             }
 
+            fallbackCompletion += chunk.delta.content ?? '';
+            fallbackCompletion += (chunk.delta.tool_calls ?? [])
+              .map(toolCall => toolCall.function?.arguments ?? '')
+              .join('');
+            lastChunk = chunk;
+
             yield chunk;
           }
 
           this.logger.debug('Fallback streaming successful');
+
+          yield* this.finishStream({
+            request,
+            client,
+            lastChunk,
+            model: { provider: fallbackProviderName, name: fallbackModelName },
+            attempts: attemptCount + 1,
+            fallbackUsed: true,
+            usage: fallbackUsage,
+            completion: fallbackCompletion,
+            startTime: requestStartTime,
+          });
           return; // Success
         } catch (error) {
-          this.logger.error(
-            `Fallback streaming failed: ${error instanceof Error ? error.message : String(error)}`,
-          );
-          throw error;
+          if (abortSignal.aborted || ErrorExtractor.isAbortError(error)) {
+            throw this.handleAbortError();
+          }
+
+          const fallbackError = ErrorExtractor.extractErrorInfo(error, {
+            name: request.fallback_model ?? this.config.routing.fallback.model,
+            provider: request.fallback_provider ?? this.config.routing.fallback.provider,
+          });
+
+          this.logger.error(`Fallback streaming failed: ${fallbackError.error}`);
         }
       }
 
       // All models failed
-      throw new AllModelsFailedError(attemptCount, []);
+      throw new AllModelsFailedError(attemptCount, errors);
     } finally {
       // Always unregister request when done
       this.shutdownService.unregisterRequest();
     }
   }
 
+  /**
+   * Handle embeddings request. Only models of type `embedding` are selected, with the same
+   * retries, model switching, rate limiting and circuit breaker as chat completions.
+   * Falls back to routing.embeddingsFallback when it is configured.
+   */
+  public async embeddings(
+    request: EmbeddingsRequestDto,
+    clientSignal?: AbortSignal,
+    client?: ClientConfig,
+  ): Promise<EmbeddingsResponseDto> {
+    this.shutdownService.registerRequest();
+
+    try {
+      const abortSignal = this.createCombinedAbortSignal(clientSignal);
+      const maxModelSwitches = request.max_model_switches ?? this.config.routing.maxModelSwitches;
+      const retryBackoff: BackoffPolicy = {
+        strategy: request.retry_backoff ?? this.config.routing.retryBackoff ?? 'fixed',
+        maxDelay:
+          request.max_retry_delay ?? this.config.routing.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY,
+      };
+      const deadline = new RequestDeadline(
+        request.total_timeout_secs ?? this.config.routing.totalTimeoutSecs,
+      );
+      const parsedModel = parseModelInput(request.model);
+      const input = typeof request.input === 'string' ? [request.input] : request.input;
+      const buildParams: AttemptParamsBuilder<EmbeddingsParams> = (
+        modelId,
+        signal,
+        timeoutSecs,
+      ) => ({
+        model: modelId,
+        input,
+        dimensions: request.dimensions,
+        user: request.user,
+        timeoutSecs: timeoutSecs ?? request.timeout_secs,
+        abortSignal: signal,
+      });
+
+      const errors: ErrorInfo[] = [];
+      const excludedModels: string[] = [];
+      let attemptCount = 0;
+
+      for (let i = 0; i < maxModelSwitches && deadline.canAttempt(); i++) {
+        attemptCount++;
+
+        const model = this.selectorService.selectNextModel(
+          {
+            models: parsedModel.models,
+            allowAutoFallback: parsedModel.allowAutoFallback,
+            tags: request.tags ?? parsedModel.tags,
+            type: 'embedding',
+            minContextSize: request.min_context_size,
+            preferFast: request.prefer_fast,
+            minSuccessRate: request.min_success_rate,
+            selectionMode: request.selection_mode,
+            allowedTags: client?.allowedTags,
+            allowedProviders: client?.allowedProviders,
+          },
+          excludedModels,
+        );
+        if (!model) {
+          this.logger.warn('No suitable embedding model found');
+          break;
+        }
+
+        this.logger.debug(
+          `Embeddings attempt ${attemptCount}: Using model ${model.name} (${model.provider})`,
+        );
+
+        try {
+          const result = await this.executeWithRateLimitRetry({
+            model,
+            request,
+            abortSignal,
+            maxSameModelRetries: request.max_same_model_retries,
+            retryDelay: request.retry_delay,
+            retryBackoff,
+            deadline,
+            buildParams,
+            send: (provider, params) => provider.embeddings(params),
+          });
+
+          return this.buildEmbeddingsResponse({
+            result,
+            model,
+            request,
+            attemptCount,
+            errors,
+            fallbackUsed: false,
+            client,
+            deadline,
+          });
+        } catch (error) {
+          if (abortSignal.aborted) {
+            throw this.handleAbortError();
+          }
+
+          excludedModels.push(`${model.provider}/${model.name}`);
+          const errorInfo = ErrorExtractor.extractErrorInfo(error, model);
+          errors.push(errorInfo);
+
+          this.logger.warn(
+            `Embedding model ${model.name} (${model.provider}) failed: ${errorInfo.error} (code: ${errorInfo.code ?? 'N/A'})`,
+          );
+
+          if (
+            ErrorExtractor.isClientError(errorInfo.code) &&
+            !(
+              ErrorExtractor.isQuotaError(errorInfo.code) &&
+              this.rateLimiterService.getApiKeyPool(model.provider)
+            )
+          ) {
+            this.logger.error('Client error detected, not retrying');
+            throw error;
+          }
+        }
+      }
+
+      if (!deadline.canAttempt()) {
+        this.logger.warn(`Request deadline exceeded after ${attemptCount} attempt(s)`);
+        throw new DeadlineExceededError(deadline.totalTimeoutSecs ?? 0, attemptCount, errors);
+      }
+
+      const fallbackResponse = await this.tryEmbeddingsFallback({
+        request,
+        abortSignal,
+        buildParams,
+        errors,
+        attemptCount,
+        client,
+        deadline,
+      });
+      if (fallbackResponse) {
+        return fallbackResponse;
+      }
+
+      throw new AllModelsFailedError(attemptCount, errors);
+    } finally {
+      this.shutdownService.unregisterRequest();
+    }
+  }
+
   /**
    * Execute chat completion with shutdown abort signal support.
    * This method orchestrates the model selection, retry loop, and fallback logic.
    *
    * @param request The chat completion request
    * @param clientSignal Optional abort signal from the client
+   * @param client Authenticated client whose policy restricts models and fallback
    */
   private async executeWithShutdownHandling(
     request: ChatCompletionRequestDto,
@@ -265,7 +660,10 @@ export class RouterService {
       maxModelSwitches: number;
       maxSameModelRetries: number;
       retryDelay: number;
+      retryBackoff: BackoffPolicy;
+      deadline: RequestDeadline;
     },
+    client?: ClientConfig,
   ): Promise<ChatCompletionResponseDto> {
     // Combine client signal with shutdown signal to handle both cases
     const abortSignal = this.createCombinedAbortSignal(clientSignal);
@@ -276,11 +674,16 @@ export class RouterService {
     const parsedModel = parseModelInput(request.model);
     const maxModelSwitches =
       routingOverrides?.maxModelSwitches ?? this.config.routing.maxModelSwitches;
+    const deadline = routingOverrides?.deadline ?? new RequestDeadline();
 
     for (let i = 0; i < maxModelSwitches; i++) {
+      if (!deadline.canAttempt()) {
+        break;
+      }
+
       attemptCount++;
 
-      const model = this.selectModel(request, parsedModel, excludedModels);
+      const model = this.selectModel(request, parsedModel, excludedModels, client);
       if (!model) {
         this.logger.warn('No suitable model found');
         break;
@@ -288,33 +691,68 @@ export class RouterService {
 
       this.logger.debug(`Attempt ${attemptCount}: Using model ${model.name} (${model.provider})`);
 
-      try {
-        const result = await this.executeWithRateLimitRetry({
-          model,
+      const runModel = (target: ModelDefinition, signal: AbortSignal) =>
+        this.executeWithRateLimitRetry({
+          model: target,
           request,
-          abortSignal,
+          abortSignal: signal,
           maxSameModelRetries: routingOverrides?.maxSameModelRetries,
           retryDelay: routingOverrides?.retryDelay,
+          retryBackoff: routingOverrides?.retryBackoff,
+          deadline,
+          buildParams: this.buildChatParams(request),
+          send: (provider, params) => provider.chatCompletion(params),
         });
 
+      try {
+        const hedgeAfterMs = i === 0 ? request.hedge_after_ms : undefined;
+        const {
+          value: result,
+          model: resultModel,
+          hedgeWinner,
+        } = hedgeAfterMs === undefined
+          ? { value: await runModel(model, abortSignal), model, hedgeWinner: undefined }
+          : await this.executeHedged({
+              model,
+              hedgeAfterMs,
+              abortSignal,
+              run: runModel,
+              selectHedgeModel: () =>
+                this.selectModel(
+                  request,
+                  parsedModel,
+                  [...excludedModels, `${model.provider}/${model.name}`],
+                  client,
+                ),
+              onHedgeStarted: () => attemptCount++,
+              onFailed: (failedModel, error) => {
+                excludedModels.push(`${failedModel.provider}/${failedModel.name}`);
+                errors.push(ErrorExtractor.extractErrorInfo(error, failedModel));
+              },
+            });
+
         this.logger.debug(
-          `Request successful: ${model.name} (${model.provider}) in ${attemptCount} attempt(s)`,
+          `Request successful: ${resultModel.name} (${resultModel.provider}) in ${attemptCount} attempt(s)`,
         );
 
         // Log tool calls if present
         if (result.toolCalls && result.toolCalls.length > 0) {
           this.logger.debug(
-            `Model ${model.name} called ${result.toolCalls.length} tool(s): ${result.toolCalls.map(t => t.function.name).join(', ')}`,
+            `Model ${resultModel.name} called ${result.toolCalls.length} tool(s): ${result.toolCalls.map(t => t.function.name).join(', ')}`,
           );
         }
 
         return this.buildSuccessResponse({
           result,
-          model,
+          model: resultModel,
           attemptCount,
           errors,
           fallbackUsed: false,
           parseJson: this.shouldRequestJsonResponse(request),
+          includeReasoning: this.shouldIncludeReasoning(request),
+          client,
+          deadline,
+          hedgeWinner,
         });
       } catch (error) {
         if (abortSignal.aborted) {
@@ -331,14 +769,7 @@ export class RouterService {
         );
 
         if (ErrorExtractor.isClientError(errorInfo.code)) {
-          const jsonRequested = this.shouldRequestJsonResponse(request);
-          const isUnsupportedResponseFormat =
-            ErrorExtractor.isUnsupportedResponseFormatError(error);
-
-          if (jsonRequested && isUnsupportedResponseFormat) {
-            this.logger.warn(
-              `Model ${model.name} does not support requested response_format, switching to next model`,
-            );
+          if (this.canSwitchOnClientError(request, model, error, errorInfo.code)) {
             continue;
           }
 
@@ -348,11 +779,22 @@ export class RouterService {
       }
     }
 
+    if (!deadline.canAttempt()) {
+      this.logger.warn(`Request deadline exceeded after ${attemptCount} attempt(s)`);
+      throw new DeadlineExceededError(deadline.totalTimeoutSecs ?? 0, attemptCount, errors);
+    }
+
     // If all retries failed, check if fallback is enabled
     // Use per-request fallback settings if provided, otherwise use config
-    const fallbackEnabled = this.config.routing.fallback?.enabled !== false;
-    if (fallbackEnabled) {
-      const fallbackResponse = await this.tryFallback(request, abortSignal, errors, attemptCount);
+    if (this.isFallbackAllowed(request, client)) {
+      const fallbackResponse = await this.tryFallback(
+        request,
+        abortSignal,
+        errors,
+        attemptCount,
+        client,
+        deadline,
+      );
       if (fallbackResponse) {
         return fallbackResponse;
       }
@@ -361,44 +803,280 @@ export class RouterService {
     throw new AllModelsFailedError(attemptCount, errors);
   }
 
-  private async executeWithRateLimitRetry(params: {
+  /**
+   * Client errors caused by the selected model rather than the request itself,
+   * so the request may succeed on another model
+   */
+  private canSwitchOnClientError(
+    request: ChatCompletionRequestDto,
+    model: ModelDefinition,
+    error: unknown,
+    code?: number,
+  ): boolean {
+    if (
+      this.shouldRequestJsonResponse(request) &&
+      ErrorExtractor.isUnsupportedResponseFormatError(error)
+    ) {
+      this.logger.warn(
+        `Model ${model.name} does not support requested response_format, switching to next model`,
+      );
+      return true;
+    }
+
+    if (
+      ErrorExtractor.isQuotaError(code) &&
+      this.rateLimiterService.getApiKeyPool(model.provider)
+    ) {
+      this.logger.warn(
+        `All API keys of provider ${model.provider} hit quota, switching to next model`,
+      );
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Provider params builder of chat completion attempts
+   */
+  private buildChatParams(
+    request: ChatCompletionRequestDto,
+  ): AttemptParamsBuilder<ChatCompletionParams> {
+    return (modelId, abortSignal, timeoutSecs) =>
+      this.requestBuilder.buildChatCompletionParams(request, modelId, abortSignal, timeoutSecs);
+  }
+
+  private async executeWithRateLimitRetry<T, P>(params: {
     model: ModelDefinition;
-    request: ChatCompletionRequestDto;
+    request: RoutingOptionsDto;
     abortSignal: AbortSignal;
     maxSameModelRetries?: number;
     retryDelay?: number;
-  }): Promise<ChatCompletionResult> {
-    const { model, request, abortSignal, maxSameModelRetries, retryDelay } = params;
+    retryBackoff?: BackoffPolicy;
+    deadline?: RequestDeadline;
+    buildParams: AttemptParamsBuilder<P>;
+    send: (provider: LlmProvider, params: P) => Promise<T>;
+  }): Promise<T> {
+    const {
+      model,
+      request,
+      abortSignal,
+      maxSameModelRetries,
+      retryDelay,
+      retryBackoff,
+      deadline,
+      buildParams,
+      send,
+    } = params;
 
     const effectiveMaxRetries = maxSameModelRetries ?? this.config.routing.maxSameModelRetries;
     const effectiveRetryDelay = retryDelay ?? this.config.routing.retryDelay;
 
-    return await this.retryHandler.executeWithRetry({
-      operation: async () => this.executeSingleRequest(model, request, abortSignal),
-      maxRetries: effectiveMaxRetries,
-      retryDelay: effectiveRetryDelay,
-      abortSignal,
-      shouldRetry: error => {
-        const errorInfo = ErrorExtractor.extractErrorInfo(error, model);
-        // Retry on rate limit (429) or retryable network errors (ENETUNREACH, ECONNRESET)
-        return (
-          ErrorExtractor.isRateLimitError(errorInfo.code) ||
-          ErrorExtractor.isRetryableNetworkError(error)
-        );
-      },
-      onRetry: (attempt, error) => {
-        const isNetworkError = ErrorExtractor.isRetryableNetworkError(error);
-        const errorType = isNetworkError ? 'Network error' : 'Rate limit';
+    // Provider excludes the key that hit a quota, so another key is used on the next call
+    const keyPoolSize = this.rateLimiterService.getApiKeyPool(model.provider)?.size ?? 1;
+    const canSwitchApiKey = (error: unknown): boolean =>
+      ErrorExtractor.isQuotaError(ErrorExtractor.extractErrorCode(error)) &&
+      this.rateLimiterService.hasAvailableApiKey(model.provider);
+
+    for (let keySwitch = 0; ; keySwitch++) {
+      try {
+        return await this.retryHandler.executeWithRetry({
+          operation: async () =>
+            this.executeSingleRequest(model, request, abortSignal, deadline, buildParams, send),
+          maxRetries: effectiveMaxRetries,
+          retryDelay: effectiveRetryDelay,
+          backoff: retryBackoff,
+          maxRetryAfterDelay:
+            this.config.routing.maxRetryAfterDelay ?? DEFAULT_MAX_RETRY_AFTER_DELAY,
+          deadline,
+          abortSignal,
+          shouldRetry: error => {
+            if (canSwitchApiKey(error)) {
+              return false;
+            }
+
+            const errorInfo = ErrorExtractor.extractErrorInfo(error, model);
+            // Retry on rate limit (429) or retryable network errors (ENETUNREACH, ECONNRESET)
+            return (
+              ErrorExtractor.isRateLimitError(errorInfo.code) ||
+              ErrorExtractor.isRetryableNetworkError(error)
+            );
+          },
+          onRetry: (attempt, error) => {
+            const isNetworkError = ErrorExtractor.isRetryableNetworkError(error);
+            const errorType = isNetworkError ? 'Network error' : 'Rate limit';
+            this.logger.debug(
+              `${errorType} for ${model.name}, retrying (attempt ${attempt}/${effectiveMaxRetries})`,
+            );
+          },
+        });
+      } catch (error) {
+        if (
+          abortSignal.aborted ||
+          keySwitch >= keyPoolSize - 1 ||
+          !canSwitchApiKey(error) ||
+          deadline?.canAttempt() === false
+        ) {
+          throw error;
+        }
+
         this.logger.debug(
-          `${errorType} for ${model.name}, retrying (attempt ${attempt}/${effectiveMaxRetries})`,
+          `API key quota exhausted for ${model.name} (${model.provider}), retrying with another key`,
         );
+      }
+    }
+  }
+
+  /**
+   * Run a request on the primary model and, if it has not finished within hedgeAfterMs,
+   * the same request on a hedge model. The first successful result wins, the other one is aborted.
+   * Failures of a losing model are reported to onFailed; if both fail, the primary error is thrown.
+   */
+  private async executeHedged<T>(params: {
+    model: ModelDefinition;
+    hedgeAfterMs: number;
+    abortSignal: AbortSignal;
+    run: (model: ModelDefinition, abortSignal: AbortSignal) => Promise<T>;
+    selectHedgeModel: () => ModelDefinition | null;
+    onHedgeStarted: (model: ModelDefinition) => void;
+    onFailed: (model: ModelDefinition, error: unknown) => void;
+    dispose?: (value: T) => void;
+  }): Promise<{ value: T; model: ModelDefinition; hedgeWinner?: HedgeWinner }> {
+    const { model, hedgeAfterMs, abortSignal, run, selectHedgeModel, onHedgeStarted, onFailed } =
+      params;
+
+    let primaryError: unknown;
+    const primaryController = new AbortController();
+    const primary = run(model, AbortSignal.any([abortSignal, primaryController.signal])).catch(
+      (error: unknown) => {
+        if (!primaryController.signal.aborted) {
+          primaryError = error;
+        }
+        throw error;
+      },
+    );
+
+    const timerController = new AbortController();
+    const primarySettledFirst = await Promise.race([
+      primary.then(
+        () => true,
+        () => true,
+      ),
+      this.retryHandler
+        .sleep(hedgeAfterMs, AbortSignal.any([abortSignal, timerController.signal]))
+        .then(
+          () => false,
+          () => true,
+        ),
+    ]);
+    timerController.abort();
+
+    const hedgeModel = primarySettledFirst ? null : selectHedgeModel();
+    if (!hedgeModel) {
+      return { value: await primary, model };
+    }
+
+    this.logger.debug(
+      `Model ${model.name} did not respond within ${hedgeAfterMs}ms, hedging with ${hedgeModel.name}`,
+    );
+    onHedgeStarted(hedgeModel);
+
+    const hedgeController = new AbortController();
+    const hedge = run(hedgeModel, AbortSignal.any([abortSignal, hedgeController.signal])).catch(
+      (error: unknown) => {
+        if (!hedgeController.signal.aborted) {
+          onFailed(hedgeModel, error);
+        }
+        throw error;
+      },
+    );
+
+    try {
+      const winner = await Promise.any([
+        primary.then(value => ({ value, model, hedgeWinner: 'primary' as const })),
+        hedge.then(value => ({ value, model: hedgeModel, hedgeWinner: 'hedge' as const })),
+      ]);
+
+      const [loser, loserController] =
+        winner.hedgeWinner === 'primary' ? [hedge, hedgeController] : [primary, primaryController];
+      loserController.abort();
+      // A loser that finished at the same time still holds resources (e.g. an open stream)
+      loser.then(value => params.dispose?.(value)).catch(() => undefined);
+
+      if (winner.hedgeWinner === 'hedge' && primaryError !== undefined) {
+        onFailed(model, primaryError);
+      }
+
+      this.logger.debug(`Hedged request won by ${winner.model.name} (${winner.hedgeWinner})`);
+      return winner;
+    } catch (error) {
+      throw error instanceof AggregateError ? error.errors[0] : error;
+    }
+  }
+
+  /**
+   * Record stream token usage for client quotas and, if requested with
+   * stream_options.include_usage, emit the final usage chunk with a router summary.
+   * Usage is estimated when the provider did not report it.
+   */
+  private *finishStream(params: {
+    request: ChatCompletionRequestDto;
+    client?: ClientConfig;
+    lastChunk?: ChatCompletionStreamChunk;
+    model: { provider: string; name: string };
+    attempts: number;
+    fallbackUsed: boolean;
+    usage?: TokenUsage;
+    completion: string;
+    startTime: number;
+  }): Generator<ChatCompletionStreamChunk, void, unknown> {
+    const { request, client, lastChunk, model } = params;
+    const usage = params.usage ?? TokenEstimator.estimateUsage(request.messages, params.completion);
+
+    if (client) {
+      this.rateLimiterService.recordClientTokens(client, usage.totalTokens);
+    }
+
+    if (!request.stream_options?.include_usage) {
+      return;
+    }
+
+    yield {
+      id: lastChunk?.id ?? '',
+      model: lastChunk?.model ?? model.name,
+      delta: {},
+      usage,
+      _router: {
+        provider: model.provider,
+        model_name: model.name,
+        attempts: params.attempts,
+        fallback_used: params.fallbackUsed,
+        client: client?.name,
+        latency_ms: Date.now() - params.startTime,
+        usage_estimated: params.usage === undefined || undefined,
       },
-    });
+    };
+  }
+
+  /**
+   * Continue a provider stream whose first chunk was already read
+   */
+  private async *resumeStream(opened: {
+    stream: AsyncGenerator<ChatCompletionStreamChunk, void, unknown>;
+    first: IteratorResult<ChatCompletionStreamChunk, void>;
+  }): AsyncGenerator<ChatCompletionStreamChunk, void, unknown> {
+    if (opened.first.done) {
+      return;
+    }
+
+    yield opened.first.value;
+    yield* opened.stream;
   }
 
   private async executeFallback(
     request: ChatCompletionRequestDto,
     abortSignal: AbortSignal,
+    deadline?: RequestDeadline,
   ): Promise<{ result: ChatCompletionResult; model: ModelDefinition }> {
     // Use per-request fallback settings if provided, otherwise use config
     const fallbackProviderName = request.fallback_provider ?? this.config.routing.fallback.provider;
@@ -415,6 +1093,7 @@ export class RouterService {
       request,
       fallbackModelName,
       abortSignal,
+      deadline && this.getAttemptTimeoutSecs(request, deadline),
     );
 
     const result = await fallbackProvider.chatCompletion(completionParams);
@@ -441,14 +1120,42 @@ export class RouterService {
     errors: ErrorInfo[];
     fallbackUsed: boolean;
     parseJson: boolean;
+    includeReasoning: boolean;
+    client?: ClientConfig;
+    deadline?: RequestDeadline;
+    hedgeWinner?: HedgeWinner;
   }): ChatCompletionResponseDto {
-    const { result, model, attemptCount, errors, fallbackUsed, parseJson } = params;
+    const {
+      result,
+      model,
+      attemptCount,
+      errors,
+      fallbackUsed,
+      parseJson,
+      includeReasoning,
+      client,
+      deadline,
+      hedgeWinner,
+    } = params;
+
+    // Some reasoning models (e.g., gpt-oss-20b) put the answer in reasoning and leave content empty
+    let content = result.content;
+    if (
+      !content &&
+      !parseJson &&
+      !result.toolCalls?.length &&
+      result.reasoningContent &&
+      (this.config.routing.reasoningAsContent ?? true)
+    ) {
+      this.logger.debug('Using reasoning as content fallback');
+      content = result.reasoningContent;
+    }
 
     // Parse JSON only when JSON response format is requested and content is present
     // Uses JsonParser to handle markdown code blocks that LLMs often wrap JSON in
     let parsedData: unknown | undefined;
-    if (parseJson && result.content) {
-      parsedData = JsonParser.safeParse(result.content);
+    if (parseJson && content) {
+      parsedData = JsonParser.safeParse(content);
     }
 
     return {
@@ -461,9 +1168,11 @@ export class RouterService {
           index: 0,
           message: {
             role: 'assistant',
-            content: result.content,
+            content,
             tool_calls: result.toolCalls,
+            reasoning_content: includeReasoning ? result.reasoningContent : undefined,
           },
+          logprobs: result.logprobs,
           finish_reason: result.finishReason,
         },
       ],
@@ -479,10 +1188,67 @@ export class RouterService {
         fallback_used: fallbackUsed,
         errors: errors.length > 0 ? errors : undefined,
         data: parsedData,
+        client: client?.name,
+        budget_remaining_ms: deadline?.remainingMs(),
+        hedge_winner: hedgeWinner,
       },
     };
   }
 
+  /**
+   * Check if paid fallback is enabled and allowed by client policy.
+   * Counts the call against the client paid fallback quota.
+   */
+  private isFallbackAllowed(request: ChatCompletionRequestDto, client?: ClientConfig): boolean {
+    if (this.config.routing.fallback?.enabled === false) {
+      return false;
+    }
+
+    const fallbackProviderName = request.fallback_provider ?? this.config.routing.fallback.provider;
+    const providers = this.getProvidersAcceptingParams(request);
+    if (providers && !providers.includes(fallbackProviderName)) {
+      this.logger.warn(
+        `Fallback provider "${fallbackProviderName}" does not accept all request parameters`,
+      );
+      return false;
+    }
+
+    return this.isFallbackAllowedForClient(fallbackProviderName, client);
+  }
+
+  /**
+   * Check client policy and paid fallback quota. Counts the call against the quota.
+   */
+  private isFallbackAllowedForClient(providerName: string, client?: ClientConfig): boolean {
+    if (!client) {
+      return true;
+    }
+
+    if (
+      client.allowPaidFallback === false ||
+      (client.allowedProviders && !client.allowedProviders.includes(providerName))
+    ) {
+      return false;
+    }
+
+    if (!this.rateLimiterService.checkClientFallback(client)) {
+      this.logger.warn(`Client "${client.name}" exhausted paid fallback quota`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Provider timeout of the next attempt limited by the remaining request budget
+   */
+  private getAttemptTimeoutSecs(
+    request: RoutingOptionsDto,
+    deadline: RequestDeadline,
+  ): number | undefined {
+    return deadline.limitTimeoutSecs(request.timeout_secs ?? this.config.routing.timeoutSecs);
+  }
+
   private createCombinedAbortSignal(clientSignal?: AbortSignal): AbortSignal {
     const shutdownSignal = this.shutdownService.createRequestSignal();
     // If client provides a signal, we want to abort if EITHER the client cancels OR the server shuts down
@@ -493,6 +1259,7 @@ export class RouterService {
     request: ChatCompletionRequestDto,
     parsedModel: ReturnType<typeof parseModelInput>,
     excludedModels: string[],
+    client?: ClientConfig,
   ): ModelDefinition | null {
     // Check if request contains images
     const needsVision = this.requestBuilder.hasImageContent(request.messages);
@@ -501,12 +1268,13 @@ export class RouterService {
       {
         models: parsedModel.models,
         allowAutoFallback: parsedModel.allowAutoFallback,
-        tags: request.tags,
+        tags: request.tags ?? parsedModel.tags,
         type: request.type,
         minContextSize: request.min_context_size,
         minMaxOutputTokens: request.min_max_output_tokens,
         jsonResponse: this.shouldRequestJsonResponse(request) ? true : undefined,
         preferFast: request.prefer_fast,
+        preferReasoning: request.reasoning_effort === 'high' ? true : undefined,
         minSuccessRate: request.min_success_rate,
         selectionMode: request.selection_mode,
         supportsImage: needsVision || request.supports_image ? true : undefined,
@@ -514,6 +1282,9 @@ export class RouterService {
         supportsAudio: request.supports_audio ? true : undefined,
         supportsFile: request.supports_file ? true : undefined,
         supportsTools: request.supports_tools ? true : undefined,
+        allowedTags: client?.allowedTags,
+        allowedProviders: client?.allowedProviders,
+        providers: this.getProvidersAcceptingParams(request),
       },
       excludedModels,
     );
@@ -533,11 +1304,17 @@ export class RouterService {
     return model;
   }
 
-  private async executeSingleRequest(
+  /**
+   * Single attempt on a model: rate limit check, provider call via send and circuit breaker accounting
+   */
+  private async executeSingleRequest<T, P>(
     model: ModelDefinition,
-    request: ChatCompletionRequestDto,
+    request: RoutingOptionsDto,
     abortSignal: AbortSignal,
-  ): Promise<ChatCompletionResult> {
+    deadline: RequestDeadline | undefined,
+    buildParams: AttemptParamsBuilder<P>,
+    send: (provider: LlmProvider, params: P) => Promise<T>,
+  ): Promise<T> {
     this.checkAbortSignal(abortSignal);
 
     // Check rate limit for this model
@@ -559,21 +1336,21 @@ export class RouterService {
       throw new ProviderNotFoundError(model.provider);
     }
 
-    const completionParams = this.requestBuilder.buildChatCompletionParams(
-      request,
+    const attemptParams = buildParams(
       model.model,
       abortSignal,
+      deadline && this.getAttemptTimeoutSecs(request, deadline),
     );
 
     const startTime = Date.now();
 
     try {
-      const result = await provider.chatCompletion(completionParams);
+      const result = await send(provider, attemptParams);
       const latencyMs = Date.now() - startTime;
       this.circuitBreaker.onSuccess(model.name, latencyMs);
       return result;
     } catch (error) {
-      if (ErrorExtractor.isAbortError(error)) {
+      if (abortSignal.aborted || ErrorExtractor.isAbortError(error)) {
         throw this.handleAbortError();
       }
 
@@ -607,11 +1384,13 @@ export class RouterService {
     abortSignal: AbortSignal,
     errors: ErrorInfo[],
     attemptCount: number,
+    client?: ClientConfig,
+    deadline?: RequestDeadline,
   ): Promise<ChatCompletionResponseDto | null> {
     this.logger.warn('All free models failed, attempting fallback to paid model');
 
     try {
-      const fallbackResult = await this.executeFallback(request, abortSignal);
+      const fallbackResult = await this.executeFallback(request, abortSignal, deadline);
       return this.buildSuccessResponse({
         result: fallbackResult.result,
         model: fallbackResult.model,
@@ -619,6 +1398,9 @@ export class RouterService {
         errors,
         fallbackUsed: true,
         parseJson: this.shouldRequestJsonResponse(request),
+        includeReasoning: this.shouldIncludeReasoning(request),
+        client,
+        deadline,
       });
     } catch (error) {
       const fallbackProviderName =
@@ -633,4 +1415,113 @@ export class RouterService {
       return null;
     }
   }
+
+  /**
+   * Embeddings on routing.embeddingsFallback (per-request fallback_provider / fallback_model
+   * override it). Returns null when no fallback is configured or it failed.
+   */
+  private async tryEmbeddingsFallback(params: {
+    request: EmbeddingsRequestDto;
+    abortSignal: AbortSignal;
+    buildParams: AttemptParamsBuilder<EmbeddingsParams>;
+    errors: ErrorInfo[];
+    attemptCount: number;
+    client?: ClientConfig;
+    deadline: RequestDeadline;
+  }): Promise<EmbeddingsResponseDto | null> {
+    const { request, abortSignal, buildParams, errors, attemptCount, client, deadline } = params;
+    const fallback = this.config.routing.embeddingsFallback;
+    if (!fallback?.enabled) {
+      return null;
+    }
+
+    const fallbackModel = {
+      name: request.fallback_model ?? fallback.model,
+      provider: request.fallback_provider ?? fallback.provider,
+    } as ModelDefinition;
+
+    if (!this.isFallbackAllowedForClient(fallbackModel.provider, client)) {
+      return null;
+    }
+
+    this.logger.warn('All embedding models failed, attempting fallback model');
+
+    try {
+      const provider = this.providersMap.get(fallbackModel.provider);
+      if (!provider) {
+        throw new ProviderNotFoundError(fallbackModel.provider);
+      }
+
+      const result = await provider.embeddings(
+        buildParams(fallbackModel.name, abortSignal, this.getAttemptTimeoutSecs(request, deadline)),
+      );
+      this.stateService.recordFallbackUsage();
+
+      return this.buildEmbeddingsResponse({
+        result,
+        model: fallbackModel,
+        request,
+        attemptCount: attemptCount + 1,
+        errors,
+        fallbackUsed: true,
+        client,
+        deadline,
+      });
+    } catch (error) {
+      if (abortSignal.aborted || ErrorExtractor.isAbortError(error)) {
+        throw this.handleAbortError();
+      }
+
+      const fallbackError = ErrorExtractor.extractErrorInfo(error, fallbackModel);
+      this.logger.error(`Fallback embedding model failed: ${fallbackError.error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Build embeddings response with metadata and record client token usage
+   */
+  private buildEmbeddingsResponse(params: {
+    result: EmbeddingsResult;
+    model: ModelDefinition;
+    request: EmbeddingsRequestDto;
+    attemptCount: number;
+    errors: ErrorInfo[];
+    fallbackUsed: boolean;
+    client?: ClientConfig;
+    deadline: RequestDeadline;
+  }): EmbeddingsResponseDto {
+    const { result, model, request, attemptCount, errors, fallbackUsed, client, deadline } = params;
+
+    if (client) {
+      this.rateLimiterService.recordClientTokens(client, result.usage.totalTokens);
+    }
+
+    return {
+      object: 'list',
+      data: result.embeddings.map((embedding, index) => ({
+        object: 'embedding',
+        index,
+        // base64 of little-endian float32 values, as returned by OpenAI
+        embedding:
+          request.encoding_format === 'base64'
+            ? Buffer.from(new Float32Array(embedding).buffer).toString('base64')
+            : embedding,
+      })),
+      model: result.model,
+      usage: {
+        prompt_tokens: result.usage.promptTokens,
+        total_tokens: result.usage.totalTokens,
+      },
+      _router: {
+        provider: model.provider,
+        model_name: model.name,
+        attempts: attemptCount,
+        fallback_used: fallbackUsed,
+        errors: errors.length > 0 ? errors : undefined,
+        client: client?.name,
+        budget_remaining_ms: deadline.remainingMs(),
+      },
+    };
+  }
 }
@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import type { ChatCompletionRequestDto } from '../dto/chat-completion.request.dto.js';
+import type { ChatCompletionResponseDto } from '../dto/chat-completion.response.dto.js';
+import type { CompletionRequestDto } from '../dto/completion.request.dto.js';
+import type { CompletionResponseDto } from '../dto/completion.response.dto.js';
+import type { SseFormatter } from '../interfaces/sse-formatter.interface.js';
+
+/**
+ * Converts legacy text completion requests into chat completion requests
+ * and chat completion results back into the text completion format
+ */
+@Injectable()
+export class CompletionConverterService {
+  /**
+   * Build a chat completion request with a single user message.
+   * With suffix, the model is asked to write the text between prompt and suffix.
+   */
+  public toChatRequest(request: CompletionRequestDto): ChatCompletionRequestDto {
+    const { prompt: _prompt, suffix, echo: _echo, ...options } = request;
+    const prompt = this.getPrompt(request);
+
+    const content =
+      suffix === undefined
+        ? prompt
+        : 'Write the text that goes between the prefix and the suffix. ' +
+          `Reply with that text only.\n\n<prefix>${prompt}</prefix>\n<suffix>${suffix}</suffix>`;
+
+    return { ...options, messages: [{ role: 'user', content }] };
+  }
+
+  public toCompletionResponse(
+    response: ChatCompletionResponseDto,
+    request: CompletionRequestDto,
+  ): CompletionResponseDto {
+    const echo = request.echo ? this.getPrompt(request) : '';
+
+    return {
+      id: response.id,
+      object: 'text_completion',
+      created: response.created,
+      model: response.model,
+      choices: response.choices.map(choice => ({
+        index: choice.index,
+        text: echo + (choice.message.content ?? ''),
+        logprobs: null,
+        finish_reason: choice.finish_reason,
+      })),
+      usage: response.usage,
+      _router: response._router,
+    };
+  }
+
+  /**
+   * SSE events of text completion chunks. With echo, the prompt is prepended to the first chunk.
+   */
+  public createSseFormatter(request: CompletionRequestDto): SseFormatter {
+    let echo = request.echo ? this.getPrompt(request) : '';
+
+    return {
+      chunk: chunk => {
+        const sseData: Record<string, unknown> = {
+          id: chunk.id,
+          object: 'text_completion',
+          created: Math.floor(Date.now() / 1000),
+          model: chunk.model,
+        };
+
+        if (chunk.usage) {
+          // Final usage chunk (stream_options.include_usage) has no choices
+          sseData.choices = [];
+          sseData.usage = {
+            prompt_tokens: chunk.usage.promptTokens,
+            completion_tokens: chunk.usage.completionTokens,
+            total_tokens: chunk.usage.totalTokens,
+          };
+        } else {
+          sseData.choices = [
+            {
+              index: 0,
+              text: echo + (chunk.delta.content ?? ''),
+              logprobs: null,
+              finish_reason: chunk.finishReason ?? null,
+            },
+          ];
+          echo = '';
+        }
+
+        if (chunk._router) {
+          sseData._router = chunk._router;
+        }
+
+        return `data: ${JSON.stringify(sseData)}\n\n`;
+      },
+      done: () => 'data: [DONE]\n\n',
+      error: event => `data: ${JSON.stringify(event)}\n\n`,
+    };
+  }
+
+  private getPrompt(request: CompletionRequestDto): string {
+    return Array.isArray(request.prompt) ? request.prompt[0] : request.prompt;
+  }
+}
@@ -0,0 +1,386 @@
+import { Injectable } from '@nestjs/common';
+import { ModelsService } from '../../models/models.service.js';
+import { parseModelInput, parseTagAlias } from '../../selector/utils/model-parser.js';
+import type {
+  ChatCompletionRequestDto,
+  ChatContentPartDto,
+  ChatMessageDto,
+  ToolDto,
+} from '../dto/chat-completion.request.dto.js';
+import type {
+  ChatCompletionChoice,
+  ChatCompletionResponseDto,
+} from '../dto/chat-completion.response.dto.js';
+import type {
+  AnthropicImageBlock,
+  AnthropicMessageDto,
+  AnthropicTextBlock,
+  AnthropicToolChoiceDto,
+  MessagesRequestDto,
+} from '../dto/messages.request.dto.js';
+import type {
+  AnthropicResponseBlock,
+  AnthropicStopReason,
+  MessagesResponseDto,
+} from '../dto/messages.response.dto.js';
+import type { ToolCall, ToolChoice } from '../../providers/interfaces/tools.interface.js';
+import type { ChatCompletionStreamChunk } from '../../providers/interfaces/provider.interface.js';
+import type { SseFormatter } from '../interfaces/sse-formatter.interface.js';
+
+/**
+ * Anthropic error types of stream error events
+ */
+const STREAM_ERROR_TYPES: Record<string, string> = {
+  invalid_request_error: 'invalid_request_error',
+  rate_limit_error: 'rate_limit_error',
+  server_error: 'api_error',
+};
+
+/**
+ * Converts Anthropic Messages API requests into chat completion requests
+ * and chat completion results back into Anthropic messages and stream events
+ */
+@Injectable()
+export class MessagesConverterService {
+  constructor(private readonly modelsService: ModelsService) {}
+
+  /**
+   * Build a chat completion request from system prompt and content blocks.
+   * tool_use blocks become assistant tool calls, tool_result blocks tool messages.
+   */
+  public toChatRequest(request: MessagesRequestDto): ChatCompletionRequestDto {
+    const {
+      messages: input,
+      system,
+      stop_sequences,
+      metadata,
+      thinking,
+      tools,
+      tool_choice,
+      model,
+      ...options
+    } = request;
+    const messages: ChatMessageDto[] = [];
+
+    if (system !== undefined) {
+      messages.push({ role: 'system', content: this.joinText(system) });
+    }
+    for (const message of input) {
+      messages.push(...this.toChatMessages(message));
+    }
+
+    return {
+      ...options,
+      model: this.resolveModel(model),
+      messages,
+      stop: stop_sequences,
+      user: metadata?.user_id,
+      reasoning: thinking?.type === 'enabled' ? { max_tokens: thinking.budget_tokens } : undefined,
+      tools: tools?.map(
+        (tool): ToolDto => ({
+          type: 'function',
+          function: {
+            name: tool.name,
+            description: tool.description,
+            // input_schema may omit properties (e.g. tools without input)
+            parameters: { type: 'object', properties: {}, ...tool.input_schema },
+          },
+        }),
+      ),
+      tool_choice: this.toToolChoice(tool_choice),
+      parallel_tool_calls: tool_choice?.disable_parallel_tool_use ? false : undefined,
+      // Usage is always reported in message_delta
+      stream_options: options.stream ? { include_usage: true } : undefined,
+    };
+  }
+
+  public toMessagesResponse(response: ChatCompletionResponseDto): MessagesResponseDto {
+    const choice = response.choices[0];
+    const content: AnthropicResponseBlock[] = [];
+
+    if (choice?.message.content) {
+      content.push({ type: 'text', text: choice.message.content });
+    }
+    for (const toolCall of choice?.message.tool_calls ?? []) {
+      content.push({
+        type: 'tool_use',
+        id: toolCall.id,
+        name: toolCall.function.name,
+        input: this.parseToolInput(toolCall.function.arguments),
+      });
+    }
+
+    return {
+      id: response.id,
+      type: 'message',
+      role: 'assistant',
+      model: response.model,
+      content,
+      stop_reason: this.toStopReason(choice?.finish_reason),
+      stop_sequence: null,
+      usage: {
+        input_tokens: response.usage.prompt_tokens,
+        output_tokens: response.usage.completion_tokens,
+      },
+      _router: response._router,
+    };
+  }
+
+  /**
+   * Anthropic stream events: message_start, content_block_start/delta/stop for text
+   * and tool_use blocks (one block at a time), message_delta with stop reason, usage
+   * and router metadata, and message_stop
+   */
+  public createSseFormatter(): SseFormatter {
+    let started = false;
+    let blockIndex = -1;
+    let openBlock: AnthropicResponseBlock['type'] | undefined;
+    let finishReason: ChatCompletionStreamChunk['finishReason'];
+    let router: ChatCompletionStreamChunk['_router'];
+    let usage = { input_tokens: 0, output_tokens: 0 };
+    const toolBlocks = new Map<number, number>();
+
+    const event = (type: string, data: Record<string, unknown> = {}): string =>
+      `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+
+    const start = (chunk?: ChatCompletionStreamChunk): string => {
+      if (started) {
+        return '';
+      }
+      started = true;
+
+      const message: MessagesResponseDto = {
+        id: chunk?.id ?? '',
+        type: 'message',
+        role: 'assistant',
+        model: chunk?.model ?? '',
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage,
+      };
+
+      return event('message_start', { message });
+    };
+
+    const startBlock = (block: AnthropicResponseBlock): string => {
+      let payload = closeBlock();
+      blockIndex++;
+      openBlock = block.type;
+      payload += event('content_block_start', { index: blockIndex, content_block: block });
+      return payload;
+    };
+
+    const closeBlock = (): string => {
+      if (!openBlock) {
+        return '';
+      }
+      openBlock = undefined;
+      return event('content_block_stop', { index: blockIndex });
+    };
+
+    return {
+      chunk: chunk => {
+        let payload = start(chunk);
+
+        if (chunk._router) {
+          router = { ...router, ...chunk._router };
+        }
+        if (chunk.usage) {
+          usage = {
+            input_tokens: chunk.usage.promptTokens,
+            output_tokens: chunk.usage.completionTokens,
+          };
+        }
+        finishReason = chunk.finishReason ?? finishReason;
+
+        if (chunk.delta.content) {
+          if (openBlock !== 'text') {
+            payload += startBlock({ type: 'text', text: '' });
+          }
+          payload += event('content_block_delta', {
+            index: blockIndex,
+            delta: { type: 'text_delta', text: chunk.delta.content },
+          });
+        }
+
+        for (const delta of chunk.delta.tool_calls ?? []) {
+          if (!toolBlocks.has(delta.index)) {
+            payload += startBlock({
+              type: 'tool_use',
+              id: delta.id ?? '',
+              name: delta.function?.name ?? '',
+              input: {},
+            });
+            toolBlocks.set(delta.index, blockIndex);
+          }
+
+          if (delta.function?.arguments) {
+            payload += event('content_block_delta', {
+              index: toolBlocks.get(delta.index),
+              delta: { type: 'input_json_delta', partial_json: delta.function.arguments },
+            });
+          }
+        }
+
+        return payload;
+      },
+      done: () =>
+        start() +
+        closeBlock() +
+        event('message_delta', {
+          delta: { stop_reason: this.toStopReason(finishReason), stop_sequence: null },
+          usage,
+          _router: router,
+        }) +
+        event('message_stop'),
+      error: ({ error }) =>
+        event('error', {
+          error: { type: STREAM_ERROR_TYPES[error.type] ?? 'api_error', message: error.message },
+        }),
+    };
+  }
+
+  /**
+   * Anthropic clients send their own model ids (e.g. claude-sonnet-4-5).
+   * Ids that are not configured in models.yaml are routed with Smart Strategy instead of failing.
+   * Tag aliases are kept as is.
+   */
+  private resolveModel(model?: string | string[]): string | string[] | undefined {
+    if (typeof model !== 'string' || parseTagAlias(model)) {
+      return model;
+    }
+
+    const { models } = parseModelInput(model);
+    const known = models.some(
+      ref => this.modelsService.findByNameAndProvider(ref.name, ref.provider).length > 0,
+    );
+
+    return known ? model : undefined;
+  }
+
+  private toChatMessages(message: AnthropicMessageDto): ChatMessageDto[] {
+    if (typeof message.content === 'string') {
+      return [{ role: message.role, content: message.content }];
+    }
+
+    const result: ChatMessageDto[] = [];
+    const parts: Array<AnthropicTextBlock | AnthropicImageBlock> = [];
+    const toolCalls: ToolCall[] = [];
+
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        // Tool results must directly follow the assistant message with the calls
+        result.push({
+          role: 'tool',
+          tool_call_id: block.tool_use_id,
+          content: this.joinText(block.content ?? ''),
+        });
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input) },
+        });
+      } else if (block.type === 'text' || block.type === 'image') {
+        parts.push(block);
+      }
+    }
+
+    if (message.role === 'assistant') {
+      const text = this.joinText(parts);
+      if (text || toolCalls.length > 0) {
+        result.push({
+          role: 'assistant',
+          content: text || null,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        });
+      }
+    } else if (parts.length > 0) {
+      result.push({ role: 'user', content: this.toUserContent(parts) });
+    }
+
+    return result;
+  }
+
+  /**
+   * Text-only content is joined into a string, images are sent as image_url parts
+   */
+  private toUserContent(
+    parts: Array<AnthropicTextBlock | AnthropicImageBlock>,
+  ): ChatMessageDto['content'] {
+    if (parts.every(part => part.type === 'text')) {
+      return this.joinText(parts);
+    }
+
+    return parts.map(
+      (part): ChatContentPartDto =>
+        part.type === 'text'
+          ? { type: 'text', text: part.text }
+          : {
+              type: 'image_url',
+              image_url: {
+                url:
+                  part.source.type === 'url'
+                    ? part.source.url
+                    : `data:${part.source.media_type};base64,${part.source.data}`,
+              },
+            },
+    );
+  }
+
+  /**
+   * Join text blocks, images are dropped
+   */
+  private joinText(content: string | Array<AnthropicTextBlock | AnthropicImageBlock>): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    return content
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('\n');
+  }
+
+  private toToolChoice(toolChoice?: AnthropicToolChoiceDto): ToolChoice | undefined {
+    if (!toolChoice) {
+      return undefined;
+    }
+    if (toolChoice.type === 'tool') {
+      return { type: 'function', function: { name: toolChoice.name ?? '' } };
+    }
+    if (toolChoice.type === 'any') {
+      return 'required';
+    }
+
+    return toolChoice.type;
+  }
+
+  private toStopReason(
+    finishReason: ChatCompletionChoice['finish_reason'] | undefined,
+  ): AnthropicStopReason {
+    switch (finishReason) {
+      case 'length':
+        return 'max_tokens';
+      case 'tool_calls':
+        return 'tool_use';
+      case 'content_filter':
+        return 'refusal';
+      default:
+        return 'end_turn';
+    }
+  }
+
+  /**
+   * tool_use input must be an object, malformed arguments of free models become an empty one
+   */
+  private parseToolInput(args: string): unknown {
+    try {
+      const input: unknown = JSON.parse(args);
+      return typeof input === 'object' && input !== null ? input : {};
+    } catch {
+      return {};
+    }
+  }
+}
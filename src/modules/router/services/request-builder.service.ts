@@ -1,6 +1,16 @@
 import { Injectable } from '@nestjs/common';
 import type { ChatCompletionRequestDto } from '../dto/chat-completion.request.dto.js';
-import type { ChatCompletionParams } from '../../providers/interfaces/provider.interface.js';
+import type {
+  ChatCompletionParams,
+  ExtraParams,
+} from '../../providers/interfaces/provider.interface.js';
+
+/**
+ * Instruction sent after the partial assistant message of a resumed stream
+ */
+const RESUME_INSTRUCTION =
+  'Your previous response was cut off. Continue exactly from where you stopped, ' +
+  'without repeating any of the text above and without any preamble.';
 
 @Injectable()
 export class RequestBuilderService {
@@ -13,10 +23,51 @@ export class RequestBuilderService {
     );
   }
 
+  /**
+   * Request asking the model to continue a partial assistant message
+   * that was already streamed to the client by another model.
+   * Most models answer a trailing assistant message from scratch, so an explicit
+   * user instruction to continue follows it.
+   */
+  public buildResumeRequest(
+    request: ChatCompletionRequestDto,
+    partialContent: string,
+  ): ChatCompletionRequestDto {
+    return {
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: 'assistant', content: partialContent },
+        { role: 'user', content: RESUME_INSTRUCTION },
+      ],
+    };
+  }
+
+  /**
+   * Additional OpenAI parameters set in the request (undefined when none are set)
+   */
+  public buildExtraParams(request: ChatCompletionRequestDto): ExtraParams | undefined {
+    const extraParams: ExtraParams = {
+      seed: request.seed,
+      logit_bias: request.logit_bias,
+      logprobs: request.logprobs,
+      top_logprobs: request.top_logprobs,
+      user: request.user,
+      parallel_tool_calls: request.parallel_tool_calls,
+      min_p: request.min_p,
+      top_k: request.top_k,
+      repetition_penalty: request.repetition_penalty,
+    };
+
+    const entries = Object.entries(extraParams).filter(([, value]) => value !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+
   public buildChatCompletionParams(
     request: ChatCompletionRequestDto,
     modelId: string,
     abortSignal?: AbortSignal,
+    timeoutSecs?: number,
   ): ChatCompletionParams {
     return {
       model: modelId,
@@ -36,7 +87,17 @@ export class RequestBuilderService {
       presencePenalty: request.presence_penalty,
       stop: request.stop,
       responseFormat: request.response_format,
-      timeoutSecs: request.timeout_secs,
+      timeoutSecs: timeoutSecs ?? request.timeout_secs,
+      includeUsage: request.stream_options?.include_usage,
+      reasoning:
+        request.reasoning_effort || request.reasoning
+          ? {
+              effort: request.reasoning_effort,
+              maxTokens: request.reasoning?.max_tokens,
+              exclude: request.reasoning?.exclude,
+            }
+          : undefined,
+      extraParams: this.buildExtraParams(request),
       abortSignal,
     };
   }
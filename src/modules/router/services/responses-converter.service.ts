@@ -0,0 +1,360 @@
+import { Injectable } from '@nestjs/common';
+import type {
+  ChatCompletionRequestDto,
+  ChatContentPartDto,
+  ChatMessageDto,
+  ResponseFormatDto,
+  ToolDto,
+} from '../dto/chat-completion.request.dto.js';
+import type { ChatCompletionResponseDto } from '../dto/chat-completion.response.dto.js';
+import type {
+  ResponsesContentPart,
+  ResponsesRequestDto,
+  ResponsesTextFormatDto,
+  ResponsesToolChoice,
+} from '../dto/responses.request.dto.js';
+import type {
+  ResponsesFunctionCallItem,
+  ResponsesMessageItem,
+  ResponsesOutputItem,
+  ResponsesResponseDto,
+} from '../dto/responses.response.dto.js';
+import type { ToolChoice } from '../../providers/interfaces/tools.interface.js';
+import type { ChatCompletionStreamChunk } from '../../providers/interfaces/provider.interface.js';
+import type { SseFormatter } from '../interfaces/sse-formatter.interface.js';
+
+/**
+ * Converts Responses API requests into chat completion requests
+ * and chat completion results back into Responses output items and stream events
+ */
+@Injectable()
+export class ResponsesConverterService {
+  /**
+   * Build a chat completion request from instructions and input items.
+   * Function calls of previous turns become assistant tool calls, their outputs tool messages.
+   */
+  public toChatRequest(request: ResponsesRequestDto): ChatCompletionRequestDto {
+    const {
+      input,
+      instructions,
+      max_output_tokens,
+      text,
+      reasoning,
+      tools,
+      tool_choice,
+      ...options
+    } = request;
+    const messages: ChatMessageDto[] = [];
+
+    if (instructions) {
+      messages.push({ role: 'system', content: instructions });
+    }
+
+    if (typeof input === 'string') {
+      messages.push({ role: 'user', content: input });
+    } else {
+      for (const item of input) {
+        if (item.type === 'function_call') {
+          const toolCall = {
+            id: item.call_id,
+            type: 'function',
+            function: { name: item.name, arguments: item.arguments },
+          };
+          const last = messages.at(-1);
+
+          // Parallel calls of one turn share a single assistant message
+          if (last?.role === 'assistant') {
+            last.tool_calls = [...(last.tool_calls ?? []), toolCall];
+          } else {
+            messages.push({ role: 'assistant', content: null, tool_calls: [toolCall] });
+          }
+        } else if (item.type === 'function_call_output') {
+          messages.push({ role: 'tool', tool_call_id: item.call_id, content: item.output });
+        } else if (item.type !== 'reasoning') {
+          messages.push({
+            role: item.role === 'developer' ? 'system' : item.role,
+            content: this.toChatContent(item.content),
+          });
+        }
+      }
+    }
+
+    return {
+      ...options,
+      messages,
+      max_tokens: max_output_tokens,
+      response_format: this.toResponseFormat(text?.format),
+      reasoning_effort: reasoning?.effort,
+      tools: tools?.map(
+        (tool): ToolDto => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        }),
+      ),
+      tool_choice: this.toToolChoice(tool_choice),
+      // Usage is always reported in response.completed
+      stream_options: options.stream ? { include_usage: true } : undefined,
+    };
+  }
+
+  public toResponsesResponse(response: ChatCompletionResponseDto): ResponsesResponseDto {
+    const choice = response.choices[0];
+    const output: ResponsesOutputItem[] = [];
+
+    if (choice?.message.content) {
+      output.push(this.createMessageItem(response.id, choice.message.content, 'completed'));
+    }
+    for (const toolCall of choice?.message.tool_calls ?? []) {
+      output.push({
+        type: 'function_call',
+        id: `fc_${toolCall.id}`,
+        call_id: toolCall.id,
+        name: toolCall.function.name,
+        arguments: toolCall.function.arguments,
+        status: 'completed',
+      });
+    }
+
+    return {
+      id: response.id,
+      object: 'response',
+      created_at: response.created,
+      ...this.getStatus(choice?.finish_reason),
+      model: response.model,
+      output,
+      usage: {
+        input_tokens: response.usage.prompt_tokens,
+        output_tokens: response.usage.completion_tokens,
+        total_tokens: response.usage.total_tokens,
+      },
+      _router: response._router,
+    };
+  }
+
+  /**
+   * Responses stream events: response.created, output item and content part lifecycle,
+   * response.output_text.delta and response.function_call_arguments.delta while streaming,
+   * and response.completed (or response.incomplete) with usage and router metadata at the end
+   */
+  public createSseFormatter(): SseFormatter {
+    let sequenceNumber = 0;
+    let response: ResponsesResponseDto | undefined;
+    let finishReason: ChatCompletionStreamChunk['finishReason'];
+    let router: ChatCompletionStreamChunk['_router'];
+    let message: ResponsesMessageItem | undefined;
+    const toolCalls = new Map<number, ResponsesFunctionCallItem>();
+
+    const event = (type: string, data: Record<string, unknown>): string =>
+      `event: ${type}\ndata: ${JSON.stringify({ type, sequence_number: sequenceNumber++, ...data })}\n\n`;
+
+    const start = (chunk?: ChatCompletionStreamChunk): string => {
+      if (response) {
+        return '';
+      }
+
+      response = {
+        id: chunk?.id ?? '',
+        object: 'response',
+        created_at: Math.floor(Date.now() / 1000),
+        status: 'in_progress',
+        incomplete_details: null,
+        model: chunk?.model ?? '',
+        output: [],
+        usage: null,
+      };
+
+      return event('response.created', { response });
+    };
+
+    return {
+      chunk: chunk => {
+        let payload = start(chunk);
+        const current = response as ResponsesResponseDto;
+
+        if (chunk._router) {
+          router = { ...router, ...chunk._router };
+        }
+        if (chunk.usage) {
+          current.usage = {
+            input_tokens: chunk.usage.promptTokens,
+            output_tokens: chunk.usage.completionTokens,
+            total_tokens: chunk.usage.totalTokens,
+          };
+        }
+        finishReason = chunk.finishReason ?? finishReason;
+
+        if (chunk.delta.content) {
+          if (!message) {
+            message = this.createMessageItem(current.id, '', 'in_progress');
+            current.output.push(message);
+            payload +=
+              event('response.output_item.added', {
+                output_index: current.output.length - 1,
+                item: { ...message, content: [] },
+              }) +
+              event('response.content_part.added', {
+                item_id: message.id,
+                output_index: current.output.length - 1,
+                content_index: 0,
+                part: { type: 'output_text', text: '', annotations: [] },
+              });
+          }
+
+          message.content[0].text += chunk.delta.content;
+          payload += event('response.output_text.delta', {
+            item_id: message.id,
+            output_index: current.output.indexOf(message),
+            content_index: 0,
+            delta: chunk.delta.content,
+          });
+        }
+
+        for (const delta of chunk.delta.tool_calls ?? []) {
+          let item = toolCalls.get(delta.index);
+          if (!item) {
+            item = {
+              type: 'function_call',
+              id: `fc_${delta.id ?? delta.index}`,
+              call_id: delta.id ?? '',
+              name: delta.function?.name ?? '',
+              arguments: '',
+              status: 'in_progress',
+            };
+            toolCalls.set(delta.index, item);
+            current.output.push(item);
+            payload += event('response.output_item.added', {
+              output_index: current.output.length - 1,
+              item,
+            });
+          }
+
+          if (delta.function?.arguments) {
+            item.arguments += delta.function.arguments;
+            payload += event('response.function_call_arguments.delta', {
+              item_id: item.id,
+              output_index: current.output.indexOf(item),
+              delta: delta.function.arguments,
+            });
+          }
+        }
+
+        return payload;
+      },
+      done: () => {
+        let payload = start();
+        const current = response as ResponsesResponseDto;
+
+        current.output.forEach((item, outputIndex) => {
+          item.status = 'completed';
+
+          if (item.type === 'message') {
+            payload +=
+              event('response.output_text.done', {
+                item_id: item.id,
+                output_index: outputIndex,
+                content_index: 0,
+                text: item.content[0].text,
+              }) +
+              event('response.content_part.done', {
+                item_id: item.id,
+                output_index: outputIndex,
+                content_index: 0,
+                part: item.content[0],
+              });
+          } else {
+            payload += event('response.function_call_arguments.done', {
+              item_id: item.id,
+              output_index: outputIndex,
+              arguments: item.arguments,
+            });
+          }
+
+          payload += event('response.output_item.done', { output_index: outputIndex, item });
+        });
+
+        Object.assign(current, this.getStatus(finishReason));
+
+        return (
+          payload +
+          event(`response.${current.status}`, { response: { ...current, _router: router } })
+        );
+      },
+      error: ({ error }) =>
+        event('error', {
+          code: error.code ?? null,
+          message: error.message,
+          param: null,
+          errors: error.errors,
+        }),
+    };
+  }
+
+  private toChatContent(content: string | ResponsesContentPart[]): ChatMessageDto['content'] {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    // Text-only content is joined, so it stays valid for assistant messages of any provider
+    if (content.every(part => part.type !== 'input_image')) {
+      return content.map(part => part.text).join('');
+    }
+
+    return content.map(
+      (part): ChatContentPartDto =>
+        part.type === 'input_image'
+          ? { type: 'image_url', image_url: { url: part.image_url ?? '', detail: part.detail } }
+          : { type: 'text', text: part.text },
+    );
+  }
+
+  private toResponseFormat(format?: ResponsesTextFormatDto): ResponseFormatDto | undefined {
+    if (format?.type !== 'json_schema') {
+      return format && { type: format.type };
+    }
+
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: format.name,
+        description: format.description,
+        schema: format.schema,
+        strict: format.strict,
+      },
+    };
+  }
+
+  private toToolChoice(toolChoice?: ResponsesToolChoice): ToolChoice | undefined {
+    if (typeof toolChoice !== 'object') {
+      return toolChoice;
+    }
+
+    return { type: 'function', function: { name: toolChoice.name } };
+  }
+
+  private createMessageItem(
+    responseId: string,
+    text: string,
+    status: ResponsesMessageItem['status'],
+  ): ResponsesMessageItem {
+    return {
+      type: 'message',
+      id: `msg_${responseId}`,
+      status,
+      role: 'assistant',
+      content: [{ type: 'output_text', text, annotations: [] }],
+    };
+  }
+
+  private getStatus(
+    finishReason: ChatCompletionStreamChunk['finishReason'],
+  ): Pick<ResponsesResponseDto, 'status' | 'incomplete_details'> {
+    if (finishReason === 'length') {
+      return { status: 'incomplete', incomplete_details: { reason: 'max_output_tokens' } };
+    }
+    if (finishReason === 'content_filter') {
+      return { status: 'incomplete', incomplete_details: { reason: 'content_filter' } };
+    }
+
+    return { status: 'completed', incomplete_details: null };
+  }
+}
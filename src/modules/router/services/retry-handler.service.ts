@@ -1,18 +1,61 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { RETRY_JITTER_PERCENT } from '../../../common/constants/retry.constants.js';
+import { ErrorExtractor } from '../../../common/utils/error-extractor.util.js';
+import type { RetryBackoffStrategy } from '../../../config/router-config.interface.js';
+import type { RequestDeadline } from '../utils/request-deadline.js';
 
 export interface RetryConfig {
   maxRetries: number;
   baseDelay: number;
 }
 
+export interface BackoffPolicy {
+  strategy: RetryBackoffStrategy;
+  maxDelay: number;
+}
+
 @Injectable()
 export class RetryHandlerService {
   private readonly logger = new Logger(RetryHandlerService.name);
 
-  public calculateRetryDelay(baseDelay: number): number {
-    const jitter = (Math.random() - 0.5) * 2 * ((baseDelay * RETRY_JITTER_PERCENT) / 100);
-    return Math.max(0, Math.round(baseDelay + jitter));
+  /**
+   * Calculate delay before a retry
+   * @param baseDelay Configured retry delay (ms)
+   * @param attempt Retry number, starting from 1
+   * @param policy Backoff policy (fixed delay when not set)
+   * @param previousDelay Delay before the previous retry (used by decorrelated-jitter)
+   */
+  public calculateRetryDelay(
+    baseDelay: number,
+    attempt = 1,
+    policy?: BackoffPolicy,
+    previousDelay?: number,
+  ): number {
+    let delay: number;
+
+    switch (policy?.strategy) {
+      case 'exponential':
+        delay = this.applyJitter(baseDelay * 2 ** (attempt - 1));
+        break;
+      case 'decorrelated-jitter': {
+        const upper = Math.max(baseDelay, (previousDelay ?? baseDelay) * 3);
+        delay = baseDelay + Math.random() * (upper - baseDelay);
+        break;
+      }
+      default:
+        delay = this.applyJitter(baseDelay);
+    }
+
+    if (policy) {
+      delay = Math.min(delay, policy.maxDelay);
+    }
+
+    return Math.max(0, Math.round(delay));
+  }
+
+  private applyJitter(delay: number): number {
+    const jitter = (Math.random() - 0.5) * 2 * ((delay * RETRY_JITTER_PERCENT) / 100);
+    return delay + jitter;
   }
 
   public async sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
@@ -44,11 +87,33 @@ export class RetryHandlerService {
     operation: () => Promise<T>;
     maxRetries: number;
     retryDelay: number;
+    backoff?: BackoffPolicy;
+    /**
+     * Maximum wait advised by the provider (Retry-After). A longer advised wait
+     * fails immediately so the caller can switch to another model.
+     */
+    maxRetryAfterDelay?: number;
+    /**
+     * Total request deadline. Retries that can't start before it are skipped.
+     */
+    deadline?: RequestDeadline;
     shouldRetry: (error: unknown) => boolean;
     onRetry?: (attempt: number, error: unknown) => void;
     abortSignal?: AbortSignal;
   }): Promise<T> {
-    const { operation, maxRetries, retryDelay, shouldRetry, onRetry, abortSignal } = params;
+    const {
+      operation,
+      maxRetries,
+      retryDelay,
+      backoff,
+      maxRetryAfterDelay,
+      deadline,
+      shouldRetry,
+      onRetry,
+      abortSignal,
+    } = params;
+
+    let previousDelay: number | undefined;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
@@ -64,7 +129,27 @@ export class RetryHandlerService {
           throw error;
         }
 
-        const delay = this.calculateRetryDelay(retryDelay);
+        const retryAfterMs = ErrorExtractor.extractRetryAfterMs(error);
+        if (
+          retryAfterMs !== undefined &&
+          maxRetryAfterDelay !== undefined &&
+          retryAfterMs > maxRetryAfterDelay
+        ) {
+          this.logger.debug(
+            `Provider advised retry after ${retryAfterMs}ms (max ${maxRetryAfterDelay}ms), not retrying`,
+          );
+          throw error;
+        }
+
+        const delay =
+          retryAfterMs ?? this.calculateRetryDelay(retryDelay, attempt + 1, backoff, previousDelay);
+        previousDelay = delay;
+
+        if (deadline && !deadline.canAttempt(delay)) {
+          this.logger.debug(`Retry after ${delay}ms does not fit into request deadline`);
+          throw error;
+        }
+
         onRetry?.(attempt + 1, error);
 
         await this.sleep(delay, abortSignal);
@@ -0,0 +1,39 @@
+import { MIN_ATTEMPT_BUDGET_MS } from '../../../common/constants/retry.constants.js';
+
+/**
+ * Total time budget of a request across all retries, model switches and fallback.
+ * Without a total timeout every check passes and nothing is limited.
+ */
+export class RequestDeadline {
+  private readonly expiresAt?: number;
+
+  constructor(public readonly totalTimeoutSecs?: number) {
+    if (totalTimeoutSecs) {
+      this.expiresAt = Date.now() + totalTimeoutSecs * 1000;
+    }
+  }
+
+  /**
+   * Remaining budget in milliseconds (undefined when no total timeout is set)
+   */
+  public remainingMs(): number | undefined {
+    return this.expiresAt === undefined ? undefined : Math.max(0, this.expiresAt - Date.now());
+  }
+
+  /**
+   * Check if another attempt can start after waiting `delayMs`
+   */
+  public canAttempt(delayMs = 0): boolean {
+    const remaining = this.remainingMs();
+    return remaining === undefined || remaining - delayMs >= MIN_ATTEMPT_BUDGET_MS;
+  }
+
+  /**
+   * Limit a provider call timeout by the remaining budget
+   * @returns Timeout in seconds, or undefined when no total timeout is set
+   */
+  public limitTimeoutSecs(timeoutSecs: number): number | undefined {
+    const remaining = this.remainingMs();
+    return remaining === undefined ? undefined : Math.min(timeoutSecs, remaining / 1000);
+  }
+}
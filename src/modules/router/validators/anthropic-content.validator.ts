@@ -0,0 +1,135 @@
+import {
+  registerDecorator,
+  type ValidationOptions,
+  type ValidationArguments,
+} from 'class-validator';
+
+/**
+ * Check a text block (`cache_control` and other block options are ignored)
+ */
+function isTextBlock(block: Record<string, unknown>): boolean {
+  return block.type === 'text' && typeof block.text === 'string';
+}
+
+/**
+ * Check an image block with base64 or URL source
+ */
+function isImageBlock(block: Record<string, unknown>): boolean {
+  if (block.type !== 'image' || typeof block.source !== 'object' || block.source === null) {
+    return false;
+  }
+
+  const source = block.source as Record<string, unknown>;
+  if (source.type === 'base64') {
+    return typeof source.media_type === 'string' && typeof source.data === 'string';
+  }
+
+  return source.type === 'url' && typeof source.url === 'string';
+}
+
+/**
+ * Check a content block of an Anthropic message
+ */
+function isValidContentBlock(block: unknown): boolean {
+  if (typeof block !== 'object' || block === null) {
+    return false;
+  }
+
+  const b = block as Record<string, unknown>;
+  switch (b.type) {
+    case 'text':
+      return isTextBlock(b);
+    case 'image':
+      return isImageBlock(b);
+    case 'tool_use':
+      return (
+        typeof b.id === 'string' &&
+        typeof b.name === 'string' &&
+        typeof b.input === 'object' &&
+        b.input !== null
+      );
+    case 'tool_result':
+      return (
+        typeof b.tool_use_id === 'string' &&
+        (b.content === undefined ||
+          typeof b.content === 'string' ||
+          (Array.isArray(b.content) &&
+            b.content.every(
+              item =>
+                typeof item === 'object' &&
+                item !== null &&
+                (isTextBlock(item as Record<string, unknown>) ||
+                  isImageBlock(item as Record<string, unknown>)),
+            )))
+      );
+    case 'thinking':
+    case 'redacted_thinking':
+      // Thinking blocks of previous responses are accepted and dropped
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Custom validator for message content of Anthropic Messages API requests
+ * Validates that content is a string or an array of text, image, tool_use,
+ * tool_result or thinking blocks
+ */
+export function IsValidAnthropicContent(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'isValidAnthropicContent',
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown): boolean {
+          if (typeof value === 'string') {
+            return true;
+          }
+
+          return Array.isArray(value) && value.every(isValidContentBlock);
+        },
+        defaultMessage(args: ValidationArguments): string {
+          return `${args.property} must be a string or an array of text, image, tool_use or tool_result blocks`;
+        },
+      },
+    });
+  };
+}
+
+/**
+ * Custom validator for the system field of Anthropic Messages API requests
+ * Validates that system is a string or an array of text blocks
+ */
+export function IsValidAnthropicSystem(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'isValidAnthropicSystem',
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown): boolean {
+          if (typeof value === 'string') {
+            return true;
+          }
+
+          return (
+            Array.isArray(value) &&
+            value.every(
+              block =>
+                typeof block === 'object' &&
+                block !== null &&
+                isTextBlock(block as Record<string, unknown>),
+            )
+          );
+        },
+        defaultMessage(args: ValidationArguments): string {
+          return `${args.property} must be a string or an array of text blocks`;
+        },
+      },
+    });
+  };
+}
@@ -0,0 +1,42 @@
+import {
+  registerDecorator,
+  type ValidationOptions,
+  type ValidationArguments,
+} from 'class-validator';
+
+/**
+ * Maximum number of texts in a single embeddings request (OpenAI limit)
+ */
+const MAX_INPUT_ITEMS = 2048;
+
+/**
+ * Custom validator for the input field of embeddings requests
+ * Validates that input is a non-empty string or a non-empty array of non-empty strings
+ */
+export function IsValidEmbeddingsInput(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'isValidEmbeddingsInput',
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown): boolean {
+          if (typeof value === 'string') {
+            return value.length > 0;
+          }
+
+          return (
+            Array.isArray(value) &&
+            value.length > 0 &&
+            value.length <= MAX_INPUT_ITEMS &&
+            value.every(item => typeof item === 'string' && item.length > 0)
+          );
+        },
+        defaultMessage(args: ValidationArguments): string {
+          return `${args.property} must be a non-empty string or an array of 1-${MAX_INPUT_ITEMS} non-empty strings`;
+        },
+      },
+    });
+  };
+}
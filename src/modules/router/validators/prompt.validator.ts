@@ -0,0 +1,37 @@
+import {
+  registerDecorator,
+  type ValidationOptions,
+  type ValidationArguments,
+} from 'class-validator';
+
+/**
+ * Custom validator for the prompt field of text completions
+ * Validates that prompt is a string or an array with a single string
+ * (only a single choice is supported, so batched prompts are rejected)
+ */
+export function IsValidPrompt(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'isValidPrompt',
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown): boolean {
+          if (typeof value === 'string') {
+            return true;
+          }
+
+          return Array.isArray(value) && value.length === 1 && typeof value[0] === 'string';
+        },
+        defaultMessage(args: ValidationArguments): string {
+          if (Array.isArray(args.value) && args.value.length > 1) {
+            return `${args.property} must contain a single string: batched prompts are not supported, send one request per prompt`;
+          }
+
+          return `${args.property} must be a string or an array with a single string`;
+        },
+      },
+    });
+  };
+}
@@ -0,0 +1,88 @@
+import {
+  registerDecorator,
+  type ValidationOptions,
+  type ValidationArguments,
+} from 'class-validator';
+
+/**
+ * Check a content part of a Responses API message item
+ */
+function isValidContentPart(part: unknown): boolean {
+  if (typeof part !== 'object' || part === null) {
+    return false;
+  }
+
+  const p = part as Record<string, unknown>;
+  switch (p.type) {
+    case 'input_text':
+    case 'output_text':
+      return typeof p.text === 'string';
+    case 'input_image':
+      return (
+        typeof p.image_url === 'string' &&
+        (p.detail === undefined || ['auto', 'high', 'low'].includes(p.detail as string))
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check a single Responses API input item
+ */
+function isValidInputItem(item: unknown): boolean {
+  if (typeof item !== 'object' || item === null) {
+    return false;
+  }
+
+  const i = item as Record<string, unknown>;
+  switch (i.type ?? 'message') {
+    case 'message':
+      return (
+        ['user', 'assistant', 'system', 'developer'].includes(i.role as string) &&
+        (typeof i.content === 'string' ||
+          (Array.isArray(i.content) && i.content.every(isValidContentPart)))
+      );
+    case 'function_call':
+      return (
+        typeof i.call_id === 'string' &&
+        typeof i.name === 'string' &&
+        typeof i.arguments === 'string'
+      );
+    case 'function_call_output':
+      return typeof i.call_id === 'string' && typeof i.output === 'string';
+    case 'reasoning':
+      // Reasoning items of previous responses are accepted and dropped
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Custom validator for the input field of Responses API requests
+ * Validates that input is a string or a non-empty array of message,
+ * function_call, function_call_output or reasoning items
+ */
+export function IsValidResponsesInput(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'isValidResponsesInput',
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown): boolean {
+          if (typeof value === 'string') {
+            return true;
+          }
+
+          return Array.isArray(value) && value.length > 0 && value.every(isValidInputItem);
+        },
+        defaultMessage(args: ValidationArguments): string {
+          return `${args.property} must be a string or a non-empty array of message, function_call or function_call_output items`;
+        },
+      },
+    });
+  };
+}
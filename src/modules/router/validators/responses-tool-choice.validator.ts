@@ -0,0 +1,38 @@
+import {
+  registerDecorator,
+  type ValidationOptions,
+  type ValidationArguments,
+} from 'class-validator';
+
+/**
+ * Custom validator for tool_choice field of Responses API requests
+ * Validates that tool_choice is either 'auto', 'none', or a function selection object
+ * with the function name at the top level
+ */
+export function IsValidResponsesToolChoice(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'isValidResponsesToolChoice',
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown): boolean {
+          if (typeof value === 'string') {
+            return value === 'auto' || value === 'none';
+          }
+
+          if (typeof value === 'object' && value !== null) {
+            const obj = value as Record<string, unknown>;
+            return obj.type === 'function' && typeof obj.name === 'string' && obj.name.length > 0;
+          }
+
+          return false;
+        },
+        defaultMessage(args: ValidationArguments): string {
+          return `${args.property} must be "auto", "none", or { type: "function", name: string }`;
+        },
+      },
+    });
+  };
+}
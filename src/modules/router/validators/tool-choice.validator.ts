@@ -6,7 +6,7 @@ import {
 
 /**
  * Custom validator for tool_choice field
- * Validates that tool_choice is either 'auto', 'none', or a valid function selection object
+ * Validates that tool_choice is either 'auto', 'none', 'required', or a valid function selection object
  */
 export function IsValidToolChoice(validationOptions?: ValidationOptions) {
   return function (object: object, propertyName: string) {
@@ -21,9 +21,9 @@ export function IsValidToolChoice(validationOptions?: ValidationOptions) {
             return true; // Optional field
           }
 
-          // String values: 'auto' or 'none'
+          // String values: 'auto', 'none' or 'required'
           if (typeof value === 'string') {
-            return value === 'auto' || value === 'none';
+            return value === 'auto' || value === 'none' || value === 'required';
           }
 
           // Object value: { type: 'function', function: { name: string } }
@@ -41,7 +41,7 @@ export function IsValidToolChoice(validationOptions?: ValidationOptions) {
           return false;
         },
         defaultMessage(args: ValidationArguments): string {
-          return `${args.property} must be "auto", "none", or { type: "function", function: { name: string } }`;
+          return `${args.property} must be "auto", "none", "required", or { type: "function", function: { name: string } }`;
         },
       },
     });
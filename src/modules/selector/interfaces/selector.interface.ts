@@ -1,4 +1,4 @@
-import type { ModelDefinition } from '../../models/interfaces/model.interface.js';
+import type { ModelDefinition, ModelType } from '../../models/interfaces/model.interface.js';
 import type { ModelReference } from '../utils/model-parser.js';
 
 export type SelectionMode = 'weighted_random' | 'best' | 'top_n_random';
@@ -27,9 +27,9 @@ export interface SelectionCriteria {
   tags?: string | string[];
 
   /**
-   * Model type filter
+   * Model type filter. Embedding models are selected only with type 'embedding'.
    */
-  type?: 'fast' | 'reasoning';
+  type?: ModelType;
 
   /**
    * Minimum context size required
@@ -56,6 +56,11 @@ export interface SelectionCriteria {
    */
   preferFast?: boolean;
 
+  /**
+   * Prefer models of type `reasoning` when any are available (high reasoning effort)
+   */
+  preferReasoning?: boolean;
+
   /**
    * Selection mode for smart strategy
    */
@@ -95,6 +100,21 @@ export interface SelectionCriteria {
    * If true, only select models that support function calling and tool use
    */
   supportsTools?: boolean;
+
+  /**
+   * Client policy: only models having at least one of these tags
+   */
+  allowedTags?: string[];
+
+  /**
+   * Client policy: only models of these providers
+   */
+  allowedProviders?: string[];
+
+  /**
+   * Only models of these providers (providers accepting all request parameters, strict_params)
+   */
+  providers?: string[];
 }
 
 /**
@@ -40,6 +40,28 @@ export class SelectorService {
             continue;
           }
 
+          // Chat and embedding models are never mixed, even when listed explicitly
+          if ((candidate.type === 'embedding') !== (criteria.type === 'embedding')) {
+            this.logger.debug(
+              `Model "${candidate.name}" (${candidate.provider}) is not ${criteria.type === 'embedding' ? 'an embedding' : 'a chat'} model`,
+            );
+            continue;
+          }
+
+          if (!this.isAllowedByClient(candidate, criteria)) {
+            this.logger.debug(
+              `Model "${candidate.name}" (${candidate.provider}) is not allowed for the client`,
+            );
+            continue;
+          }
+
+          if (criteria.providers && !criteria.providers.includes(candidate.provider)) {
+            this.logger.debug(
+              `Model "${candidate.name}" (${candidate.provider}) does not accept all request parameters`,
+            );
+            continue;
+          }
+
           if (!candidate.available) {
             this.logger.debug(
               `Model "${candidate.name}" (${candidate.provider}) is not available (marked as unavailable)`,
@@ -75,17 +97,20 @@ export class SelectorService {
 
     // 2. Fallback: Filter and Smart Strategy
     // Filter models by criteria
-    const filteredModels = this.modelsService.filter({
-      tags: criteria.tags,
-      type: criteria.type,
-      minContextSize: criteria.minContextSize,
-      minMaxOutputTokens: criteria.minMaxOutputTokens,
-      jsonResponse: criteria.jsonResponse,
-      supportsImage: criteria.supportsImage,
-      supportsVideo: criteria.supportsVideo,
-      supportsAudio: criteria.supportsAudio,
-      supportsFile: criteria.supportsFile,
-    });
+    const filteredModels = this.modelsService
+      .filter({
+        tags: criteria.tags,
+        type: criteria.type,
+        minContextSize: criteria.minContextSize,
+        minMaxOutputTokens: criteria.minMaxOutputTokens,
+        jsonResponse: criteria.jsonResponse,
+        supportsImage: criteria.supportsImage,
+        supportsVideo: criteria.supportsVideo,
+        supportsAudio: criteria.supportsAudio,
+        supportsFile: criteria.supportsFile,
+      })
+      .filter(model => this.isAllowedByClient(model, criteria))
+      .filter(model => !criteria.providers || criteria.providers.includes(model.provider));
 
     if (filteredModels.length === 0) {
       this.logger.warn('No models match the criteria');
@@ -103,6 +128,21 @@ export class SelectorService {
     return selectedModel;
   }
 
+  /**
+   * Check client policy (allowed tags and providers)
+   */
+  private isAllowedByClient(model: ModelDefinition, criteria: SelectionCriteria): boolean {
+    if (criteria.allowedProviders && !criteria.allowedProviders.includes(model.provider)) {
+      return false;
+    }
+
+    if (criteria.allowedTags && !criteria.allowedTags.some(tag => model.tags?.includes(tag))) {
+      return false;
+    }
+
+    return true;
+  }
+
   /**
    * Check if a model is in the exclusion list.
    * Checks against "name" and "provider/name".
@@ -19,6 +19,7 @@ import {
  * - Model weights (for weighted random selection)
  * - Statistics (latency, success rate)
  * - Request filters (tags, type, min_context_size, min_max_output_tokens, prefer_fast, min_success_rate)
+ * - Preference for reasoning models on high reasoning effort
 
  */
 @Injectable()
@@ -76,9 +77,31 @@ export class SmartStrategy implements SelectionStrategy {
       candidates = this.filterBySuccessRate(candidates, criteria.minSuccessRate);
     }
 
+    candidates = this.filterLastResort(candidates);
+
+    if (criteria.preferReasoning) {
+      candidates = this.preferReasoningModels(candidates);
+    }
+
     return candidates;
   }
 
+  /**
+   * Keep only reasoning models if there are any, otherwise all candidates
+   */
+  private preferReasoningModels(models: ModelDefinition[]): ModelDefinition[] {
+    const reasoning = models.filter(m => m.type === 'reasoning');
+    return reasoning.length > 0 ? reasoning : models;
+  }
+
+  /**
+   * Drop last resort models (e.g. local Ollama) while other candidates are available
+   */
+  private filterLastResort(models: ModelDefinition[]): ModelDefinition[] {
+    const regular = models.filter(m => !m.lastResort);
+    return regular.length > 0 ? regular : models;
+  }
+
   private filterExcluded(models: ModelDefinition[], excludeModels?: string[]): ModelDefinition[] {
     if (!excludeModels || excludeModels.length === 0) {
       return models;
@@ -1,3 +1,8 @@
+/**
+ * Prefix of virtual model ids selecting a model by tags (e.g. "tag:code" or "tag:code&tier-1")
+ */
+export const TAG_ALIAS_PREFIX = 'tag:';
+
 /**
  * Parsed model reference from user input
  */
@@ -27,6 +32,24 @@ export interface ParsedModelInput {
    * Set when "auto" is present in the input array.
    */
   allowAutoFallback: boolean;
+
+  /**
+   * Tags of a tag alias ("tag:code"), used for Smart Strategy selection
+   */
+  tags?: string;
+}
+
+/**
+ * Extract tags from a tag alias, undefined if input is not a tag alias
+ */
+export function parseTagAlias(input: string): string | undefined {
+  const trimmed = input.trim();
+
+  if (!trimmed.startsWith(TAG_ALIAS_PREFIX)) {
+    return undefined;
+  }
+
+  return trimmed.substring(TAG_ALIAS_PREFIX.length) || undefined;
 }
 
 /**
@@ -60,6 +83,8 @@ function parseModelString(input: string): ModelReference | null {
  * - `"provider/model-name"` — single model from specific provider
  * - `["model1", "provider/model2"]` — priority list
  * - `["model1", "model2", "auto"]` — priority list with auto fallback to Smart Strategy
+ * - `"tag:code"` — Smart Strategy among models with the tags (same syntax as `tags`)
+ * - `["model1", "tag:code"]` — priority list with fallback to Smart Strategy by tags
  *
  * @param input - Model field from request (string | string[] | undefined)
  * @returns Parsed model input with models array and allowAutoFallback flag
@@ -72,6 +97,11 @@ export function parseModelInput(input: string | string[] | undefined): ParsedMod
 
   // Single string
   if (typeof input === 'string') {
+    const tags = parseTagAlias(input);
+    if (tags) {
+      return { models: [], allowAutoFallback: true, tags };
+    }
+
     const ref = parseModelString(input);
     return {
       models: ref ? [ref] : [],
@@ -83,6 +113,7 @@ export function parseModelInput(input: string | string[] | undefined): ParsedMod
   if (Array.isArray(input)) {
     const models: ModelReference[] = [];
     let allowAutoFallback = false;
+    let tags: string | undefined;
 
     for (const item of input) {
       if (typeof item !== 'string') {
@@ -97,13 +128,20 @@ export function parseModelInput(input: string | string[] | undefined): ParsedMod
         break;
       }
 
+      tags = parseTagAlias(item);
+      if (tags) {
+        // Tag alias works like "auto" restricted to the tags
+        allowAutoFallback = true;
+        break;
+      }
+
       const ref = parseModelString(item);
       if (ref) {
         models.push(ref);
       }
     }
 
-    return { models, allowAutoFallback };
+    return { models, allowAutoFallback, tags };
   }
 
   // Unknown format — fall back to Smart Strategy
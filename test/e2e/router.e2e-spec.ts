@@ -17,7 +17,7 @@ describe('Router (e2e)', () => {
   });
 
   describe('GET /api/v1/models', () => {
-    it('returns list of available models', async () => {
+    it('returns models in OpenAI format', async () => {
       const response = await app.inject({
         method: 'GET',
         url: '/api/v1/models',
@@ -26,6 +26,45 @@ describe('Router (e2e)', () => {
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
 
+      expect(body.object).toBe('list');
+      expect(body.data[0]).toMatchObject({ id: 'auto', object: 'model', owned_by: 'router' });
+      expect(body.data.length).toBeGreaterThan(1);
+      expect(typeof body.data[1].created).toBe('number');
+    });
+
+    it('returns a single model with capabilities', async () => {
+      const list = JSON.parse((await app.inject({ method: 'GET', url: '/api/v1/models' })).body);
+      const id = list.data[1].id as string;
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/models/${encodeURIComponent(id)}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({ id, object: 'model', name: id });
+    });
+
+    it('returns 404 for unknown model', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/models/unknown-model',
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /api/v1/models/details', () => {
+    it('returns list of available models', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/models/details',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+
       expect(body).toHaveProperty('models');
       expect(Array.isArray(body.models)).toBe(true);
       expect(body.models.length).toBeGreaterThan(0);
@@ -278,6 +317,197 @@ describe('Router (e2e)', () => {
     });
   });
 
+  describe('POST /api/v1/completions', () => {
+    it('validates required prompt field', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/completions',
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.message).toContain('prompt');
+    });
+
+    it('rejects batched prompts', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/completions',
+        payload: {
+          prompt: ['first', 'second'],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.message).toContain(
+        'prompt must contain a single string: batched prompts are not supported, send one request per prompt',
+      );
+    });
+
+    it('rejects chat messages', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/completions',
+        payload: {
+          prompt: 'test',
+          messages: [{ role: 'user', content: 'test' }],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /api/v1/responses', () => {
+    it('validates required input field', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/responses',
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.message).toContain('input');
+    });
+
+    it('rejects unknown input item types', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/responses',
+        payload: {
+          input: [{ type: 'web_search_call', id: 'ws_1' }],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('rejects non-function tools', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/responses',
+        payload: {
+          input: 'test',
+          tools: [{ type: 'web_search' }],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('rejects previous_response_id', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/responses',
+        payload: {
+          input: 'test',
+          previous_response_id: 'resp_123',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /api/v1/messages', () => {
+    it('validates required max_tokens field', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/messages',
+        payload: {
+          model: 'claude-sonnet-4-5',
+          messages: [{ role: 'user', content: 'test' }],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.message).toContain('max_tokens');
+    });
+
+    it('rejects system role in messages', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/messages',
+        payload: {
+          max_tokens: 16,
+          messages: [{ role: 'system', content: 'test' }],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('rejects unknown content blocks', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/messages',
+        payload: {
+          max_tokens: 16,
+          messages: [{ role: 'user', content: [{ type: 'document', source: {} }] }],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('accepts tool_choice any', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/messages',
+        payload: {
+          max_tokens: 16,
+          messages: [{ role: 'user', content: 'test' }],
+          tool_choice: { type: 'any' },
+        },
+      });
+
+      expect(response.statusCode).not.toBe(400);
+    });
+  });
+
+  describe('POST /api/v1/embeddings', () => {
+    it('validates required input field', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/embeddings',
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.message).toContain('input');
+    });
+
+    it('rejects empty input strings', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/embeddings',
+        payload: {
+          input: ['text', ''],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('validates encoding_format', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/embeddings',
+        payload: {
+          input: 'text',
+          encoding_format: 'int8',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
   describe('POST /api/v1/chat/completions (Streaming)', () => {
     it('validates stream parameter is boolean', async () => {
       const response = await app.inject({
@@ -10,6 +10,7 @@ describe('AdminController', () => {
   let controller: AdminController;
   let stateService: StateService;
   let rateLimiterService: RateLimiterService;
+  let modelsService: ModelsService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -35,6 +36,7 @@ describe('AdminController', () => {
           provide: ModelsService,
           useValue: {
             findModel: jest.fn(),
+            getOverriddenFields: jest.fn(),
           },
         },
       ],
@@ -43,6 +45,7 @@ describe('AdminController', () => {
     controller = module.get<AdminController>(AdminController);
     stateService = module.get<StateService>(StateService);
     rateLimiterService = module.get<RateLimiterService>(RateLimiterService);
+    modelsService = module.get<ModelsService>(ModelsService);
   });
 
   it('should be defined', () => {
@@ -71,10 +74,22 @@ describe('AdminController', () => {
           jsonResponse: false,
           model: '',
           provider: '',
+          overriddenFields: [],
         },
       ]);
       expect(result.timestamp).toBeDefined();
     });
+
+    it('should include overridden fields for models with config overrides', () => {
+      const modelDef = { name: 'model1', provider: 'openrouter', model: 'org/model1', weight: 10 };
+      (stateService.getAllStates as jest.Mock).mockReturnValue([{ name: 'model1' }]);
+      (modelsService.findModel as jest.Mock).mockReturnValue(modelDef);
+      (modelsService.getOverriddenFields as jest.Mock).mockReturnValue(['weight']);
+
+      const result = controller.getStates();
+      expect(result.models[0]).toMatchObject({ weight: 10, overriddenFields: ['weight'] });
+      expect(modelsService.getOverriddenFields).toHaveBeenCalledWith(modelDef);
+    });
   });
 
   describe('getState', () => {
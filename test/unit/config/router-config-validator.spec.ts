@@ -130,6 +130,12 @@ describe('RouterConfigValidator', () => {
       expect(() => validator.validate(config)).toThrow(ConfigValidationError);
     });
 
+    it('should reject unknown retry backoff strategy', () => {
+      const config = createValidConfig();
+      (config.routing as Record<string, unknown>).retryBackoff = 'linear';
+      expect(() => validator.validate(config)).toThrow('RouterConfig.routing.retryBackoff');
+    });
+
     it('should reject non-object config', () => {
       expect(() => validator.validate(null)).toThrow(ConfigValidationError);
       expect(() => validator.validate('string')).toThrow(ConfigValidationError);
@@ -160,6 +166,170 @@ describe('RouterConfigValidator', () => {
     });
   });
 
+  describe('custom providers validation', () => {
+    const withProvider = (provider: Record<string, unknown>) => {
+      const config = createValidConfig();
+      return { ...config, providers: { ...config.providers, groq: provider } };
+    };
+
+    it('should validate openai-compatible provider', () => {
+      const config = withProvider({
+        enabled: true,
+        type: 'openai-compatible',
+        apiKey: 'test-key',
+        baseUrl: 'https://api.groq.com/openai/v1',
+        headers: { 'X-Custom': 'value' },
+        authScheme: 'header',
+        authHeader: 'api-key',
+      });
+      expect(() => validator.validate(config)).not.toThrow();
+    });
+
+    it('should allow missing apiKey when authScheme is none', () => {
+      const config = withProvider({
+        enabled: true,
+        type: 'openai-compatible',
+        baseUrl: 'http://localhost:8000/v1',
+        authScheme: 'none',
+      });
+      expect(() => validator.validate(config)).not.toThrow();
+    });
+
+    it('should allow ollama provider without apiKey', () => {
+      const config = withProvider({ enabled: true, type: 'ollama', discoverModels: true });
+      expect(() => validator.validate(config)).not.toThrow();
+    });
+
+    it('should reject unknown provider without type', () => {
+      const config = withProvider({ enabled: true, apiKey: 'test-key', baseUrl: 'http://x' });
+      expect(() => validator.validate(config)).toThrow(ConfigValidationError);
+    });
+
+    it('should reject openai-compatible provider without baseUrl', () => {
+      const config = withProvider({ enabled: true, type: 'openai-compatible', apiKey: 'k' });
+      expect(() => validator.validate(config)).toThrow(ConfigValidationError);
+    });
+
+    it('should reject invalid authScheme', () => {
+      const config = withProvider({
+        enabled: true,
+        type: 'openai-compatible',
+        apiKey: 'k',
+        baseUrl: 'http://x',
+        authScheme: 'oauth',
+      });
+      expect(() => validator.validate(config)).toThrow(ConfigValidationError);
+    });
+
+    it('should reject unknown supportedParams entry', () => {
+      const config = withProvider({
+        enabled: true,
+        type: 'openai-compatible',
+        apiKey: 'k',
+        baseUrl: 'http://x',
+        supportedParams: ['seed', 'mirostat'],
+      });
+      expect(() => validator.validate(config)).toThrow(ConfigValidationError);
+    });
+
+    it('should reject non-string header values', () => {
+      const config = withProvider({
+        enabled: true,
+        type: 'openai-compatible',
+        apiKey: 'k',
+        baseUrl: 'http://x',
+        headers: { 'X-Retries': 3 },
+      });
+      expect(() => validator.validate(config)).toThrow(ConfigValidationError);
+    });
+  });
+
+  describe('clients validation', () => {
+    it('should accept clients with policies', () => {
+      const config = {
+        ...createValidConfig(),
+        clients: [
+          { name: 'n8n', apiKey: 'k1', allowedTags: ['general'], allowPaidFallback: false },
+          { name: 'ops', apiKey: 'k2', allowedProviders: ['openrouter'], admin: true },
+        ],
+      };
+      expect(() => validator.validate(config)).not.toThrow();
+    });
+
+    it('should reject client without apiKey', () => {
+      const config = { ...createValidConfig(), clients: [{ name: 'n8n' }] };
+      expect(() => validator.validate(config)).toThrow('RouterConfig.clients[0].apiKey');
+    });
+
+    it('should reject duplicate client apiKeys', () => {
+      const config = {
+        ...createValidConfig(),
+        clients: [
+          { name: 'a', apiKey: 'same' },
+          { name: 'b', apiKey: 'same' },
+        ],
+      };
+      expect(() => validator.validate(config)).toThrow(
+        'RouterConfig.clients[1].apiKey is used by another client',
+      );
+    });
+
+    it('should validate client quotas', () => {
+      const valid = {
+        ...createValidConfig(),
+        clients: [
+          {
+            name: 'n8n',
+            apiKey: 'k1',
+            requestsPerMinute: 30,
+            tokensPerDay: 100000,
+            paidFallbackPerDay: 20,
+          },
+        ],
+      };
+      expect(() => validator.validate(valid)).not.toThrow();
+
+      const invalid = {
+        ...createValidConfig(),
+        clients: [{ name: 'n8n', apiKey: 'k1', tokensPerDay: 0 }],
+      };
+      expect(() => validator.validate(invalid)).toThrow(
+        'RouterConfig.clients[0].tokensPerDay must be >= 1',
+      );
+    });
+  });
+
+  describe('api keys validation', () => {
+    const withOpenRouter = (provider: Record<string, unknown>) => {
+      const config = createValidConfig();
+      return { ...config, providers: { ...config.providers, openrouter: provider } };
+    };
+
+    it('should accept apiKeys instead of apiKey', () => {
+      const config = withOpenRouter({
+        enabled: true,
+        apiKeys: ['key-1', 'key-2'],
+        keyRotation: 'least-recently-limited',
+        keyCooldownSecs: 300,
+      });
+      expect(() => validator.validate(config)).not.toThrow();
+    });
+
+    it('should reject empty or non-string apiKeys', () => {
+      expect(() => validator.validate(withOpenRouter({ enabled: true, apiKeys: [] }))).toThrow(
+        'RouterConfig.providers.openrouter.apiKeys must not be empty',
+      );
+      expect(() =>
+        validator.validate(withOpenRouter({ enabled: true, apiKeys: ['k', 1] })),
+      ).toThrow(ConfigValidationError);
+    });
+
+    it('should reject invalid keyRotation', () => {
+      const config = withOpenRouter({ enabled: true, apiKeys: ['k'], keyRotation: 'random' });
+      expect(() => validator.validate(config)).toThrow(ConfigValidationError);
+    });
+  });
+
   describe('modelOverrides validation', () => {
     it('should reject override without name', () => {
       const config = {
@@ -184,5 +354,21 @@ describe('RouterConfigValidator', () => {
       };
       expect(() => validator.validate(config)).toThrow(ConfigValidationError);
     });
+
+    it('should reject override with weight out of range', () => {
+      const config = {
+        ...createValidConfig(),
+        modelOverrides: [{ name: 'test', weight: 0 }],
+      };
+      expect(() => validator.validate(config)).toThrow(ConfigValidationError);
+    });
+
+    it('should reject override with non-boolean capability flag', () => {
+      const config = {
+        ...createValidConfig(),
+        modelOverrides: [{ name: 'test', supportsTools: 'yes' }],
+      };
+      expect(() => validator.validate(config)).toThrow(ConfigValidationError);
+    });
   });
 });
@@ -0,0 +1,113 @@
+import { ForbiddenException, UnauthorizedException, type ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ClientAuthGuard } from '../../../../src/modules/auth/client-auth.guard.js';
+import { AdminOnly, Public } from '../../../../src/modules/auth/auth.decorators.js';
+import type { RouterConfig } from '../../../../src/config/router-config.interface.js';
+import type { AuthenticatedRequest } from '../../../../src/modules/auth/interfaces/authenticated-request.interface.js';
+
+describe('ClientAuthGuard', () => {
+  class ApiController {
+    public handle(): void {}
+  }
+
+  @Public()
+  class PublicController {
+    public handle(): void {}
+  }
+
+  @AdminOnly()
+  class AdminController {
+    public handle(): void {}
+  }
+
+  const baseConfig = {
+    modelsFile: './models.yaml',
+    providers: {},
+    routing: {
+      maxModelSwitches: 3,
+      maxSameModelRetries: 2,
+      retryDelay: 100,
+      timeoutSecs: 30,
+      fallback: { enabled: false, provider: 'deepseek', model: 'deepseek-chat' },
+    },
+  } as RouterConfig;
+
+  const config: RouterConfig = {
+    ...baseConfig,
+    clients: [
+      { name: 'n8n', apiKey: 'client-key', allowedTags: ['general'] },
+      { name: 'ops', apiKey: 'admin-key', admin: true },
+    ],
+  };
+
+  const createContext = (
+    controller: new () => { handle: () => void },
+    headers: Record<string, string> = {},
+  ): { context: ExecutionContext; request: AuthenticatedRequest } => {
+    const request = { headers } as unknown as AuthenticatedRequest;
+    const context = {
+      getHandler: () => controller.prototype.handle,
+      getClass: () => controller,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+    return { context, request };
+  };
+
+  it('should allow everything when no clients are configured', () => {
+    const guard = new ClientAuthGuard(new Reflector(), baseConfig);
+    const { context, request } = createContext(AdminController);
+
+    expect(guard.canActivate(context)).toBe(true);
+    expect(request.client).toBeUndefined();
+  });
+
+  it('should attach client resolved from Bearer token', () => {
+    const guard = new ClientAuthGuard(new Reflector(), config);
+    const { context, request } = createContext(ApiController, {
+      authorization: 'Bearer client-key',
+    });
+
+    expect(guard.canActivate(context)).toBe(true);
+    expect(request.client?.name).toBe('n8n');
+  });
+
+  it('should accept x-api-key header', () => {
+    const guard = new ClientAuthGuard(new Reflector(), config);
+    const { context, request } = createContext(ApiController, { 'x-api-key': 'admin-key' });
+
+    expect(guard.canActivate(context)).toBe(true);
+    expect(request.client?.name).toBe('ops');
+  });
+
+  it('should reject missing or unknown keys', () => {
+    const guard = new ClientAuthGuard(new Reflector(), config);
+
+    expect(() => guard.canActivate(createContext(ApiController).context)).toThrow(
+      UnauthorizedException,
+    );
+    expect(() =>
+      guard.canActivate(createContext(ApiController, { authorization: 'Bearer nope' }).context),
+    ).toThrow(UnauthorizedException);
+  });
+
+  it('should allow public routes without key', () => {
+    const guard = new ClientAuthGuard(new Reflector(), config);
+
+    expect(guard.canActivate(createContext(PublicController).context)).toBe(true);
+  });
+
+  it('should require admin access for admin routes', () => {
+    const guard = new ClientAuthGuard(new Reflector(), config);
+
+    expect(() =>
+      guard.canActivate(
+        createContext(AdminController, { authorization: 'Bearer client-key' }).context,
+      ),
+    ).toThrow(ForbiddenException);
+    expect(
+      guard.canActivate(
+        createContext(AdminController, { authorization: 'Bearer admin-key' }).context,
+      ),
+    ).toBe(true);
+  });
+});
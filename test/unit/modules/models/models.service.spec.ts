@@ -4,6 +4,9 @@ import { ModelsService } from '../../../../src/modules/models/models.service.js'
 import { writeFileSync, unlinkSync } from 'node:fs';
 import { join } from 'node:path';
 import { ROUTER_CONFIG } from '../../../../src/config/router-config.provider.js';
+import type { ModelDefinition } from '../../../../src/modules/models/interfaces/model.interface.js';
+import { ModelValidationError } from '../../../../src/modules/models/validators/model-validator.js';
+import { OllamaDiscoveryService } from '../../../../src/modules/models/discovery/ollama-discovery.service.js';
 import { HttpService } from '@nestjs/axios';
 import { of } from 'rxjs';
 
@@ -55,6 +58,7 @@ models:
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         ModelsService,
+        OllamaDiscoveryService,
         {
           provide: ROUTER_CONFIG,
           useValue: {
@@ -188,21 +192,16 @@ models:
   });
 
   describe('overrides', () => {
-    it.skip('should apply overrides correctly (not implemented yet)', async () => {
+    const createServiceWithOverrides = async (modelOverrides: unknown[]) => {
       const module: TestingModule = await Test.createTestingModule({
         providers: [
           ModelsService,
+          OllamaDiscoveryService,
           {
             provide: ROUTER_CONFIG,
             useValue: {
               modelsFile: testModelsFile,
-              modelOverrides: [
-                {
-                  name: 'test-fast-model',
-                  weight: 10,
-                  available: false,
-                },
-              ],
+              modelOverrides,
             },
           },
           {
@@ -212,12 +211,182 @@ models:
         ],
       }).compile();
 
-      const overrideService = module.get<ModelsService>(ModelsService);
+      return module.get<ModelsService>(ModelsService);
+    };
+
+    it('should apply overrides correctly', async () => {
+      const overrideService = await createServiceWithOverrides([
+        {
+          name: 'test-fast-model',
+          weight: 10,
+          available: false,
+        },
+      ]);
       await overrideService.onModuleInit();
 
-      const model = overrideService.findModel('test-fast-model');
+      const model = overrideService.findModel('test-fast-model') as ModelDefinition;
       expect(model).toBeDefined();
-      // Note: model overrides are not implemented in current ModelsService
+      expect(model.weight).toBe(10);
+      expect(model.available).toBe(false);
+      expect(model.tags).toEqual(['general', 'code']);
+      expect(overrideService.getAvailable().map(m => m.name)).not.toContain('test-fast-model');
+      expect(overrideService.getOverriddenFields(model)).toEqual(['weight', 'available']);
+    });
+
+    it('should apply tags and capability overrides', async () => {
+      const overrideService = await createServiceWithOverrides([
+        {
+          name: 'test-reasoning-model',
+          provider: 'deepseek',
+          model: 'test/reasoning',
+          tags: ['custom'],
+          supportsTools: true,
+        },
+      ]);
+      await overrideService.onModuleInit();
+
+      const model = overrideService.findModel('test-reasoning-model');
+      expect(model?.tags).toEqual(['custom']);
+      expect(model?.supportsTools).toBe(true);
+      expect(overrideService.filter({ tags: ['custom'] })).toHaveLength(1);
+    });
+
+    it('should not report overridden fields for untouched models', async () => {
+      const overrideService = await createServiceWithOverrides([
+        { name: 'test-fast-model', weight: 10 },
+      ]);
+      await overrideService.onModuleInit();
+
+      const model = overrideService.findModel('test-reasoning-model') as ModelDefinition;
+      expect(overrideService.getOverriddenFields(model)).toEqual([]);
+    });
+
+    it('should reject override for unknown model', async () => {
+      const overrideService = await createServiceWithOverrides([
+        { name: 'missing-model', weight: 10 },
+      ]);
+
+      await expect(overrideService.onModuleInit()).rejects.toThrow(ModelValidationError);
+    });
+
+    it('should reject override when provider does not match', async () => {
+      const overrideService = await createServiceWithOverrides([
+        { name: 'test-fast-model', provider: 'deepseek', weight: 10 },
+      ]);
+
+      await expect(overrideService.onModuleInit()).rejects.toThrow(
+        'Model override "test-fast-model" (provider "deepseek") does not match any loaded model',
+      );
+    });
+
+    it('should reject override when model ID does not match', async () => {
+      const overrideService = await createServiceWithOverrides([
+        { name: 'test-fast-model', model: 'test/other', weight: 10 },
+      ]);
+
+      await expect(overrideService.onModuleInit()).rejects.toThrow(ModelValidationError);
+    });
+  });
+
+  describe('local model discovery', () => {
+    const discoveredModel = {
+      name: 'llama3.2:3b',
+      provider: 'ollama',
+      model: 'llama3.2:3b',
+      type: 'fast' as const,
+      contextSize: 131072,
+      maxOutputTokens: 131072,
+      tags: ['local', 'ollama', 'llama'],
+      jsonResponse: true,
+      available: true,
+      lastResort: true,
+    };
+
+    const createServiceWithProviders = async (config: Record<string, unknown>) => {
+      const mockDiscovery = {
+        discover: jest.fn<OllamaDiscoveryService['discover']>(() =>
+          Promise.resolve([{ ...discoveredModel }]),
+        ),
+      };
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          ModelsService,
+          { provide: OllamaDiscoveryService, useValue: mockDiscovery },
+          {
+            provide: ROUTER_CONFIG,
+            useValue: { modelsFile: testModelsFile, ...config },
+          },
+          {
+            provide: HttpService,
+            useValue: mockHttpService,
+          },
+        ],
+      }).compile();
+
+      return { service: module.get<ModelsService>(ModelsService), mockDiscovery };
+    };
+
+    it('should add models discovered on enabled Ollama providers', async () => {
+      const { service: discoveryService, mockDiscovery } = await createServiceWithProviders({
+        providers: { ollama: { enabled: true } },
+      });
+      await discoveryService.onModuleInit();
+
+      expect(mockDiscovery.discover).toHaveBeenCalledWith('ollama', 'http://localhost:11434');
+      expect(discoveryService.getModels()).toHaveLength(4);
+      expect(discoveryService.findModel('llama3.2:3b')?.lastResort).toBe(true);
+    });
+
+    it('should skip disabled providers and providers with discovery turned off', async () => {
+      const { service: discoveryService, mockDiscovery } = await createServiceWithProviders({
+        providers: {
+          ollama: { enabled: false },
+          gpu: { enabled: true, type: 'ollama', discoverModels: false },
+        },
+      });
+      await discoveryService.onModuleInit();
+
+      expect(mockDiscovery.discover).not.toHaveBeenCalled();
+      expect(discoveryService.getModels()).toHaveLength(3);
+    });
+
+    it('should apply overrides to discovered models', async () => {
+      const { service: discoveryService } = await createServiceWithProviders({
+        providers: { ollama: { enabled: true } },
+        modelOverrides: [{ name: 'llama3.2:3b', provider: 'ollama', lastResort: false, weight: 5 }],
+      });
+      await discoveryService.onModuleInit();
+
+      const model = discoveryService.findModel('llama3.2:3b');
+      expect(model?.lastResort).toBe(false);
+      expect(model?.weight).toBe(5);
+    });
+
+    it('should skip overrides of missing models while discovery is unavailable', async () => {
+      const { service: discoveryService, mockDiscovery } = await createServiceWithProviders({
+        providers: { ollama: { enabled: true } },
+        modelOverrides: [
+          { name: 'llama3.2:3b', provider: 'ollama', weight: 5 },
+          { name: 'qwen3:8b', weight: 2 },
+        ],
+      });
+      mockDiscovery.discover.mockResolvedValue(undefined);
+
+      await discoveryService.onModuleInit();
+
+      expect(discoveryService.getModels()).toHaveLength(3);
+      expect(discoveryService.findModel('llama3.2:3b')).toBeUndefined();
+    });
+
+    it('should reject overrides of other providers while discovery is unavailable', async () => {
+      const { service: discoveryService, mockDiscovery } = await createServiceWithProviders({
+        providers: { ollama: { enabled: true } },
+        modelOverrides: [{ name: 'missing-model', provider: 'deepseek', weight: 5 }],
+      });
+      mockDiscovery.discover.mockResolvedValue(undefined);
+
+      await expect(discoveryService.onModuleInit()).rejects.toThrow(ModelValidationError);
     });
   });
 
@@ -230,6 +399,7 @@ models:
       const module: TestingModule = await Test.createTestingModule({
         providers: [
           ModelsService,
+          OllamaDiscoveryService,
           {
             provide: ROUTER_CONFIG,
             useValue: {
@@ -260,6 +430,7 @@ models:
       const module: TestingModule = await Test.createTestingModule({
         providers: [
           ModelsService,
+          OllamaDiscoveryService,
           {
             provide: ROUTER_CONFIG,
             useValue: {
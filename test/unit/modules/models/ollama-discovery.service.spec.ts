@@ -0,0 +1,103 @@
+import { jest } from '@jest/globals';
+import type { HttpService } from '@nestjs/axios';
+import { of, throwError } from 'rxjs';
+import { OllamaDiscoveryService } from '../../../../src/modules/models/discovery/ollama-discovery.service.js';
+
+describe('OllamaDiscoveryService', () => {
+  const mockHttpService = {
+    get: jest.fn(),
+    post: jest.fn(),
+  };
+
+  const service = new OllamaDiscoveryService(mockHttpService as unknown as HttpService);
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should convert installed models into model definitions', async () => {
+    mockHttpService.get.mockReturnValue(
+      of({
+        data: {
+          models: [
+            { name: 'llama3.2:3b', model: 'llama3.2:3b', details: { family: 'llama' } },
+            { name: 'qwen3:8b', model: 'qwen3:8b', details: { family: 'qwen3' } },
+          ],
+        },
+      }),
+    );
+    mockHttpService.post.mockImplementation((_url, body) => {
+      const { model } = body as { model: string };
+      return of({
+        data:
+          model === 'llama3.2:3b'
+            ? {
+                model_info: { 'general.architecture': 'llama', 'llama.context_length': 131072 },
+                capabilities: ['completion', 'tools'],
+              }
+            : { capabilities: ['completion', 'thinking', 'vision'] },
+      });
+    });
+
+    const models = await service.discover('ollama', 'http://localhost:11434');
+
+    expect(mockHttpService.get).toHaveBeenCalledWith(
+      '/api/tags',
+      expect.objectContaining({
+        baseURL: 'http://localhost:11434',
+      }),
+    );
+    expect(models).toEqual([
+      {
+        name: 'llama3.2:3b',
+        provider: 'ollama',
+        model: 'llama3.2:3b',
+        type: 'fast',
+        contextSize: 131072,
+        maxOutputTokens: 131072,
+        tags: ['local', 'ollama', 'llama'],
+        jsonResponse: true,
+        available: true,
+        supportsImage: false,
+        supportsTools: true,
+        lastResort: true,
+      },
+      expect.objectContaining({
+        name: 'qwen3:8b',
+        type: 'reasoning',
+        contextSize: 4096,
+        supportsImage: true,
+        supportsTools: false,
+      }),
+    ]);
+  });
+
+  it('should discover embedding-only models as embedding type', async () => {
+    mockHttpService.get.mockReturnValue(of({ data: { models: [{ name: 'nomic-embed-text' }] } }));
+    mockHttpService.post.mockReturnValue(
+      of({
+        data: {
+          model_info: { 'nomic-bert.context_length': 2048, 'nomic-bert.embedding_length': 768 },
+          capabilities: ['embedding'],
+        },
+      }),
+    );
+
+    await expect(service.discover('ollama', 'http://localhost:11434')).resolves.toEqual([
+      expect.objectContaining({
+        name: 'nomic-embed-text',
+        type: 'embedding',
+        contextSize: 2048,
+        jsonResponse: false,
+        dimensions: 768,
+      }),
+    ]);
+  });
+
+  it('should return undefined when server is unreachable', async () => {
+    mockHttpService.get.mockReturnValue(throwError(() => new Error('connect ECONNREFUSED')));
+
+    await expect(service.discover('ollama', 'http://localhost:11434')).resolves.toBeUndefined();
+    expect(mockHttpService.post).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,373 @@
+import { HttpException } from '@nestjs/common';
+import type { HttpService } from '@nestjs/axios';
+import { of, throwError } from 'rxjs';
+import { Readable } from 'stream';
+import { AxiosError, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { jest } from '@jest/globals';
+import { AnthropicProvider } from '../../../../src/modules/providers/anthropic.provider.js';
+import type { BaseProviderConfig } from '../../../../src/modules/providers/base.provider.js';
+import type { ChatCompletionStreamChunk } from '../../../../src/modules/providers/interfaces/provider.interface.js';
+
+describe('AnthropicProvider', () => {
+  let provider: AnthropicProvider;
+
+  const mockConfig: BaseProviderConfig = {
+    apiKey: 'test-key',
+    baseUrl: 'https://api.anthropic.test/v1',
+    timeoutSecs: 5,
+  };
+
+  const mockHttpService = {
+    post: jest.fn(),
+  };
+
+  const toAxiosResponse = (data: unknown): AxiosResponse => ({
+    data,
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    config: {} as InternalAxiosRequestConfig,
+  });
+
+  const getRequestBody = () => mockHttpService.post.mock.calls[0]?.[1] as Record<string, any>;
+
+  beforeEach(() => {
+    provider = new AnthropicProvider(mockHttpService as unknown as HttpService, mockConfig);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('chatCompletion', () => {
+    const mockResponse = toAxiosResponse({
+      id: 'msg_1',
+      model: 'claude-sonnet-4-5',
+      content: [{ type: 'text', text: 'response' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 10, output_tokens: 5 },
+    });
+
+    it('should call Messages API with Anthropic headers and map response', async () => {
+      mockHttpService.post.mockReturnValue(of(mockResponse));
+
+      const result = await provider.chatCompletion({
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'hello' }],
+      });
+
+      expect(mockHttpService.post).toHaveBeenCalledWith(
+        '/messages',
+        {
+          model: 'claude-sonnet-4-5',
+          messages: [{ role: 'user', content: [{ type: 'text', text: 'hello' }] }],
+          max_tokens: 4096,
+          temperature: undefined,
+          top_p: undefined,
+        },
+        expect.objectContaining({
+          baseURL: mockConfig.baseUrl,
+          headers: expect.objectContaining({
+            'x-api-key': 'test-key',
+            'anthropic-version': '2023-06-01',
+          }),
+        }),
+      );
+      expect(result).toEqual({
+        id: 'msg_1',
+        model: 'claude-sonnet-4-5',
+        content: 'response',
+        toolCalls: undefined,
+        finishReason: 'stop',
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      });
+    });
+
+    it('should translate system messages, images and stop sequences', async () => {
+      mockHttpService.post.mockReturnValue(of(mockResponse));
+
+      await provider.chatCompletion({
+        model: 'claude-sonnet-4-5',
+        maxTokens: 100,
+        stop: 'END',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is this?' },
+              { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+              { type: 'image_url', image_url: { url: 'https://example.com/cat.jpg' } },
+            ],
+          },
+        ],
+      });
+
+      const body = getRequestBody();
+      expect(body.system).toBe('Be brief.');
+      expect(body.max_tokens).toBe(100);
+      expect(body.stop_sequences).toEqual(['END']);
+      expect(body.messages).toEqual([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+            { type: 'image', source: { type: 'url', url: 'https://example.com/cat.jpg' } },
+          ],
+        },
+      ]);
+    });
+
+    it('should translate tools, tool_choice and tool messages', async () => {
+      mockHttpService.post.mockReturnValue(of(mockResponse));
+
+      await provider.chatCompletion({
+        model: 'claude-sonnet-4-5',
+        tools: [
+          {
+            type: 'function',
+            function: {
+              name: 'get_weather',
+              description: 'Get weather',
+              parameters: { type: 'object', properties: { city: { type: 'string' } } },
+            },
+          },
+        ],
+        toolChoice: { type: 'function', function: { name: 'get_weather' } },
+        messages: [
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            role: 'assistant',
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+              },
+            ],
+          },
+          { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' },
+        ],
+      });
+
+      const body = getRequestBody();
+      expect(body.tools).toEqual([
+        {
+          name: 'get_weather',
+          description: 'Get weather',
+          input_schema: { type: 'object', properties: { city: { type: 'string' } } },
+        },
+      ]);
+      expect(body.tool_choice).toEqual({ type: 'tool', name: 'get_weather' });
+      expect(body.messages[1]).toEqual({
+        role: 'assistant',
+        content: [
+          { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } },
+        ],
+      });
+      expect(body.messages[2]).toEqual({
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'Sunny' }],
+      });
+    });
+
+    it('should translate required tool_choice to any', async () => {
+      mockHttpService.post.mockReturnValue(of(mockResponse));
+
+      await provider.chatCompletion({
+        model: 'claude-sonnet-4-5',
+        toolChoice: 'required',
+        messages: [{ role: 'user', content: 'Weather in Paris?' }],
+      });
+
+      expect(getRequestBody().tool_choice).toEqual({ type: 'any' });
+    });
+
+    it('should map tool_use blocks to tool calls', async () => {
+      mockHttpService.post.mockReturnValue(
+        of(
+          toAxiosResponse({
+            id: 'msg_2',
+            model: 'claude-sonnet-4-5',
+            content: [
+              { type: 'text', text: 'Checking.' },
+              { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+            ],
+            stop_reason: 'tool_use',
+            usage: { input_tokens: 10, output_tokens: 5 },
+          }),
+        ),
+      );
+
+      const result = await provider.chatCompletion({
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'Weather in Paris?' }],
+      });
+
+      expect(result.content).toBeNull();
+      expect(result.finishReason).toBe('tool_calls');
+      expect(result.toolCalls).toEqual([
+        {
+          id: 'toolu_1',
+          type: 'function',
+          function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+        },
+      ]);
+    });
+
+    it('should handle HTTP errors', async () => {
+      const error = new AxiosError('Overloaded', '529', undefined, undefined, {
+        status: 529,
+        data: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+        statusText: 'Overloaded',
+        config: {} as InternalAxiosRequestConfig,
+      } as AxiosResponse);
+      mockHttpService.post.mockReturnValue(throwError(() => error));
+
+      const promise = provider.chatCompletion({
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'hello' }],
+      });
+
+      await expect(promise).rejects.toThrow(HttpException);
+      await promise.catch((e: HttpException) => {
+        expect(e.getStatus()).toBe(529);
+        const response = e.getResponse() as any;
+        expect(response.error.message).toContain('Anthropic API error: Overloaded');
+      });
+    });
+  });
+
+  describe('chatCompletionStream', () => {
+    const toSse = (events: Array<Record<string, unknown>>) =>
+      Readable.from(events.map(e => `event: ${String(e.type)}\ndata: ${JSON.stringify(e)}\n\n`));
+
+    const collect = async () => {
+      const chunks: ChatCompletionStreamChunk[] = [];
+      for await (const chunk of provider.chatCompletionStream({
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'hello' }],
+      })) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    it('should map text and tool_use events to chunks', async () => {
+      mockHttpService.post.mockReturnValue(
+        of(
+          toAxiosResponse(
+            toSse([
+              {
+                type: 'message_start',
+                message: { id: 'msg_1', model: 'claude-sonnet-4-5', usage: { input_tokens: 12 } },
+              },
+              { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+              { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } },
+              { type: 'ping' },
+              { type: 'content_block_stop', index: 0 },
+              {
+                type: 'content_block_start',
+                index: 1,
+                content_block: { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: {} },
+              },
+              {
+                type: 'content_block_delta',
+                index: 1,
+                delta: { type: 'input_json_delta', partial_json: '{"city":' },
+              },
+              {
+                type: 'message_delta',
+                delta: { stop_reason: 'tool_use' },
+                usage: { output_tokens: 7 },
+              },
+              { type: 'message_stop' },
+            ]),
+          ),
+        ),
+      );
+
+      const chunks = await collect();
+
+      expect(getRequestBody().stream).toBe(true);
+      expect(chunks).toEqual([
+        { id: 'msg_1', model: 'claude-sonnet-4-5', delta: { role: 'assistant' } },
+        { id: 'msg_1', model: 'claude-sonnet-4-5', delta: { content: 'Hi' } },
+        {
+          id: 'msg_1',
+          model: 'claude-sonnet-4-5',
+          delta: {
+            tool_calls: [
+              {
+                index: 0,
+                id: 'toolu_1',
+                type: 'function',
+                function: { name: 'get_weather', arguments: '' },
+              },
+            ],
+          },
+        },
+        {
+          id: 'msg_1',
+          model: 'claude-sonnet-4-5',
+          delta: { tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] },
+        },
+        {
+          id: 'msg_1',
+          model: 'claude-sonnet-4-5',
+          delta: {},
+          finishReason: 'tool_calls',
+          usage: { promptTokens: 12, completionTokens: 7, totalTokens: 19 },
+        },
+      ]);
+    });
+
+    it('should throw on in-stream error events', async () => {
+      mockHttpService.post.mockReturnValue(
+        of(
+          toAxiosResponse(
+            toSse([
+              { type: 'message_start', message: { id: 'msg_1', model: 'claude-sonnet-4-5' } },
+              { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+            ]),
+          ),
+        ),
+      );
+
+      await expect(collect()).rejects.toMatchObject({ status: 503 });
+    });
+
+    it('should wrap stream read errors after the first chunk', async () => {
+      async function* failingStream() {
+        yield `data: ${JSON.stringify({ type: 'message_start', message: { id: 'msg_1', model: 'claude-sonnet-4-5' } })}\n\n`;
+        await Promise.resolve();
+        throw new Error('socket hang up');
+      }
+      mockHttpService.post.mockReturnValue(of(toAxiosResponse(Readable.from(failingStream()))));
+
+      const chunks: ChatCompletionStreamChunk[] = [];
+      const promise = (async () => {
+        for await (const chunk of provider.chatCompletionStream({
+          model: 'claude-sonnet-4-5',
+          messages: [{ role: 'user', content: 'hello' }],
+        })) {
+          chunks.push(chunk);
+        }
+      })();
+
+      await expect(promise).rejects.toThrow(HttpException);
+      await promise.catch((e: HttpException) => {
+        expect(e.getStatus()).toBe(500);
+        const response = e.getResponse() as any;
+        expect(response.error.message).toContain(
+          'Anthropic streaming API error: Error: socket hang up',
+        );
+      });
+      expect(chunks).toEqual([
+        { id: 'msg_1', model: 'claude-sonnet-4-5', delta: { role: 'assistant' } },
+      ]);
+    });
+  });
+});
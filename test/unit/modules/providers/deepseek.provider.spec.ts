@@ -110,6 +110,28 @@ describe('DeepSeekProvider', () => {
       });
     });
 
+    it('should map reasoning_content of reasoner models', async () => {
+      jest.spyOn(httpService, 'post').mockReturnValue(
+        of({
+          ...mockResponse,
+          data: {
+            ...mockResponse.data,
+            choices: [
+              {
+                message: { role: 'assistant', content: '4', reasoning_content: '2 + 2 = 4' },
+                finish_reason: 'stop',
+              },
+            ],
+          },
+        }),
+      );
+
+      const result = await provider.chatCompletion(mockRequest);
+
+      expect(result.content).toBe('4');
+      expect(result.reasoningContent).toBe('2 + 2 = 4');
+    });
+
     it('should handle JSON mode', async () => {
       jest.spyOn(httpService, 'post').mockReturnValue(of(mockResponse));
 
@@ -0,0 +1,281 @@
+import { HttpException } from '@nestjs/common';
+import type { HttpService } from '@nestjs/axios';
+import { of, throwError } from 'rxjs';
+import { Readable } from 'stream';
+import { AxiosError, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { jest } from '@jest/globals';
+import { GeminiProvider } from '../../../../src/modules/providers/gemini.provider.js';
+import type { BaseProviderConfig } from '../../../../src/modules/providers/base.provider.js';
+import type { ChatCompletionStreamChunk } from '../../../../src/modules/providers/interfaces/provider.interface.js';
+
+describe('GeminiProvider', () => {
+  let provider: GeminiProvider;
+
+  const mockConfig: BaseProviderConfig = {
+    apiKey: 'test-key',
+    baseUrl: 'https://gemini.test/v1beta',
+    timeoutSecs: 5,
+  };
+
+  const mockHttpService = {
+    post: jest.fn(),
+  };
+
+  const toAxiosResponse = (data: unknown): AxiosResponse => ({
+    data,
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    config: {} as InternalAxiosRequestConfig,
+  });
+
+  const getRequestBody = () => mockHttpService.post.mock.calls[0]?.[1] as Record<string, any>;
+
+  beforeEach(() => {
+    provider = new GeminiProvider(mockHttpService as unknown as HttpService, mockConfig);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('chatCompletion', () => {
+    const mockResponse = toAxiosResponse({
+      responseId: 'resp-1',
+      modelVersion: 'gemini-2.5-flash',
+      candidates: [
+        { content: { role: 'model', parts: [{ text: 'response' }] }, finishReason: 'STOP' },
+      ],
+      usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+    });
+
+    it('should call generateContent and map response', async () => {
+      mockHttpService.post.mockReturnValue(of(mockResponse));
+
+      const result = await provider.chatCompletion({
+        model: 'gemini-2.5-flash',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'hello' },
+          { role: 'assistant', content: 'hi' },
+          { role: 'user', content: 'how are you?' },
+        ],
+        temperature: 0.5,
+        maxTokens: 100,
+        stop: ['END'],
+      });
+
+      expect(mockHttpService.post).toHaveBeenCalledWith(
+        '/models/gemini-2.5-flash:generateContent',
+        expect.objectContaining({
+          systemInstruction: { parts: [{ text: 'Be brief.' }] },
+          contents: [
+            { role: 'user', parts: [{ text: 'hello' }] },
+            { role: 'model', parts: [{ text: 'hi' }] },
+            { role: 'user', parts: [{ text: 'how are you?' }] },
+          ],
+          generationConfig: expect.objectContaining({
+            temperature: 0.5,
+            maxOutputTokens: 100,
+            stopSequences: ['END'],
+          }),
+        }),
+        expect.objectContaining({
+          baseURL: mockConfig.baseUrl,
+          headers: expect.objectContaining({ 'x-goog-api-key': 'test-key' }),
+        }),
+      );
+      expect(result).toEqual({
+        id: 'resp-1',
+        model: 'gemini-2.5-flash',
+        content: 'response',
+        toolCalls: undefined,
+        finishReason: 'stop',
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      });
+    });
+
+    it('should convert images, JSON mode and tools', async () => {
+      mockHttpService.post.mockReturnValue(of(mockResponse));
+
+      await provider.chatCompletion({
+        model: 'gemini-2.5-flash',
+        responseFormat: { type: 'json_object' },
+        tools: [
+          {
+            type: 'function',
+            function: {
+              name: 'get_weather',
+              parameters: { type: 'object', properties: { city: { type: 'string' } } },
+            },
+          },
+        ],
+        toolChoice: { type: 'function', function: { name: 'get_weather' } },
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Describe' },
+              { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,BBBB' } },
+            ],
+          },
+          {
+            role: 'assistant',
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+              },
+            ],
+          },
+          { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' },
+        ],
+      });
+
+      const body = getRequestBody();
+      expect(body.generationConfig.responseMimeType).toBe('application/json');
+      expect(body.tools).toEqual([
+        {
+          functionDeclarations: [
+            {
+              name: 'get_weather',
+              description: undefined,
+              parameters: { type: 'object', properties: { city: { type: 'string' } } },
+            },
+          ],
+        },
+      ]);
+      expect(body.toolConfig).toEqual({
+        functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['get_weather'] },
+      });
+      expect(body.contents).toEqual([
+        {
+          role: 'user',
+          parts: [{ text: 'Describe' }, { inlineData: { mimeType: 'image/jpeg', data: 'BBBB' } }],
+        },
+        {
+          role: 'model',
+          parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }],
+        },
+        {
+          role: 'user',
+          parts: [{ functionResponse: { name: 'get_weather', response: { content: 'Sunny' } } }],
+        },
+      ]);
+    });
+
+    it('should map function calls and finish reasons', async () => {
+      mockHttpService.post.mockReturnValue(
+        of(
+          toAxiosResponse({
+            candidates: [
+              {
+                content: {
+                  role: 'model',
+                  parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }],
+                },
+                finishReason: 'STOP',
+              },
+            ],
+          }),
+        ),
+      );
+
+      const result = await provider.chatCompletion({
+        model: 'gemini-2.5-flash',
+        messages: [{ role: 'user', content: 'Weather?' }],
+      });
+
+      expect(result.content).toBeNull();
+      expect(result.finishReason).toBe('tool_calls');
+      expect(result.toolCalls).toEqual([
+        {
+          id: expect.stringMatching(/^call_/),
+          type: 'function',
+          function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+        },
+      ]);
+    });
+
+    it('should map safety block to content_filter', async () => {
+      mockHttpService.post.mockReturnValue(
+        of(toAxiosResponse({ candidates: [{ finishReason: 'SAFETY' }] })),
+      );
+
+      const result = await provider.chatCompletion({
+        model: 'gemini-2.5-flash',
+        messages: [{ role: 'user', content: 'hello' }],
+      });
+
+      expect(result.finishReason).toBe('content_filter');
+      expect(result.content).toBe('');
+    });
+
+    it('should handle HTTP errors', async () => {
+      const error = new AxiosError('Quota', '429', undefined, undefined, {
+        status: 429,
+        data: { error: { code: 429, message: 'Quota exceeded', status: 'RESOURCE_EXHAUSTED' } },
+        statusText: 'Too Many Requests',
+        config: {} as InternalAxiosRequestConfig,
+      } as AxiosResponse);
+      mockHttpService.post.mockReturnValue(throwError(() => error));
+
+      const promise = provider.chatCompletion({
+        model: 'gemini-2.5-flash',
+        messages: [{ role: 'user', content: 'hello' }],
+      });
+
+      await expect(promise).rejects.toThrow(HttpException);
+      await promise.catch((e: HttpException) => {
+        expect(e.getStatus()).toBe(429);
+        const response = e.getResponse() as any;
+        expect(response.error.message).toContain('Gemini API error: Quota exceeded');
+      });
+    });
+  });
+
+  describe('chatCompletionStream', () => {
+    it('should request SSE and map chunks', async () => {
+      const events = [
+        { responseId: 'r1', candidates: [{ content: { parts: [{ text: 'Hel' }] } }] },
+        {
+          responseId: 'r1',
+          candidates: [{ content: { parts: [{ text: 'lo' }] }, finishReason: 'MAX_TOKENS' }],
+        },
+      ];
+      mockHttpService.post.mockReturnValue(
+        of(toAxiosResponse(Readable.from(events.map(e => `data: ${JSON.stringify(e)}\r\n\r\n`)))),
+      );
+
+      const chunks: ChatCompletionStreamChunk[] = [];
+      for await (const chunk of provider.chatCompletionStream({
+        model: 'gemini-2.5-flash',
+        messages: [{ role: 'user', content: 'hello' }],
+      })) {
+        chunks.push(chunk);
+      }
+
+      expect(mockHttpService.post).toHaveBeenCalledWith(
+        '/models/gemini-2.5-flash:streamGenerateContent',
+        expect.any(Object),
+        expect.objectContaining({ params: { alt: 'sse' }, responseType: 'stream' }),
+      );
+      expect(chunks).toEqual([
+        {
+          id: 'r1',
+          model: 'gemini-2.5-flash',
+          delta: { role: 'assistant', content: 'Hel', tool_calls: undefined },
+          finishReason: undefined,
+        },
+        {
+          id: 'r1',
+          model: 'gemini-2.5-flash',
+          delta: { role: undefined, content: 'lo', tool_calls: undefined },
+          finishReason: 'length',
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { HttpException } from '@nestjs/common';
+import type { HttpService } from '@nestjs/axios';
+import { of, throwError } from 'rxjs';
+import { Readable } from 'stream';
+import { AxiosError, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { jest } from '@jest/globals';
+import {
+  OpenAiCompatibleProvider,
+  type OpenAiCompatibleProviderConfig,
+} from '../../../../src/modules/providers/openai-compatible.provider.js';
+import type { ChatCompletionStreamChunk } from '../../../../src/modules/providers/interfaces/provider.interface.js';
+
+describe('OpenAiCompatibleProvider', () => {
+  const mockHttpService = {
+    post: jest.fn(),
+  };
+
+  const mockConfig: OpenAiCompatibleProviderConfig = {
+    name: 'groq',
+    apiKey: 'test-key',
+    baseUrl: 'https://api.groq.test/openai/v1',
+    timeoutSecs: 5,
+  };
+
+  const createProvider = (config: Partial<OpenAiCompatibleProviderConfig> = {}) =>
+    new OpenAiCompatibleProvider(mockHttpService as unknown as HttpService, {
+      ...mockConfig,
+      ...config,
+    });
+
+  const mockRequest = {
+    model: 'llama-3.3-70b-versatile',
+    messages: [{ role: 'user', content: 'hello' } as any],
+    temperature: 0.7,
+  };
+
+  const mockResponse: AxiosResponse = {
+    data: {
+      id: 'test-id',
+      model: 'llama-3.3-70b-versatile',
+      choices: [
+        {
+          message: { role: 'assistant', content: 'response' },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: {
+        prompt_tokens: 10,
+        completion_tokens: 5,
+        total_tokens: 15,
+      },
+    },
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    config: {} as InternalAxiosRequestConfig,
+  };
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should use configured name', () => {
+    expect(createProvider().name).toBe('groq');
+  });
+
+  describe('chatCompletion', () => {
+    it('should call configured base URL with bearer auth and extra headers', async () => {
+      mockHttpService.post.mockReturnValue(of(mockResponse));
+      const provider = createProvider({ headers: { 'X-Custom': 'value' } });
+
+      const result = await provider.chatCompletion(mockRequest);
+
+      expect(mockHttpService.post).toHaveBeenCalledWith(
+        '/chat/completions',
+        expect.objectContaining({
+          model: 'llama-3.3-70b-versatile',
+          messages: mockRequest.messages,
+        }),
+        expect.objectContaining({
+          baseURL: mockConfig.baseUrl,
+          headers: expect.objectContaining({
+            Authorization: 'Bearer test-key',
+            'X-Custom': 'value',
+          }),
+        }),
+      );
+      expect(result).toEqual({
+        id: 'test-id',
+        model: 'llama-3.3-70b-versatile',
+        content: 'response',
+        finishReason: 'stop',
+        usage: {
+          promptTokens: 10,
+          completionTokens: 5,
+          totalTokens: 15,
+        },
+      });
+    });
+
+    it('should send API key in custom header when authScheme is header', async () => {
+      mockHttpService.post.mockReturnValue(of(mockResponse));
+      const provider = createProvider({ authScheme: 'header', authHeader: 'api-key' });
+
+      await provider.chatCompletion(mockRequest);
+
+      const options = mockHttpService.post.mock.calls[0]?.[2] as {
+        headers: Record<string, string>;
+      };
+      expect(options.headers['api-key']).toBe('test-key');
+      expect(options.headers['Authorization']).toBeUndefined();
+    });
+
+    it('should not send credentials when authScheme is none', async () => {
+      mockHttpService.post.mockReturnValue(of(mockResponse));
+      const provider = createProvider({ authScheme: 'none', apiKey: '' });
+
+      await provider.chatCompletion(mockRequest);
+
+      const options = mockHttpService.post.mock.calls[0]?.[2] as {
+        headers: Record<string, string>;
+      };
+      expect(options.headers['Authorization']).toBeUndefined();
+    });
+
+    it('should default usage to zero when provider omits it', async () => {
+      mockHttpService.post.mockReturnValue(
+        of({ ...mockResponse, data: { ...mockResponse.data, usage: undefined } }),
+      );
+
+      const result = await createProvider().chatCompletion(mockRequest);
+
+      expect(result.usage).toEqual({ promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+    });
+
+    it('should prefix errors with provider name', async () => {
+      const error = new AxiosError('Rate limited', '429', undefined, undefined, {
+        status: 429,
+        data: { error: { message: 'Too many requests' } },
+        statusText: 'Too Many Requests',
+        config: {} as InternalAxiosRequestConfig,
+      } as AxiosResponse);
+      mockHttpService.post.mockReturnValue(throwError(() => error));
+
+      const promise = createProvider().chatCompletion(mockRequest);
+
+      await expect(promise).rejects.toThrow(HttpException);
+      await promise.catch((e: HttpException) => {
+        expect(e.getStatus()).toBe(429);
+        const response = e.getResponse() as any;
+        expect(response.error.message).toContain('groq API error: Too many requests');
+      });
+    });
+  });
+
+  describe('extra parameters', () => {
+    const extraParams = { seed: 42, logprobs: true, top_k: 40 };
+
+    it('should forward OpenAI parameters and drop unsupported ones', async () => {
+      mockHttpService.post.mockReturnValue(
+        of({
+          ...mockResponse,
+          data: {
+            ...mockResponse.data,
+            choices: [
+              {
+                message: { role: 'assistant', content: 'response' },
+                finish_reason: 'stop',
+                logprobs: { content: [{ token: 'response', logprob: -0.1, bytes: null }] },
+              },
+            ],
+          },
+        }),
+      );
+
+      const result = await createProvider().chatCompletion({ ...mockRequest, extraParams });
+
+      const request = mockHttpService.post.mock.calls[0]?.[1] as Record<string, unknown>;
+      expect(request).toMatchObject({ seed: 42, logprobs: true });
+      expect(request).not.toHaveProperty('top_k');
+      expect(result.logprobs).toEqual({
+        content: [{ token: 'response', logprob: -0.1, bytes: null }],
+      });
+    });
+
+    it('should forward parameters listed in supportedParams', async () => {
+      mockHttpService.post.mockReturnValue(of(mockResponse));
+
+      await createProvider({ supportedParams: ['top_k'] }).chatCompletion({
+        ...mockRequest,
+        extraParams,
+      });
+
+      const request = mockHttpService.post.mock.calls[0]?.[1] as Record<string, unknown>;
+      expect(request).toMatchObject({ top_k: 40 });
+      expect(request).not.toHaveProperty('seed');
+    });
+  });
+
+  describe('chatCompletionStream', () => {
+    it('should parse SSE chunks', async () => {
+      const sse = [
+        ': keep-alive\n\n',
+        'data: {"id":"s1","model":"m","choices":[{"delta":{"role":"assistant","content":"Hel"}}]}\n\n',
+        'data: {"id":"s1","model":"m","choices":[{"delta":{"content":"lo"},"finish_reason":"stop"}]}\n\n',
+        'data: [DONE]\n\n',
+      ];
+      mockHttpService.post.mockReturnValue(of({ ...mockResponse, data: Readable.from(sse) }));
+
+      const chunks: ChatCompletionStreamChunk[] = [];
+      for await (const chunk of createProvider().chatCompletionStream(mockRequest)) {
+        chunks.push(chunk);
+      }
+
+      expect(mockHttpService.post).toHaveBeenCalledWith(
+        '/chat/completions',
+        expect.objectContaining({ stream: true }),
+        expect.objectContaining({ responseType: 'stream' }),
+      );
+      // Comment lines are forwarded to keep idle client connections alive
+      expect(chunks[0]).toEqual({
+        id: '',
+        model: mockRequest.model,
+        delta: {},
+        comment: 'keep-alive',
+      });
+      expect(chunks.slice(1).map(c => c.delta.content)).toEqual(['Hel', 'lo']);
+      expect(chunks[2]?.finishReason).toBe('stop');
+    });
+
+    it('should request usage and map the usage chunk', async () => {
+      const sse = [
+        'data: {"id":"s1","model":"m","choices":[{"delta":{"content":"Hi"},"finish_reason":"stop"}]}\n\n',
+        'data: {"id":"s1","model":"m","choices":[],"usage":{"prompt_tokens":9,"completion_tokens":2,"total_tokens":11}}\n\n',
+        'data: [DONE]\n\n',
+      ];
+      mockHttpService.post.mockReturnValue(of({ ...mockResponse, data: Readable.from(sse) }));
+
+      const chunks: ChatCompletionStreamChunk[] = [];
+      for await (const chunk of createProvider().chatCompletionStream({
+        ...mockRequest,
+        includeUsage: true,
+      })) {
+        chunks.push(chunk);
+      }
+
+      expect(mockHttpService.post).toHaveBeenCalledWith(
+        '/chat/completions',
+        expect.objectContaining({ stream_options: { include_usage: true } }),
+        expect.any(Object),
+      );
+      expect(chunks).toHaveLength(2);
+      expect(chunks[1]).toEqual({
+        id: 's1',
+        model: 'm',
+        delta: {},
+        usage: { promptTokens: 9, completionTokens: 2, totalTokens: 11 },
+      });
+    });
+  });
+});
@@ -6,6 +6,7 @@ import { AxiosError, type AxiosResponse, type InternalAxiosRequestConfig } from
 import { jest } from '@jest/globals';
 import { OpenRouterProvider } from '../../../../src/modules/providers/openrouter.provider.js';
 import type { BaseProviderConfig } from '../../../../src/modules/providers/base.provider.js';
+import { ApiKeyPool } from '../../../../src/modules/rate-limiter/api-key-pool.js';
 
 describe('OpenRouterProvider', () => {
   let provider: OpenRouterProvider;
@@ -193,7 +194,7 @@ describe('OpenRouterProvider', () => {
       expect(result.content).toBe('{"value":1}');
     });
 
-    it('should use reasoning as content fallback in non-JSON mode when content is missing', async () => {
+    it('should return reasoning separately from content', async () => {
       const responseWithReasoningOnly: AxiosResponse = {
         ...mockResponse,
         data: {
@@ -211,7 +212,26 @@ describe('OpenRouterProvider', () => {
 
       const result = await provider.chatCompletion(mockRequest);
 
-      expect(result.content).toBe('plain reasoning text');
+      // Content fallback is applied by the router (routing.reasoningAsContent)
+      expect(result.content).toBe('');
+      expect(result.reasoningContent).toBe('plain reasoning text');
+    });
+
+    it('should send unified reasoning param with thinking budget over effort', async () => {
+      jest.spyOn(httpService, 'post').mockReturnValue(of(mockResponse));
+
+      await provider.chatCompletion({
+        ...mockRequest,
+        reasoning: { effort: 'high', maxTokens: 2000, exclude: true },
+      });
+
+      expect(httpService.post).toHaveBeenCalledWith(
+        '/chat/completions',
+        expect.objectContaining({
+          reasoning: { effort: undefined, max_tokens: 2000, exclude: true },
+        }),
+        expect.any(Object),
+      );
     });
 
     it('should handle HTTP errors', async () => {
@@ -235,6 +255,26 @@ describe('OpenRouterProvider', () => {
       }
     });
 
+    it.each([
+      [{ 'retry-after': '7' }, 7000],
+      [{ 'retry-after': new Date(Date.now() + 60_000).toUTCString() }, 60_000],
+      [{ 'x-ratelimit-reset': String(Date.now() + 30_000) }, 30_000],
+      [{ 'x-ratelimit-reset-requests': '1m30s', 'x-ratelimit-reset-tokens': '250ms' }, 90_000],
+    ])('should carry advised retry delay from rate limit headers %j', async (headers, expected) => {
+      const error = new AxiosError('Rate Limit', '429', undefined, undefined, {
+        status: 429,
+        data: { error: { message: 'Too Many Requests' } },
+        headers,
+      } as unknown as AxiosResponse);
+
+      jest.spyOn(httpService, 'post').mockReturnValue(throwError(() => error));
+
+      const ex = (await provider.chatCompletion(mockRequest).catch(e => e)) as HttpException;
+      const response = ex.getResponse() as any;
+      expect(response.error.retry_after_ms).toBeGreaterThan(expected - 2000);
+      expect(response.error.retry_after_ms).toBeLessThanOrEqual(expected);
+    });
+
     it('should include provider error message for 400 responses', async () => {
       const error = new AxiosError('Bad Request', '400', undefined, undefined, {
         status: 400,
@@ -299,5 +339,27 @@ describe('OpenRouterProvider', () => {
       const result = await provider.chatCompletion(mockRequest);
       expect(result.finishReason).toBe('stop');
     });
+
+    it('should rotate API keys from pool and exclude key that hit quota', async () => {
+      const apiKeyPool = new ApiKeyPool(['key-a', 'key-b'], 'round-robin', 60_000);
+      const pooledProvider = new OpenRouterProvider(httpService, { ...mockConfig, apiKeyPool });
+      const quotaError = new AxiosError('Payment Required', '402', undefined, undefined, {
+        status: 402,
+        data: { error: { message: 'Insufficient credits' } },
+      } as AxiosResponse);
+      const post = jest
+        .spyOn(httpService, 'post')
+        .mockReturnValueOnce(throwError(() => quotaError))
+        .mockReturnValue(of(mockResponse));
+
+      await expect(pooledProvider.chatCompletion(mockRequest)).rejects.toThrow(HttpException);
+      await pooledProvider.chatCompletion(mockRequest);
+      await pooledProvider.chatCompletion(mockRequest);
+
+      const authHeaders = post.mock.calls.map(
+        call => (call[2]?.headers as Record<string, string>).Authorization,
+      );
+      expect(authHeaders).toEqual(['Bearer key-a', 'Bearer key-b', 'Bearer key-b']);
+    });
   });
 });
@@ -0,0 +1,86 @@
+import type { HttpService } from '@nestjs/axios';
+import { jest } from '@jest/globals';
+import { of } from 'rxjs';
+import { ProvidersModule } from '../../../../src/modules/providers/providers.module.js';
+import { OpenRouterProvider } from '../../../../src/modules/providers/openrouter.provider.js';
+import { DeepSeekProvider } from '../../../../src/modules/providers/deepseek.provider.js';
+import { AnthropicProvider } from '../../../../src/modules/providers/anthropic.provider.js';
+import { GeminiProvider } from '../../../../src/modules/providers/gemini.provider.js';
+import { OpenAiCompatibleProvider } from '../../../../src/modules/providers/openai-compatible.provider.js';
+
+describe('ProvidersModule', () => {
+  const httpService = {} as HttpService;
+
+  describe('createProvider', () => {
+    it('should infer built-in provider type from name', () => {
+      expect(
+        ProvidersModule.createProvider(
+          'openrouter',
+          { enabled: true, apiKey: 'k' },
+          30,
+          httpService,
+        ),
+      ).toBeInstanceOf(OpenRouterProvider);
+      expect(
+        ProvidersModule.createProvider('deepseek', { enabled: true, apiKey: 'k' }, 30, httpService),
+      ).toBeInstanceOf(DeepSeekProvider);
+      expect(
+        ProvidersModule.createProvider(
+          'anthropic',
+          { enabled: true, apiKey: 'k' },
+          30,
+          httpService,
+        ),
+      ).toBeInstanceOf(AnthropicProvider);
+      expect(
+        ProvidersModule.createProvider('gemini', { enabled: true, apiKey: 'k' }, 30, httpService),
+      ).toBeInstanceOf(GeminiProvider);
+    });
+
+    it('should create named openai-compatible provider', () => {
+      const provider = ProvidersModule.createProvider(
+        'together',
+        {
+          enabled: true,
+          type: 'openai-compatible',
+          apiKey: 'k',
+          baseUrl: 'https://api.together.xyz/v1',
+        },
+        30,
+        httpService,
+      );
+
+      expect(provider).toBeInstanceOf(OpenAiCompatibleProvider);
+      expect(provider.name).toBe('together');
+    });
+
+    it('should create ollama provider on OpenAI-compatible endpoint without auth', async () => {
+      const post = jest.fn(() => of({ data: { id: 'x', model: 'm', choices: [] } }));
+      const provider = ProvidersModule.createProvider(
+        'ollama',
+        { enabled: true, baseUrl: 'http://gpu-box:11434/' },
+        30,
+        { post } as unknown as HttpService,
+      );
+
+      expect(provider).toBeInstanceOf(OpenAiCompatibleProvider);
+      expect(provider.name).toBe('ollama');
+
+      await provider.chatCompletion({ model: 'llama3.2:3b', messages: [] }).catch(() => undefined);
+      expect(post).toHaveBeenCalledWith(
+        '/chat/completions',
+        expect.any(Object),
+        expect.objectContaining({
+          baseURL: 'http://gpu-box:11434/v1',
+          headers: expect.not.objectContaining({ Authorization: expect.anything() }),
+        }),
+      );
+    });
+
+    it('should throw for unknown provider without type', () => {
+      expect(() =>
+        ProvidersModule.createProvider('unknown', { enabled: true, apiKey: 'k' }, 30, httpService),
+      ).toThrow('Unknown provider type');
+    });
+  });
+});
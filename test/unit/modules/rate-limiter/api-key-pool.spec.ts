@@ -0,0 +1,93 @@
+import { jest, describe, it, expect, afterEach } from '@jest/globals';
+import { ApiKeyPool } from '../../../../src/modules/rate-limiter/api-key-pool.js';
+
+describe('ApiKeyPool', () => {
+  const COOLDOWN_MS = 60_000;
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('round-robin', () => {
+    it('should use keys in turn', () => {
+      const pool = new ApiKeyPool(['key-a', 'key-b', 'key-c'], 'round-robin', COOLDOWN_MS);
+
+      expect([pool.acquire(), pool.acquire(), pool.acquire(), pool.acquire()]).toEqual([
+        'key-a',
+        'key-b',
+        'key-c',
+        'key-a',
+      ]);
+    });
+
+    it('should skip limited keys until cooldown ends', () => {
+      jest.useFakeTimers();
+      const pool = new ApiKeyPool(['key-a', 'key-b'], 'round-robin', COOLDOWN_MS);
+
+      pool.markLimited('key-a');
+      expect([pool.acquire(), pool.acquire()]).toEqual(['key-b', 'key-b']);
+
+      jest.advanceTimersByTime(COOLDOWN_MS + 1);
+      expect([pool.acquire(), pool.acquire()]).toEqual(['key-a', 'key-b']);
+    });
+  });
+
+  describe('least-recently-limited', () => {
+    it('should stick to a key until it is limited', () => {
+      jest.useFakeTimers();
+      const pool = new ApiKeyPool(['key-a', 'key-b'], 'least-recently-limited', 1000);
+
+      expect([pool.acquire(), pool.acquire()]).toEqual(['key-a', 'key-a']);
+
+      pool.markLimited('key-a');
+      expect(pool.acquire()).toBe('key-b');
+
+      jest.advanceTimersByTime(500);
+      pool.markLimited('key-b');
+      jest.advanceTimersByTime(600);
+
+      // key-a cooldown ended and it was limited earlier than key-b
+      expect(pool.acquire()).toBe('key-a');
+    });
+  });
+
+  it('should return key with the earliest cooldown end when all keys are limited', () => {
+    jest.useFakeTimers();
+    const pool = new ApiKeyPool(['key-a', 'key-b'], 'round-robin', COOLDOWN_MS);
+
+    pool.markLimited('key-b');
+    jest.advanceTimersByTime(1000);
+    pool.markLimited('key-a');
+
+    expect(pool.hasAvailableKey()).toBe(false);
+    expect(pool.acquire()).toBe('key-b');
+  });
+
+  it('should report per-key counters with masked keys', () => {
+    const pool = new ApiKeyPool(['sk-or-v1-aaaa1111', 'short'], 'round-robin', COOLDOWN_MS);
+
+    pool.acquire();
+    pool.acquire();
+    pool.markLimited('short');
+
+    const status = pool.getStatus();
+    expect(status).toEqual([
+      {
+        key: '...1111',
+        requests: 1,
+        limitedCount: 0,
+        excluded: false,
+        excludedUntil: undefined,
+        lastLimitedAt: undefined,
+      },
+      {
+        key: '***',
+        requests: 1,
+        limitedCount: 1,
+        excluded: true,
+        excludedUntil: expect.any(String),
+        lastLimitedAt: expect.any(String),
+      },
+    ]);
+  });
+});
@@ -94,6 +94,123 @@ describe('RateLimiterService', () => {
     });
   });
 
+  describe('api key pools', () => {
+    beforeEach(async () => {
+      const config = createMockConfig(undefined);
+      config.providers.openrouter = {
+        enabled: true,
+        apiKey: 'key-1',
+        apiKeys: ['key-1', 'key-2'],
+        keyCooldownSecs: 120,
+      };
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [RateLimiterService, { provide: ROUTER_CONFIG, useValue: config }],
+      }).compile();
+
+      service = module.get<RateLimiterService>(RateLimiterService);
+    });
+
+    it('should create pool only for providers with apiKeys', () => {
+      expect(service.getApiKeyPool('openrouter')?.size).toBe(2);
+      expect(service.getApiKeyPool('deepseek')).toBeUndefined();
+      expect(service.hasAvailableApiKey('deepseek')).toBe(false);
+    });
+
+    it('should include per-key counters in status', () => {
+      const pool = service.getApiKeyPool('openrouter');
+      pool?.acquire();
+      pool?.markLimited('key-1');
+
+      const status = service.getStatus();
+      expect(status.apiKeys?.openrouter).toHaveLength(2);
+      expect(status.apiKeys?.openrouter?.[0]).toMatchObject({
+        requests: 1,
+        limitedCount: 1,
+        excluded: true,
+      });
+      expect(service.hasAvailableApiKey('openrouter')).toBe(true);
+    });
+  });
+
+  describe('client quotas', () => {
+    const client = {
+      name: 'n8n',
+      apiKey: 'client-key',
+      requestsPerMinute: 2,
+      tokensPerDay: 1000,
+      paidFallbackPerDay: 1,
+    };
+
+    beforeEach(async () => {
+      const config = createMockConfig(undefined);
+      config.clients = [client, { name: 'unlimited', apiKey: 'other-key' }];
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [RateLimiterService, { provide: ROUTER_CONFIG, useValue: config }],
+      }).compile();
+
+      service = module.get<RateLimiterService>(RateLimiterService);
+    });
+
+    it('should limit requests per minute', () => {
+      jest.useFakeTimers();
+
+      expect(service.checkClient(client)).toEqual({ allowed: true });
+      expect(service.checkClient(client)).toEqual({ allowed: true });
+      expect(service.checkClient(client)).toEqual({
+        allowed: false,
+        limit: 'requestsPerMinute',
+        retryAfterSecs: 30,
+      });
+
+      jest.advanceTimersByTime(30_000);
+      expect(service.checkClient(client).allowed).toBe(true);
+    });
+
+    it('should reject requests after tokens per day are used up', () => {
+      jest.useFakeTimers();
+
+      service.recordClientTokens(client, 1500);
+
+      expect(service.checkClient(client)).toEqual({
+        allowed: false,
+        limit: 'tokensPerDay',
+        retryAfterSecs: 43_287, // 501 tokens at 1000 tokens/day
+      });
+    });
+
+    it('should limit paid fallback calls per day', () => {
+      expect(service.checkClientFallback(client)).toBe(true);
+      expect(service.checkClientFallback(client)).toBe(false);
+    });
+
+    it('should not limit clients without quotas', () => {
+      const unlimited = { name: 'unlimited', apiKey: 'other-key' };
+
+      for (let i = 0; i < 5; i++) {
+        expect(service.checkClient(unlimited).allowed).toBe(true);
+      }
+      service.recordClientTokens(unlimited, 1_000_000);
+      expect(service.checkClient(unlimited).allowed).toBe(true);
+      expect(service.checkClientFallback(unlimited)).toBe(true);
+    });
+
+    it('should include client quotas in status', () => {
+      service.checkClient(client);
+      service.recordClientTokens(client, 300);
+
+      const status = service.getStatus();
+      expect(status.clients).toEqual({
+        n8n: {
+          requestsPerMinute: { limit: 2, remaining: 1 },
+          tokensPerDay: { limit: 1000, remaining: 700 },
+          paidFallbackPerDay: { limit: 1, remaining: 1 },
+        },
+      });
+    });
+  });
+
   describe('token bucket refill', () => {
     beforeEach(async () => {
       const module: TestingModule = await Test.createTestingModule({
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { CompletionConverterService } from '../../../../src/modules/router/services/completion-converter.service.js';
+import type { ChatCompletionResponseDto } from '../../../../src/modules/router/dto/chat-completion.response.dto.js';
+
+describe('CompletionConverterService', () => {
+  let service: CompletionConverterService;
+
+  const mockResponse: ChatCompletionResponseDto = {
+    id: 'test-id',
+    object: 'chat.completion',
+    created: 1700000000,
+    model: 'test/model',
+    choices: [
+      { index: 0, message: { role: 'assistant', content: ' world' }, finish_reason: 'length' },
+    ],
+    usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+    _router: {
+      provider: 'openrouter',
+      model_name: 'test-model',
+      attempts: 1,
+      fallback_used: false,
+    },
+  };
+
+  beforeEach(() => {
+    service = new CompletionConverterService();
+  });
+
+  describe('toChatRequest', () => {
+    it('should keep sampling and routing options', () => {
+      // Act
+      const result = service.toChatRequest({
+        prompt: ['Hello'],
+        echo: true,
+        temperature: 0.2,
+        stop: ['\n'],
+        model: 'auto',
+        stream: true,
+      });
+
+      // Assert
+      expect(result).toEqual({
+        temperature: 0.2,
+        stop: ['\n'],
+        model: 'auto',
+        stream: true,
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+    });
+
+    it('should ask for the text between prompt and suffix', () => {
+      // Act
+      const result = service.toChatRequest({
+        prompt: 'def add(a, b):\n',
+        suffix: '\n\nprint(add(1, 2))',
+      });
+
+      // Assert
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0].content).toContain('<prefix>def add(a, b):\n</prefix>');
+      expect(result.messages[0].content).toContain('<suffix>\n\nprint(add(1, 2))</suffix>');
+    });
+  });
+
+  describe('toCompletionResponse', () => {
+    it('should map chat response to text completion', () => {
+      // Act
+      const result = service.toCompletionResponse(mockResponse, { prompt: 'Hello' });
+
+      // Assert
+      expect(result).toEqual({
+        id: 'test-id',
+        object: 'text_completion',
+        created: 1700000000,
+        model: 'test/model',
+        choices: [{ index: 0, text: ' world', logprobs: null, finish_reason: 'length' }],
+        usage: mockResponse.usage,
+        _router: mockResponse._router,
+      });
+    });
+
+    it('should prepend prompt with echo', () => {
+      // Act
+      const result = service.toCompletionResponse(mockResponse, { prompt: 'Hello', echo: true });
+
+      // Assert
+      expect(result.choices[0].text).toBe('Hello world');
+    });
+  });
+
+  describe('createSseFormatter', () => {
+    it('should send usage chunk without choices', () => {
+      // Arrange
+      const formatter = service.createSseFormatter({ prompt: 'Hello' });
+
+      // Act
+      const payload = formatter.chunk({
+        id: 'chunk-1',
+        model: 'test/model',
+        delta: {},
+        usage: { promptTokens: 3, completionTokens: 1, totalTokens: 4 },
+      });
+
+      // Assert
+      expect(JSON.parse(payload.replace(/^data: /, ''))).toMatchObject({
+        object: 'text_completion',
+        choices: [],
+        usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+      });
+      expect(formatter.done()).toBe('data: [DONE]\n\n');
+    });
+  });
+});
@@ -77,6 +77,8 @@ describe('RouterService - JSON Response', () => {
           provide: RateLimiterService,
           useValue: {
             checkModel: jest.fn().mockReturnValue(true),
+            getApiKeyPool: jest.fn().mockReturnValue(undefined),
+            hasAvailableApiKey: jest.fn().mockReturnValue(false),
           },
         },
         {
@@ -0,0 +1,366 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { MessagesConverterService } from '../../../../src/modules/router/services/messages-converter.service.js';
+import type { ModelsService } from '../../../../src/modules/models/models.service.js';
+import type { ModelDefinition } from '../../../../src/modules/models/interfaces/model.interface.js';
+import type { ChatCompletionResponseDto } from '../../../../src/modules/router/dto/chat-completion.response.dto.js';
+import type { ChatCompletionStreamChunk } from '../../../../src/modules/providers/interfaces/provider.interface.js';
+
+describe('MessagesConverterService', () => {
+  let service: MessagesConverterService;
+  let modelsService: jest.Mocked<ModelsService>;
+
+  const mockResponse: ChatCompletionResponseDto = {
+    id: 'test-id',
+    object: 'chat.completion',
+    created: 1700000000,
+    model: 'test/model',
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: 'Checking the weather',
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+            },
+          ],
+        },
+        finish_reason: 'tool_calls',
+      },
+    ],
+    usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 },
+    _router: {
+      provider: 'openrouter',
+      model_name: 'test-model',
+      attempts: 1,
+      fallback_used: false,
+    },
+  };
+
+  /**
+   * Parse SSE payload into event objects
+   */
+  const parseEvents = (payload: string) =>
+    payload
+      .split('\n\n')
+      .filter(Boolean)
+      .map(block => {
+        const [eventLine, dataLine] = block.split('\n');
+        return {
+          event: eventLine.replace(/^event: /, ''),
+          data: JSON.parse(dataLine.replace(/^data: /, '')),
+        };
+      });
+
+  beforeEach(() => {
+    modelsService = {
+      findByNameAndProvider: jest.fn().mockReturnValue([]),
+    } as any;
+    service = new MessagesConverterService(modelsService);
+  });
+
+  describe('toChatRequest', () => {
+    it('should convert system and content blocks into chat messages', () => {
+      // Act
+      const result = service.toChatRequest({
+        system: [
+          { type: 'text', text: 'You are helpful' },
+          { type: 'text', text: 'Use metric units' },
+        ],
+        max_tokens: 1024,
+        messages: [
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            role: 'assistant',
+            content: [
+              { type: 'thinking' },
+              { type: 'text', text: 'Let me check' },
+              { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+            ],
+          },
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'tool_result',
+                tool_use_id: 'toolu_1',
+                content: [{ type: 'text', text: '20C' }],
+              },
+              { type: 'text', text: 'And this place?' },
+              { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+            ],
+          },
+        ],
+      });
+
+      // Assert
+      expect(result.messages).toEqual([
+        { role: 'system', content: 'You are helpful\nUse metric units' },
+        { role: 'user', content: 'Weather in Paris?' },
+        {
+          role: 'assistant',
+          content: 'Let me check',
+          tool_calls: [
+            {
+              id: 'toolu_1',
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+            },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'toolu_1', content: '20C' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'And this place?' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+          ],
+        },
+      ]);
+    });
+
+    it('should map tools, tool_choice, stop_sequences and options', () => {
+      // Act
+      const result = service.toChatRequest({
+        max_tokens: 256,
+        messages: [{ role: 'user', content: 'Hi' }],
+        stop_sequences: ['###'],
+        temperature: 0.5,
+        top_k: 40,
+        metadata: { user_id: 'user-1' },
+        thinking: { type: 'enabled', budget_tokens: 2048 },
+        tools: [
+          {
+            name: 'get_weather',
+            description: 'Get weather',
+            input_schema: { type: 'object', properties: { city: { type: 'string' } } },
+          },
+        ],
+        tool_choice: { type: 'tool', name: 'get_weather', disable_parallel_tool_use: true },
+        tags: ['code'],
+        stream: true,
+      });
+
+      // Assert
+      expect(result).toEqual({
+        messages: [{ role: 'user', content: 'Hi' }],
+        max_tokens: 256,
+        stop: ['###'],
+        temperature: 0.5,
+        top_k: 40,
+        user: 'user-1',
+        reasoning: { max_tokens: 2048 },
+        tools: [
+          {
+            type: 'function',
+            function: {
+              name: 'get_weather',
+              description: 'Get weather',
+              parameters: { type: 'object', properties: { city: { type: 'string' } } },
+            },
+          },
+        ],
+        tool_choice: { type: 'function', function: { name: 'get_weather' } },
+        parallel_tool_calls: false,
+        tags: ['code'],
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+    });
+
+    it('should default missing input_schema properties', () => {
+      // Act
+      const result = service.toChatRequest({
+        max_tokens: 16,
+        messages: [{ role: 'user', content: 'Hi' }],
+        tools: [{ name: 'get_time', input_schema: { type: 'object' } }],
+      });
+
+      // Assert
+      expect(result.tools?.[0].function.parameters).toEqual({ type: 'object', properties: {} });
+    });
+
+    it('should map tool_choice any to required', () => {
+      // Act
+      const result = service.toChatRequest({
+        max_tokens: 16,
+        messages: [{ role: 'user', content: 'Hi' }],
+        tool_choice: { type: 'any' },
+      });
+
+      // Assert
+      expect(result.tool_choice).toBe('required');
+    });
+
+    it('should route unknown model ids with Smart Strategy', () => {
+      // Arrange
+      modelsService.findByNameAndProvider.mockImplementation(name =>
+        name === 'deepseek-r1' ? [{ name } as ModelDefinition] : [],
+      );
+      const request = { max_tokens: 16, messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+      // Act & Assert
+      expect(service.toChatRequest({ ...request, model: 'claude-sonnet-4-5' }).model).toBe(
+        undefined,
+      );
+      expect(service.toChatRequest({ ...request, model: 'deepseek-r1' }).model).toBe('deepseek-r1');
+    });
+  });
+
+  describe('toMessagesResponse', () => {
+    it('should map message and tool calls to content blocks', () => {
+      // Act
+      const result = service.toMessagesResponse(mockResponse);
+
+      // Assert
+      expect(result).toEqual({
+        id: 'test-id',
+        type: 'message',
+        role: 'assistant',
+        model: 'test/model',
+        content: [
+          { type: 'text', text: 'Checking the weather' },
+          { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } },
+        ],
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 12, output_tokens: 8 },
+        _router: mockResponse._router,
+      });
+    });
+
+    it('should map length finish reason to max_tokens', () => {
+      // Act
+      const result = service.toMessagesResponse({
+        ...mockResponse,
+        choices: [
+          { index: 0, message: { role: 'assistant', content: 'Hel' }, finish_reason: 'length' },
+        ],
+      });
+
+      // Assert
+      expect(result.stop_reason).toBe('max_tokens');
+      expect(result.content).toEqual([{ type: 'text', text: 'Hel' }]);
+    });
+  });
+
+  describe('createSseFormatter', () => {
+    it('should emit text and tool_use blocks with final usage', () => {
+      // Arrange
+      const formatter = service.createSseFormatter();
+      const chunks: ChatCompletionStreamChunk[] = [
+        {
+          id: 'gen-1',
+          model: 'test/model',
+          delta: { role: 'assistant', content: 'Let me ' },
+          _router: { provider: 'openrouter', model_name: 'test-model' },
+        },
+        { id: 'gen-1', model: 'test/model', delta: { content: 'check' } },
+        {
+          id: 'gen-1',
+          model: 'test/model',
+          delta: {
+            tool_calls: [
+              { index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather' } },
+            ],
+          },
+        },
+        {
+          id: 'gen-1',
+          model: 'test/model',
+          delta: { tool_calls: [{ index: 0, function: { arguments: '{"city":"Paris"}' } }] },
+          finishReason: 'tool_calls',
+        },
+        {
+          id: 'gen-1',
+          model: 'test/model',
+          delta: {},
+          usage: { promptTokens: 5, completionTokens: 9, totalTokens: 14 },
+          _router: { provider: 'openrouter', model_name: 'test-model', attempts: 1 },
+        },
+      ];
+
+      // Act
+      const events = parseEvents(
+        chunks.map(chunk => formatter.chunk(chunk)).join('') + formatter.done(),
+      );
+
+      // Assert
+      expect(events.map(e => e.event)).toEqual([
+        'message_start',
+        'content_block_start',
+        'content_block_delta',
+        'content_block_delta',
+        'content_block_stop',
+        'content_block_start',
+        'content_block_delta',
+        'content_block_stop',
+        'message_delta',
+        'message_stop',
+      ]);
+      expect(events[0].data.message).toMatchObject({
+        id: 'gen-1',
+        type: 'message',
+        role: 'assistant',
+        content: [],
+        stop_reason: null,
+      });
+      expect(events[2].data).toEqual({
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'text_delta', text: 'Let me ' },
+      });
+      expect(events[5].data).toEqual({
+        type: 'content_block_start',
+        index: 1,
+        content_block: { type: 'tool_use', id: 'call_1', name: 'get_weather', input: {} },
+      });
+      expect(events[6].data.delta).toEqual({
+        type: 'input_json_delta',
+        partial_json: '{"city":"Paris"}',
+      });
+      expect(events[8].data).toEqual({
+        type: 'message_delta',
+        delta: { stop_reason: 'tool_use', stop_sequence: null },
+        usage: { input_tokens: 5, output_tokens: 9 },
+        _router: { provider: 'openrouter', model_name: 'test-model', attempts: 1 },
+      });
+    });
+
+    it('should emit Anthropic error event', () => {
+      // Arrange
+      const formatter = service.createSseFormatter();
+
+      // Act
+      const [event] = parseEvents(
+        formatter.error({
+          error: { message: 'All models failed', type: 'server_error', code: 'all_models_failed' },
+        }),
+      );
+
+      // Assert
+      expect(event).toEqual({
+        event: 'error',
+        data: { type: 'error', error: { type: 'api_error', message: 'All models failed' } },
+      });
+    });
+
+    it('should fall back to api_error for unknown error types', () => {
+      // Arrange
+      const formatter = service.createSseFormatter();
+
+      // Act
+      const [event] = parseEvents(
+        formatter.error({
+          error: { message: 'Upstream failed', type: 'provider_error' as any, code: 500 },
+        }),
+      );
+
+      // Assert
+      expect(event.data.error).toEqual({ type: 'api_error', message: 'Upstream failed' });
+    });
+  });
+});
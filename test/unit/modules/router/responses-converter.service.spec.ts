@@ -0,0 +1,337 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { ResponsesConverterService } from '../../../../src/modules/router/services/responses-converter.service.js';
+import type { ChatCompletionResponseDto } from '../../../../src/modules/router/dto/chat-completion.response.dto.js';
+import type { ChatCompletionStreamChunk } from '../../../../src/modules/providers/interfaces/provider.interface.js';
+
+describe('ResponsesConverterService', () => {
+  let service: ResponsesConverterService;
+
+  const mockResponse: ChatCompletionResponseDto = {
+    id: 'test-id',
+    object: 'chat.completion',
+    created: 1700000000,
+    model: 'test/model',
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: 'Checking the weather',
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+            },
+          ],
+        },
+        finish_reason: 'tool_calls',
+      },
+    ],
+    usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 },
+    _router: {
+      provider: 'openrouter',
+      model_name: 'test-model',
+      attempts: 1,
+      fallback_used: false,
+    },
+  };
+
+  /**
+   * Parse SSE payload into event objects
+   */
+  const parseEvents = (payload: string) =>
+    payload
+      .split('\n\n')
+      .filter(Boolean)
+      .map(block => {
+        const [eventLine, dataLine] = block.split('\n');
+        return {
+          event: eventLine.replace(/^event: /, ''),
+          data: JSON.parse(dataLine.replace(/^data: /, '')),
+        };
+      });
+
+  beforeEach(() => {
+    service = new ResponsesConverterService();
+  });
+
+  describe('toChatRequest', () => {
+    it('should convert instructions and input items into messages', () => {
+      // Act
+      const result = service.toChatRequest({
+        instructions: 'You are helpful',
+        input: [
+          { role: 'developer', content: 'Use metric units' },
+          { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Weather?' }] },
+          { type: 'reasoning' },
+          { type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{}' },
+          { type: 'function_call', call_id: 'call_2', name: 'get_time', arguments: '{}' },
+          { type: 'function_call_output', call_id: 'call_1', output: '20C' },
+          {
+            role: 'user',
+            content: [
+              { type: 'input_text', text: 'And here?' },
+              { type: 'input_image', image_url: 'https://example.com/a.png', detail: 'low' },
+            ],
+          },
+        ],
+        model: 'auto',
+      });
+
+      // Assert
+      expect(result.model).toBe('auto');
+      expect(result.messages).toEqual([
+        { role: 'system', content: 'You are helpful' },
+        { role: 'system', content: 'Use metric units' },
+        { role: 'user', content: 'Weather?' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{}' },
+            },
+            { id: 'call_2', type: 'function', function: { name: 'get_time', arguments: '{}' } },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: '20C' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'And here?' },
+            { type: 'image_url', image_url: { url: 'https://example.com/a.png', detail: 'low' } },
+          ],
+        },
+      ]);
+    });
+
+    it('should map tools, tool_choice, text.format and sampling options', () => {
+      // Act
+      const result = service.toChatRequest({
+        input: 'Hi',
+        max_output_tokens: 100,
+        temperature: 0.3,
+        reasoning: { effort: 'high' },
+        tools: [
+          {
+            type: 'function',
+            name: 'get_weather',
+            description: 'Get weather',
+            parameters: { type: 'object', properties: { city: { type: 'string' } } },
+            strict: true,
+          },
+        ],
+        tool_choice: { type: 'function', name: 'get_weather' },
+        text: {
+          format: { type: 'json_schema', name: 'answer', schema: { type: 'object' }, strict: true },
+        },
+        stream: true,
+      });
+
+      // Assert
+      expect(result).toEqual({
+        messages: [{ role: 'user', content: 'Hi' }],
+        max_tokens: 100,
+        temperature: 0.3,
+        reasoning_effort: 'high',
+        tools: [
+          {
+            type: 'function',
+            function: {
+              name: 'get_weather',
+              description: 'Get weather',
+              parameters: { type: 'object', properties: { city: { type: 'string' } } },
+            },
+          },
+        ],
+        tool_choice: { type: 'function', function: { name: 'get_weather' } },
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'answer', schema: { type: 'object' }, strict: true },
+        },
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+    });
+  });
+
+  describe('toResponsesResponse', () => {
+    it('should map message and tool calls to output items', () => {
+      // Act
+      const result = service.toResponsesResponse(mockResponse);
+
+      // Assert
+      expect(result).toEqual({
+        id: 'test-id',
+        object: 'response',
+        created_at: 1700000000,
+        status: 'completed',
+        incomplete_details: null,
+        model: 'test/model',
+        output: [
+          {
+            type: 'message',
+            id: 'msg_test-id',
+            status: 'completed',
+            role: 'assistant',
+            content: [{ type: 'output_text', text: 'Checking the weather', annotations: [] }],
+          },
+          {
+            type: 'function_call',
+            id: 'fc_call_1',
+            call_id: 'call_1',
+            name: 'get_weather',
+            arguments: '{"city":"Paris"}',
+            status: 'completed',
+          },
+        ],
+        usage: { input_tokens: 12, output_tokens: 8, total_tokens: 20 },
+        _router: mockResponse._router,
+      });
+    });
+
+    it('should mark truncated response as incomplete', () => {
+      // Act
+      const result = service.toResponsesResponse({
+        ...mockResponse,
+        choices: [{ ...mockResponse.choices[0], finish_reason: 'length' }],
+      });
+
+      // Assert
+      expect(result.status).toBe('incomplete');
+      expect(result.incomplete_details).toEqual({ reason: 'max_output_tokens' });
+    });
+  });
+
+  describe('createSseFormatter', () => {
+    it('should emit text deltas and completed response with usage', () => {
+      // Arrange
+      const formatter = service.createSseFormatter();
+      const chunks: ChatCompletionStreamChunk[] = [
+        {
+          id: 'gen-1',
+          model: 'test/model',
+          delta: { role: 'assistant', content: 'Hel' },
+          _router: { provider: 'openrouter', model_name: 'test-model' },
+        },
+        { id: 'gen-1', model: 'test/model', delta: { content: 'lo' }, finishReason: 'stop' },
+        {
+          id: 'gen-1',
+          model: 'test/model',
+          delta: {},
+          usage: { promptTokens: 5, completionTokens: 2, totalTokens: 7 },
+          _router: { provider: 'openrouter', model_name: 'test-model', attempts: 1 },
+        },
+      ];
+
+      // Act
+      const events = parseEvents(
+        chunks.map(chunk => formatter.chunk(chunk)).join('') + formatter.done(),
+      );
+
+      // Assert
+      expect(events.map(e => e.event)).toEqual([
+        'response.created',
+        'response.output_item.added',
+        'response.content_part.added',
+        'response.output_text.delta',
+        'response.output_text.delta',
+        'response.output_text.done',
+        'response.content_part.done',
+        'response.output_item.done',
+        'response.completed',
+      ]);
+      expect(events.map(e => e.data.sequence_number)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+      expect(events[3].data).toMatchObject({ item_id: 'msg_gen-1', output_index: 0, delta: 'Hel' });
+      expect(events[5].data.text).toBe('Hello');
+      expect(events[8].data.response).toMatchObject({
+        id: 'gen-1',
+        status: 'completed',
+        output: [{ type: 'message', status: 'completed', content: [{ text: 'Hello' }] }],
+        usage: { input_tokens: 5, output_tokens: 2, total_tokens: 7 },
+        _router: { provider: 'openrouter', model_name: 'test-model', attempts: 1 },
+      });
+    });
+
+    it('should emit function call items from tool call deltas', () => {
+      // Arrange
+      const formatter = service.createSseFormatter();
+      const chunks: ChatCompletionStreamChunk[] = [
+        {
+          id: 'gen-2',
+          model: 'test/model',
+          delta: {
+            tool_calls: [
+              { index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather' } },
+            ],
+          },
+        },
+        {
+          id: 'gen-2',
+          model: 'test/model',
+          delta: { tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] },
+        },
+        {
+          id: 'gen-2',
+          model: 'test/model',
+          delta: { tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }] },
+          finishReason: 'tool_calls',
+        },
+      ];
+
+      // Act
+      const events = parseEvents(
+        chunks.map(chunk => formatter.chunk(chunk)).join('') + formatter.done(),
+      );
+
+      // Assert
+      expect(events.map(e => e.event)).toEqual([
+        'response.created',
+        'response.output_item.added',
+        'response.function_call_arguments.delta',
+        'response.function_call_arguments.delta',
+        'response.function_call_arguments.done',
+        'response.output_item.done',
+        'response.completed',
+      ]);
+      expect(events[4].data.arguments).toBe('{"city":"Paris"}');
+      expect(events[6].data.response.output).toEqual([
+        {
+          type: 'function_call',
+          id: 'fc_call_1',
+          call_id: 'call_1',
+          name: 'get_weather',
+          arguments: '{"city":"Paris"}',
+          status: 'completed',
+        },
+      ]);
+    });
+
+    it('should emit error event', () => {
+      // Arrange
+      const formatter = service.createSseFormatter();
+
+      // Act
+      const [event] = parseEvents(
+        formatter.error({
+          error: { message: 'All models failed', type: 'server_error', code: 'all_models_failed' },
+        }),
+      );
+
+      // Assert
+      expect(event).toEqual({
+        event: 'error',
+        data: {
+          type: 'error',
+          sequence_number: 0,
+          code: 'all_models_failed',
+          message: 'All models failed',
+          param: null,
+        },
+      });
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { HttpException } from '@nestjs/common';
 import { RetryHandlerService } from '../../../../src/modules/router/services/retry-handler.service.js';
+import { RequestDeadline } from '../../../../src/modules/router/utils/request-deadline.js';
 
 describe('RetryHandlerService', () => {
   let service: RetryHandlerService;
@@ -9,10 +11,38 @@ describe('RetryHandlerService', () => {
   });
 
   afterEach(() => {
-    jest.clearAllMocks();
+    jest.restoreAllMocks();
     jest.useRealTimers();
   });
 
+  describe('calculateRetryDelay', () => {
+    it('should apply jitter around fixed delay', () => {
+      for (let i = 0; i < 20; i++) {
+        const delay = service.calculateRetryDelay(1000);
+        expect(delay).toBeGreaterThanOrEqual(800);
+        expect(delay).toBeLessThanOrEqual(1200);
+      }
+    });
+
+    it('should double delay on each retry with exponential backoff', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5); // no jitter
+      const policy = { strategy: 'exponential' as const, maxDelay: 500 };
+
+      expect(
+        [1, 2, 3, 4].map(attempt => service.calculateRetryDelay(100, attempt, policy)),
+      ).toEqual([100, 200, 400, 500]);
+    });
+
+    it('should grow from previous delay with decorrelated jitter', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+      const policy = { strategy: 'decorrelated-jitter' as const, maxDelay: 2000 };
+
+      expect(service.calculateRetryDelay(100, 1, policy)).toBe(300);
+      expect(service.calculateRetryDelay(100, 2, policy, 300)).toBe(900);
+      expect(service.calculateRetryDelay(100, 3, policy, 900)).toBe(2000);
+    });
+  });
+
   describe('sleep', () => {
     it('should resolve after delay without abortSignal', async () => {
       jest.useFakeTimers();
@@ -52,6 +82,89 @@ describe('RetryHandlerService', () => {
   });
 
   describe('executeWithRetry', () => {
+    const rateLimitError = (retryAfterMs: number) =>
+      new HttpException(
+        { error: { message: 'Too Many Requests', retry_after_ms: retryAfterMs } },
+        429,
+      );
+
+    it('should sleep according to backoff policy between retries', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      const sleepSpy = jest.spyOn(service, 'sleep').mockResolvedValue(undefined);
+      const operation = jest
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(new Error('rate limit'))
+        .mockRejectedValueOnce(new Error('rate limit'))
+        .mockResolvedValueOnce('ok');
+
+      await service.executeWithRetry({
+        operation,
+        maxRetries: 2,
+        retryDelay: 100,
+        backoff: { strategy: 'exponential', maxDelay: 10_000 },
+        shouldRetry: () => true,
+      });
+
+      expect(sleepSpy.mock.calls.map(([ms]) => ms)).toEqual([100, 200]);
+    });
+
+    it('should not retry when delay does not fit into request deadline', async () => {
+      const sleepSpy = jest.spyOn(service, 'sleep').mockResolvedValue(undefined);
+      const error = new Error('rate limit');
+      const operation = jest.fn<() => Promise<string>>().mockRejectedValue(error);
+
+      await expect(
+        service.executeWithRetry({
+          operation,
+          maxRetries: 2,
+          retryDelay: 5000,
+          deadline: new RequestDeadline(3),
+          shouldRetry: () => true,
+        }),
+      ).rejects.toBe(error);
+
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(sleepSpy).not.toHaveBeenCalled();
+    });
+
+    it('should wait the delay advised by the provider', async () => {
+      const sleepSpy = jest.spyOn(service, 'sleep').mockResolvedValue(undefined);
+      const operation = jest
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(rateLimitError(4000))
+        .mockResolvedValueOnce('ok');
+
+      const result = await service.executeWithRetry({
+        operation,
+        maxRetries: 2,
+        retryDelay: 100,
+        maxRetryAfterDelay: 5000,
+        shouldRetry: () => true,
+      });
+
+      expect(result).toBe('ok');
+      expect(sleepSpy).toHaveBeenCalledWith(4000, undefined);
+    });
+
+    it('should not retry when advised delay exceeds the maximum', async () => {
+      const sleepSpy = jest.spyOn(service, 'sleep').mockResolvedValue(undefined);
+      const error = rateLimitError(60_000);
+      const operation = jest.fn<() => Promise<string>>().mockRejectedValue(error);
+
+      await expect(
+        service.executeWithRetry({
+          operation,
+          maxRetries: 2,
+          retryDelay: 100,
+          maxRetryAfterDelay: 5000,
+          shouldRetry: () => true,
+        }),
+      ).rejects.toBe(error);
+
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(sleepSpy).not.toHaveBeenCalled();
+    });
+
     it('should stop retrying when abortSignal is aborted', async () => {
       jest.useFakeTimers();
 
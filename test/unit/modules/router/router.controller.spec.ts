@@ -1,8 +1,17 @@
 import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import { Test, type TestingModule } from '@nestjs/testing';
+import { HttpException, HttpStatus, NotFoundException } from '@nestjs/common';
 import { RouterController } from '../../../../src/modules/router/router.controller.js';
 import { RouterService } from '../../../../src/modules/router/router.service.js';
 import { ModelsService } from '../../../../src/modules/models/models.service.js';
+import { RateLimiterService } from '../../../../src/modules/rate-limiter/rate-limiter.service.js';
+import { CompletionConverterService } from '../../../../src/modules/router/services/completion-converter.service.js';
+import { ResponsesConverterService } from '../../../../src/modules/router/services/responses-converter.service.js';
+import { MessagesConverterService } from '../../../../src/modules/router/services/messages-converter.service.js';
+import {
+  AllModelsFailedError,
+  ClientQuotaExceededError,
+} from '../../../../src/common/errors/router.errors.js';
 import { ROUTER_CONFIG } from '../../../../src/config/router-config.provider.js';
 import type { ChatCompletionRequestDto } from '../../../../src/modules/router/dto/chat-completion.request.dto.js';
 import type { ChatCompletionResponseDto } from '../../../../src/modules/router/dto/chat-completion.response.dto.js';
@@ -12,6 +21,7 @@ describe('RouterController', () => {
   let controller: RouterController;
   let routerService: jest.Mocked<RouterService>;
   let modelsService: jest.Mocked<ModelsService>;
+  let rateLimiterService: jest.Mocked<RateLimiterService>;
 
   const mockRequest: ChatCompletionRequestDto = {
     messages: [{ role: 'user', content: 'Hello' }],
@@ -79,6 +89,12 @@ describe('RouterController', () => {
 
     modelsService = {
       getAvailable: jest.fn(),
+      findByNameAndProvider: jest.fn().mockReturnValue([]),
+      filter: jest.fn().mockReturnValue([]),
+    } as any;
+
+    rateLimiterService = {
+      checkClient: jest.fn().mockReturnValue({ allowed: true }),
     } as any;
 
     const module: TestingModule = await Test.createTestingModule({
@@ -92,6 +108,13 @@ describe('RouterController', () => {
           provide: ModelsService,
           useValue: modelsService,
         },
+        {
+          provide: RateLimiterService,
+          useValue: rateLimiterService,
+        },
+        CompletionConverterService,
+        ResponsesConverterService,
+        MessagesConverterService,
         {
           provide: ROUTER_CONFIG,
           useValue: {
@@ -140,10 +163,54 @@ describe('RouterController', () => {
       expect(routerService.chatCompletion).toHaveBeenCalledWith(
         mockRequest,
         expect.any(AbortSignal),
+        undefined,
       );
       expect(routerService.chatCompletion).toHaveBeenCalledTimes(1);
     });
 
+    it('should pass authenticated client to router service', async () => {
+      // Arrange
+      routerService.chatCompletion.mockResolvedValue(mockResponse);
+      const client = { name: 'n8n', apiKey: 'client-key' };
+      const mockReq = { raw: { on: jest.fn(), off: jest.fn() } } as any;
+      const mockRes = { send: jest.fn(), raw: { on: jest.fn(), off: jest.fn() } } as any;
+
+      // Act
+      await controller.chatCompletion(mockRequest, mockReq, mockRes, client);
+
+      // Assert
+      expect(routerService.chatCompletion).toHaveBeenCalledWith(
+        mockRequest,
+        expect.any(AbortSignal),
+        client,
+      );
+    });
+
+    it('should reject request when client quota is exceeded', async () => {
+      // Arrange
+      rateLimiterService.checkClient.mockReturnValue({
+        allowed: false,
+        limit: 'requestsPerMinute',
+        retryAfterSecs: 6,
+      });
+      const client = { name: 'n8n', apiKey: 'client-key', requestsPerMinute: 10 };
+      const mockReq = { raw: { on: jest.fn(), off: jest.fn() } } as any;
+      const mockRes = { send: jest.fn(), raw: { on: jest.fn(), off: jest.fn() } } as any;
+
+      // Act & Assert
+      const promise = controller.chatCompletion(
+        { ...mockRequest, stream: true },
+        mockReq,
+        mockRes,
+        client,
+      );
+      await expect(promise).rejects.toBeInstanceOf(ClientQuotaExceededError);
+      await expect(promise).rejects.toMatchObject({ retryAfterSecs: 6 });
+      expect(rateLimiterService.checkClient).toHaveBeenCalledWith(client);
+      expect(routerService.chatCompletion).not.toHaveBeenCalled();
+      expect(mockReq.raw.on).not.toHaveBeenCalled();
+    });
+
     it('should propagate errors from router service', async () => {
       // Arrange
       const error = new Error('Service unavailable');
@@ -171,6 +238,7 @@ describe('RouterController', () => {
       expect(routerService.chatCompletion).toHaveBeenCalledWith(
         mockRequest,
         expect.any(AbortSignal),
+        undefined,
       );
     });
 
@@ -220,6 +288,7 @@ describe('RouterController', () => {
       expect(routerService.chatCompletion).toHaveBeenCalledWith(
         fullRequest,
         expect.any(AbortSignal),
+        undefined,
       );
     });
 
@@ -285,17 +354,426 @@ describe('RouterController', () => {
       expect(routerService.chatCompletionStream).toHaveBeenCalledWith(
         streamRequest,
         expect.any(AbortSignal),
+        undefined,
+      );
+    });
+    it('should send usage chunk without choices', async () => {
+      // Arrange
+      async function* gen(): AsyncGenerator<any> {
+        await Promise.resolve();
+        yield { id: 'chunk-1', model: 'test/model', delta: { content: 'Hi' } };
+        yield {
+          id: 'chunk-1',
+          model: 'test/model',
+          delta: {},
+          usage: { promptTokens: 9, completionTokens: 2, totalTokens: 11 },
+          _router: { provider: 'openrouter', model_name: 'test-model', latency_ms: 120 },
+        };
+      }
+      routerService.chatCompletionStream = jest.fn().mockReturnValue(gen()) as any;
+
+      const mockReq = { raw: { on: jest.fn(), off: jest.fn() } } as any;
+      const mockRaw = {
+        on: jest.fn(),
+        off: jest.fn(),
+        setHeader: jest.fn(),
+        setTimeout: jest.fn(),
+        write: jest.fn().mockReturnValue(true),
+        end: jest.fn(),
+        destroyed: false,
+        writableEnded: false,
+      };
+      const mockRes = { send: jest.fn(), raw: mockRaw } as any;
+
+      // Act
+      await controller.chatCompletion(
+        { ...mockRequest, stream: true, stream_options: { include_usage: true } },
+        mockReq,
+        mockRes,
       );
+
+      // Assert
+      const payload = mockRaw.write.mock.calls[1][0] as string;
+      expect(JSON.parse(payload.replace(/^data: /, ''))).toMatchObject({
+        choices: [],
+        usage: { prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 },
+        _router: { latency_ms: 120 },
+      });
+      expect(mockRaw.write).toHaveBeenLastCalledWith('data: [DONE]\n\n');
+    });
+
+    it('should forward upstream comments and send keep-alive while waiting', async () => {
+      // Arrange
+      jest.useFakeTimers();
+      let releaseChunk: () => void = () => undefined;
+      async function* gen(): AsyncGenerator<any> {
+        yield { id: '', model: 'test/model', delta: {}, comment: 'OPENROUTER PROCESSING' };
+        await new Promise<void>(resolve => (releaseChunk = resolve));
+        yield { id: 'chunk-1', model: 'test/model', delta: { content: 'Hi' } };
+      }
+      routerService.chatCompletionStream = jest.fn().mockReturnValue(gen()) as any;
+
+      const mockReq = { raw: { on: jest.fn(), off: jest.fn() } } as any;
+      const mockRaw = {
+        on: jest.fn(),
+        off: jest.fn(),
+        setHeader: jest.fn(),
+        setTimeout: jest.fn(),
+        write: jest.fn().mockReturnValue(true),
+        end: jest.fn(),
+        destroyed: false,
+        writableEnded: false,
+      };
+      const mockRes = { send: jest.fn(), raw: mockRaw } as any;
+
+      // Act
+      const pending = controller.chatCompletion({ ...mockRequest, stream: true }, mockReq, mockRes);
+      await jest.advanceTimersByTimeAsync(31_000);
+      releaseChunk();
+      await pending;
+      const timersLeft = jest.getTimerCount();
+      jest.useRealTimers();
+
+      // Assert
+      const writes = mockRaw.write.mock.calls.map(call => call[0] as string);
+      expect(writes.slice(0, 3)).toEqual([
+        ': OPENROUTER PROCESSING\n\n',
+        ': keep-alive\n\n',
+        ': keep-alive\n\n',
+      ]);
+      expect(writes[3]).toMatch(/^data: .*"Hi"/);
+      expect(writes[4]).toBe('data: [DONE]\n\n');
+      expect(timersLeft).toBe(0);
+    });
+
+    it('should abort stream after timeout_secs without upstream chunks despite keep-alive', async () => {
+      // Arrange
+      jest.useFakeTimers();
+      let upstreamSignal: AbortSignal | undefined;
+      async function* gen(signal: AbortSignal): AsyncGenerator<any> {
+        yield* [];
+        await new Promise((_resolve, reject) =>
+          signal.addEventListener('abort', () => reject(new Error('Aborted'))),
+        );
+      }
+      routerService.chatCompletionStream = jest.fn((_request, signal: AbortSignal) => {
+        upstreamSignal = signal;
+        return gen(signal);
+      }) as any;
+
+      const mockReq = { raw: { on: jest.fn(), off: jest.fn() } } as any;
+      const mockRaw = {
+        on: jest.fn(),
+        off: jest.fn(),
+        setHeader: jest.fn(),
+        setTimeout: jest.fn(),
+        write: jest.fn().mockReturnValue(true),
+        end: jest.fn(),
+        destroy: jest.fn(),
+        destroyed: false,
+        writableEnded: false,
+      };
+      const mockRes = { send: jest.fn(), raw: mockRaw } as any;
+
+      // Act
+      const pending = controller.chatCompletion(
+        { ...mockRequest, stream: true, timeout_secs: 40 },
+        mockReq,
+        mockRes,
+      );
+      await jest.advanceTimersByTimeAsync(39_000);
+      const abortedBeforeTimeout = upstreamSignal?.aborted;
+      await jest.advanceTimersByTimeAsync(1_000);
+      await pending;
+      const timersLeft = jest.getTimerCount();
+      jest.useRealTimers();
+
+      // Assert
+      expect(mockRaw.write).toHaveBeenCalledWith(': keep-alive\n\n');
+      expect(abortedBeforeTimeout).toBe(false);
+      expect(upstreamSignal?.aborted).toBe(true);
+      expect(mockRaw.destroy).toHaveBeenCalledWith(new Error('Stream timeout'));
+      expect(timersLeft).toBe(0);
+    });
+
+    it('should send structured SSE error with per-model errors when all models fail', async () => {
+      // Arrange
+      const modelErrors = [
+        { provider: 'openrouter', model: 'model-1', error: 'Server error', code: 500 },
+      ];
+      async function* gen(): AsyncGenerator<never> {
+        yield* [];
+        await Promise.reject(new AllModelsFailedError(1, modelErrors));
+      }
+      routerService.chatCompletionStream = jest.fn().mockReturnValue(gen()) as any;
+
+      const mockReq = { raw: { on: jest.fn(), off: jest.fn() } } as any;
+      const mockRaw = {
+        on: jest.fn(),
+        off: jest.fn(),
+        setHeader: jest.fn(),
+        setTimeout: jest.fn(),
+        write: jest.fn().mockReturnValue(true),
+        end: jest.fn(),
+        destroyed: false,
+        writableEnded: false,
+      };
+      const mockRes = { send: jest.fn(), raw: mockRaw } as any;
+
+      // Act
+      await controller.chatCompletion({ ...mockRequest, stream: true }, mockReq, mockRes);
+
+      // Assert
+      const payload = mockRaw.write.mock.calls[0][0] as string;
+      expect(JSON.parse(payload.replace(/^data: /, ''))).toEqual({
+        error: {
+          message: 'All models failed after 1 attempts',
+          type: 'server_error',
+          code: 'all_models_failed',
+          errors: modelErrors,
+        },
+      });
+      expect(mockRaw.end).toHaveBeenCalledTimes(1);
+    });
+
+    it.each([
+      [HttpStatus.TOO_MANY_REQUESTS, 'rate_limit_error'],
+      [HttpStatus.BAD_GATEWAY, 'server_error'],
+    ])(
+      'should map provider error thrown mid-stream with status %i to %s',
+      async (status, expectedType) => {
+        // Arrange
+        const providerError = new HttpException(
+          { error: { message: 'Upstream failed', type: 'provider_error', code: status } },
+          status,
+        );
+        async function* gen(): AsyncGenerator<any> {
+          yield { id: 'chunk-1', model: 'test/model', delta: { role: 'assistant', content: 'Hi' } };
+          await Promise.reject(providerError);
+        }
+        routerService.chatCompletionStream = jest.fn().mockReturnValue(gen()) as any;
+
+        const mockReq = { raw: { on: jest.fn(), off: jest.fn() } } as any;
+        const mockRaw = {
+          on: jest.fn(),
+          off: jest.fn(),
+          setHeader: jest.fn(),
+          setTimeout: jest.fn(),
+          write: jest.fn().mockReturnValue(true),
+          end: jest.fn(),
+          destroyed: false,
+          writableEnded: false,
+        };
+        const mockRes = { send: jest.fn(), raw: mockRaw } as any;
+
+        // Act
+        await controller.chatCompletion({ ...mockRequest, stream: true }, mockReq, mockRes);
+
+        // Assert
+        const payload = mockRaw.write.mock.calls[1][0] as string;
+        expect(JSON.parse(payload.replace(/^data: /, ''))).toEqual({
+          error: { message: 'Upstream failed', type: expectedType, code: status },
+        });
+      },
+    );
+  });
+
+  describe('completion', () => {
+    it('should route prompt as chat request and return text completion', async () => {
+      // Arrange
+      routerService.chatCompletion.mockResolvedValue(mockResponse);
+      const mockReq = { raw: { on: jest.fn(), off: jest.fn() } } as any;
+      const mockRes = { send: jest.fn(), raw: { on: jest.fn(), off: jest.fn() } } as any;
+
+      // Act
+      const result = await controller.completion(
+        { prompt: 'Say hi', max_tokens: 16, tags: ['fast'] },
+        mockReq,
+        mockRes,
+      );
+
+      // Assert
+      expect(routerService.chatCompletion).toHaveBeenCalledWith(
+        { max_tokens: 16, tags: ['fast'], messages: [{ role: 'user', content: 'Say hi' }] },
+        expect.any(AbortSignal),
+        undefined,
+      );
+      expect(result).toMatchObject({
+        id: 'test-id-123',
+        object: 'text_completion',
+        choices: [
+          { index: 0, text: 'Hello! How can I help you?', logprobs: null, finish_reason: 'stop' },
+        ],
+        usage: mockResponse.usage,
+        _router: mockResponse._router,
+      });
+      expect(mockRes.send).toHaveBeenCalledWith(result);
+    });
+
+    it('should stream text completion chunks with echoed prompt', async () => {
+      // Arrange
+      async function* gen(): AsyncGenerator<any> {
+        await Promise.resolve();
+        yield { id: 'chunk-1', model: 'test/model', delta: { role: 'assistant', content: ' 4' } };
+        yield { id: 'chunk-1', model: 'test/model', delta: {}, finishReason: 'stop' };
+      }
+      routerService.chatCompletionStream = jest.fn().mockReturnValue(gen()) as any;
+
+      const mockReq = { raw: { on: jest.fn(), off: jest.fn() } } as any;
+      const mockRaw = {
+        on: jest.fn(),
+        off: jest.fn(),
+        setHeader: jest.fn(),
+        setTimeout: jest.fn(),
+        write: jest.fn().mockReturnValue(true),
+        end: jest.fn(),
+        destroyed: false,
+        writableEnded: false,
+      };
+      const mockRes = { send: jest.fn(), raw: mockRaw } as any;
+
+      // Act
+      await controller.completion(
+        { prompt: ['2+2 ='], echo: true, stream: true },
+        mockReq,
+        mockRes,
+      );
+
+      // Assert
+      const events = mockRaw.write.mock.calls
+        .slice(0, 2)
+        .map(call => JSON.parse((call[0] as string).replace(/^data: /, '')));
+      expect(events[0]).toMatchObject({
+        object: 'text_completion',
+        choices: [{ index: 0, text: '2+2 = 4', logprobs: null, finish_reason: null }],
+      });
+      expect(events[1].choices[0]).toMatchObject({ text: '', finish_reason: 'stop' });
+      expect(mockRaw.write).toHaveBeenLastCalledWith('data: [DONE]\n\n');
+    });
+  });
+
+  describe('responses', () => {
+    it('should route input items as chat request and return output items', async () => {
+      // Arrange
+      routerService.chatCompletion.mockResolvedValue(mockResponse);
+      const mockReq = { raw: { on: jest.fn(), off: jest.fn() } } as any;
+      const mockRes = { send: jest.fn(), raw: { on: jest.fn(), off: jest.fn() } } as any;
+
+      // Act
+      const result = await controller.responses(
+        { input: 'Say hi', instructions: 'Be brief', max_output_tokens: 16 },
+        mockReq,
+        mockRes,
+      );
+
+      // Assert
+      expect(routerService.chatCompletion).toHaveBeenCalledWith(
+        expect.objectContaining({
+          max_tokens: 16,
+          messages: [
+            { role: 'system', content: 'Be brief' },
+            { role: 'user', content: 'Say hi' },
+          ],
+        }),
+        expect.any(AbortSignal),
+        undefined,
+      );
+      expect(result).toMatchObject({
+        id: 'test-id-123',
+        object: 'response',
+        status: 'completed',
+        output: [
+          {
+            type: 'message',
+            role: 'assistant',
+            content: [{ type: 'output_text', text: 'Hello! How can I help you?' }],
+          },
+        ],
+        usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+        _router: mockResponse._router,
+      });
+      expect(mockRes.send).toHaveBeenCalledWith(result);
+    });
+  });
+
+  describe('messages', () => {
+    it('should route Anthropic messages as chat request and return Anthropic message', async () => {
+      // Arrange
+      routerService.chatCompletion.mockResolvedValue(mockResponse);
+      const mockReq = { raw: { on: jest.fn(), off: jest.fn() } } as any;
+      const mockRes = { send: jest.fn(), raw: { on: jest.fn(), off: jest.fn() } } as any;
+
+      // Act
+      const result = await controller.messages(
+        {
+          model: 'claude-sonnet-4-5',
+          system: 'Be brief',
+          max_tokens: 64,
+          messages: [{ role: 'user', content: 'Say hi' }],
+        },
+        mockReq,
+        mockRes,
+      );
+
+      // Assert
+      expect(routerService.chatCompletion).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: undefined,
+          max_tokens: 64,
+          messages: [
+            { role: 'system', content: 'Be brief' },
+            { role: 'user', content: 'Say hi' },
+          ],
+        }),
+        expect.any(AbortSignal),
+        undefined,
+      );
+      expect(result).toMatchObject({
+        id: 'test-id-123',
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'text', text: 'Hello! How can I help you?' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 20 },
+        _router: mockResponse._router,
+      });
+      expect(mockRes.send).toHaveBeenCalledWith(result);
     });
   });
 
   describe('getModels', () => {
+    it('should return models in OpenAI format with auto first and tag aliases last', () => {
+      // Arrange
+      modelsService.getAvailable.mockReturnValue([
+        ...mockModels,
+        { ...mockModels[0], provider: 'groq' },
+      ]);
+
+      // Act
+      const result = controller.getModels();
+
+      // Assert
+      expect(result).toEqual({
+        object: 'list',
+        data: [
+          { id: 'auto', object: 'model', created: expect.any(Number), owned_by: 'router' },
+          { id: 'model-1', object: 'model', created: expect.any(Number), owned_by: 'openrouter' },
+          { id: 'model-2', object: 'model', created: expect.any(Number), owned_by: 'deepseek' },
+          { id: 'tag:general', object: 'model', created: expect.any(Number), owned_by: 'router' },
+          { id: 'tag:reasoning', object: 'model', created: expect.any(Number), owned_by: 'router' },
+          { id: 'tag:code', object: 'model', created: expect.any(Number), owned_by: 'router' },
+        ],
+      });
+    });
+  });
+
+  describe('getModelDetails', () => {
     it('should return list of available models', () => {
       // Arrange
       modelsService.getAvailable.mockReturnValue(mockModels);
 
       // Act
-      const result = controller.getModels();
+      const result = controller.getModelDetails();
 
       // Assert
       expect(result).toEqual({
@@ -338,11 +816,72 @@ describe('RouterController', () => {
       modelsService.getAvailable.mockReturnValue([]);
 
       // Act
-      const result = controller.getModels();
+      const result = controller.getModelDetails();
 
       // Assert
       expect(result).toEqual({ models: [] });
       expect(modelsService.getAvailable).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe('getModel', () => {
+    beforeEach(() => {
+      modelsService.getAvailable.mockReturnValue(mockModels);
+    });
+
+    it('should return model capabilities', () => {
+      // Act
+      const result = controller.getModel('model-2');
+
+      // Assert
+      expect(result).toMatchObject({
+        id: 'model-2',
+        object: 'model',
+        owned_by: 'deepseek',
+        type: 'reasoning',
+        contextSize: 8192,
+        tags: ['reasoning', 'code'],
+      });
+    });
+
+    it('should match provider-prefixed ids', () => {
+      // Act & Assert
+      expect(controller.getModel('deepseek/model-2')).toMatchObject({ id: 'deepseek/model-2' });
+      expect(() => controller.getModel('openrouter/model-2')).toThrow(NotFoundException);
+    });
+
+    it('should return virtual auto model', () => {
+      // Act
+      const result = controller.getModel('auto');
+
+      // Assert
+      expect(result).toEqual({
+        id: 'auto',
+        object: 'model',
+        created: expect.any(Number),
+        owned_by: 'router',
+      });
+    });
+
+    it('should throw NotFoundException for unknown model', () => {
+      // Act & Assert
+      expect(() => controller.getModel('unknown')).toThrow(NotFoundException);
+    });
+
+    it('should return tag alias as virtual model when models match the tags', () => {
+      // Arrange
+      modelsService.filter.mockImplementation(criteria =>
+        criteria.tags === 'code&reasoning' ? [mockModels[1]] : [],
+      );
+
+      // Act & Assert
+      expect(controller.getModel('tag:code&reasoning')).toEqual({
+        id: 'tag:code&reasoning',
+        object: 'model',
+        created: expect.any(Number),
+        owned_by: 'router',
+      });
+      expect(() => controller.getModel('tag:vision')).toThrow(NotFoundException);
+    });
+  });
 });
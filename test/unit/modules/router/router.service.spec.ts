@@ -10,7 +10,9 @@ import { RequestBuilderService } from '../../../../src/modules/router/services/r
 import { PROVIDERS_MAP } from '../../../../src/modules/providers/providers.module.js';
 import { ROUTER_CONFIG } from '../../../../src/config/router-config.provider.js';
 import { RateLimiterService } from '../../../../src/modules/rate-limiter/rate-limiter.service.js';
+import { DeadlineExceededError } from '../../../../src/common/errors/router.errors.js';
 import type { ChatCompletionRequestDto } from '../../../../src/modules/router/dto/chat-completion.request.dto.js';
+import type { EmbeddingsRequestDto } from '../../../../src/modules/router/dto/embeddings.request.dto.js';
 import type { LlmProvider } from '../../../../src/modules/providers/interfaces/provider.interface.js';
 import type { ModelDefinition } from '../../../../src/modules/models/interfaces/model.interface.js';
 import type { RouterConfig } from '../../../../src/config/router-config.interface.js';
@@ -86,6 +88,7 @@ describe('RouterService', () => {
       name: 'openrouter',
       chatCompletion: jest.fn(),
       chatCompletionStream: jest.fn(),
+      embeddings: jest.fn(),
     } as unknown as jest.Mocked<LlmProvider>;
 
     // Create providers map
@@ -143,6 +146,10 @@ describe('RouterService', () => {
     // Create mock rate limiter service
     rateLimiterService = {
       checkModel: jest.fn().mockReturnValue(true),
+      getApiKeyPool: jest.fn().mockReturnValue(undefined),
+      hasAvailableApiKey: jest.fn().mockReturnValue(false),
+      recordClientTokens: jest.fn(),
+      checkClientFallback: jest.fn().mockReturnValue(true),
     } as any;
 
     const module: TestingModule = await Test.createTestingModule({
@@ -378,6 +385,775 @@ describe('RouterService', () => {
       ]);
     });
 
+    it('should try another API key before switching models on quota error', async () => {
+      // Arrange
+      selectorService.selectNextModel.mockReturnValue(mockModel);
+      rateLimiterService.getApiKeyPool.mockReturnValue({ size: 2 } as any);
+      rateLimiterService.hasAvailableApiKey.mockReturnValue(true);
+
+      const quotaError = new Error('Payment required');
+      (quotaError as any).response = { status: 402 };
+
+      mockProvider.chatCompletion
+        .mockRejectedValueOnce(quotaError)
+        .mockResolvedValueOnce(mockCompletionResult);
+
+      // Act
+      const result = await service.chatCompletion(mockRequest);
+
+      // Assert
+      expect(result._router.attempts).toBe(1);
+      expect(result._router.errors).toBeUndefined();
+      expect(mockProvider.chatCompletion).toHaveBeenCalledTimes(2);
+      expect(selectorService.selectNextModel).toHaveBeenCalledTimes(1);
+    });
+
+    it('should switch model when all API keys of provider hit quota', async () => {
+      // Arrange
+      const model1 = { ...mockModel, name: 'model-1' };
+      const model2 = { ...mockModel, name: 'model-2', provider: 'deepseek' };
+
+      selectorService.selectNextModel.mockReturnValueOnce(model1).mockReturnValueOnce(model2);
+      rateLimiterService.getApiKeyPool.mockImplementation(provider =>
+        provider === 'openrouter' ? ({ size: 2 } as any) : undefined,
+      );
+
+      const quotaError = new Error('Payment required');
+      (quotaError as any).response = { status: 402 };
+
+      mockProvider.chatCompletion
+        .mockRejectedValueOnce(quotaError)
+        .mockResolvedValueOnce(mockCompletionResult);
+
+      // Act
+      const result = await service.chatCompletion(mockRequest);
+
+      // Assert
+      expect(result._router.attempts).toBe(2);
+      expect(result._router.model_name).toBe('model-2');
+      expect(mockProvider.chatCompletion).toHaveBeenCalledTimes(2);
+    });
+
+    it('should select by tags of a tag alias', async () => {
+      // Arrange
+      selectorService.selectNextModel.mockReturnValue(mockModel);
+      mockProvider.chatCompletion.mockResolvedValue(mockCompletionResult);
+
+      // Act
+      await service.chatCompletion({ ...mockRequest, model: 'tag:code' });
+
+      // Assert
+      expect(selectorService.selectNextModel).toHaveBeenCalledWith(
+        expect.objectContaining({ models: [], allowAutoFallback: true, tags: 'code' }),
+        [],
+      );
+    });
+
+    it('should apply client policy and report client name', async () => {
+      // Arrange
+      selectorService.selectNextModel.mockReturnValue(mockModel);
+      mockProvider.chatCompletion.mockResolvedValue(mockCompletionResult);
+
+      const client = {
+        name: 'n8n',
+        apiKey: 'client-key',
+        allowedTags: ['general'],
+        allowedProviders: ['openrouter'],
+      };
+
+      // Act
+      const result = await service.chatCompletion(mockRequest, undefined, client);
+
+      // Assert
+      expect(result._router.client).toBe('n8n');
+      expect(rateLimiterService.recordClientTokens).toHaveBeenCalledWith(
+        client,
+        result.usage.total_tokens,
+      );
+      expect(selectorService.selectNextModel).toHaveBeenCalledWith(
+        expect.objectContaining({ allowedTags: ['general'], allowedProviders: ['openrouter'] }),
+        [],
+      );
+    });
+
+    it('should not use paid fallback when client is not allowed to', async () => {
+      // Arrange
+      selectorService.selectNextModel.mockReturnValueOnce(mockModel).mockReturnValueOnce(null);
+
+      const error = new Error('Service unavailable');
+      (error as any).response = { status: 503 };
+      mockProvider.chatCompletion.mockRejectedValueOnce(error);
+
+      // Act & Assert
+      await expect(
+        service.chatCompletion(mockRequest, undefined, {
+          name: 'n8n',
+          apiKey: 'client-key',
+          allowPaidFallback: false,
+        }),
+      ).rejects.toThrow(/All models failed/);
+      expect(mockProvider.chatCompletion).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not use paid fallback when client fallback quota is exhausted', async () => {
+      // Arrange
+      selectorService.selectNextModel.mockReturnValueOnce(mockModel).mockReturnValueOnce(null);
+      rateLimiterService.checkClientFallback.mockReturnValue(false);
+
+      const error = new Error('Service unavailable');
+      (error as any).response = { status: 503 };
+      mockProvider.chatCompletion.mockRejectedValueOnce(error);
+
+      // Act & Assert
+      await expect(
+        service.chatCompletion(mockRequest, undefined, {
+          name: 'n8n',
+          apiKey: 'client-key',
+          paidFallbackPerDay: 10,
+        }),
+      ).rejects.toThrow(/All models failed/);
+      expect(rateLimiterService.checkClientFallback).toHaveBeenCalledTimes(1);
+      expect(mockProvider.chatCompletion).toHaveBeenCalledTimes(1);
+    });
+
+    describe('additional parameters', () => {
+      beforeEach(() => {
+        Object.assign(mockProvider, { supportedParams: ['seed', 'logprobs'] });
+        providersMap.set('deepseek', { ...mockProvider, supportedParams: ['logprobs'] });
+      });
+
+      it('should forward parameters and return logprobs', async () => {
+        // Arrange
+        const logprobs = { content: [{ token: 'Hi', logprob: -0.2, bytes: null }] };
+        selectorService.selectNextModel.mockReturnValue(mockModel);
+        mockProvider.chatCompletion.mockResolvedValue({ ...mockCompletionResult, logprobs });
+
+        // Act
+        const result = await service.chatCompletion({ ...mockRequest, seed: 7, logprobs: true });
+
+        // Assert
+        expect(mockProvider.chatCompletion).toHaveBeenCalledWith(
+          expect.objectContaining({ extraParams: { seed: 7, logprobs: true } }),
+        );
+        expect(selectorService.selectNextModel).toHaveBeenCalledWith(
+          expect.objectContaining({ providers: undefined }),
+          [],
+        );
+        expect(result.choices[0].logprobs).toEqual(logprobs);
+      });
+
+      it('should only use providers accepting all parameters with strict_params', async () => {
+        // Arrange
+        selectorService.selectNextModel.mockReturnValue(null);
+
+        // Act & Assert
+        await expect(
+          service.chatCompletion({ ...mockRequest, seed: 7, strict_params: true }),
+        ).rejects.toMatchObject({ name: 'AllModelsFailedError' });
+        expect(selectorService.selectNextModel).toHaveBeenCalledWith(
+          expect.objectContaining({ providers: ['openrouter'] }),
+          [],
+        );
+        // Fallback provider (deepseek) does not accept seed
+        expect(mockProvider.chatCompletion).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('reasoning content', () => {
+      const reasoningOnlyResult = {
+        ...mockCompletionResult,
+        content: '',
+        reasoningContent: 'The answer is 42',
+      };
+
+      afterEach(() => {
+        mockConfig.routing.reasoningAsContent = undefined;
+      });
+
+      it('should use reasoning as content when content is empty', async () => {
+        // Arrange
+        selectorService.selectNextModel.mockReturnValue(mockModel);
+        mockProvider.chatCompletion.mockResolvedValue(reasoningOnlyResult);
+
+        // Act
+        const result = await service.chatCompletion(mockRequest);
+
+        // Assert
+        expect(result.choices[0].message.content).toBe('The answer is 42');
+        expect(result.choices[0].message.reasoning_content).toBeUndefined();
+      });
+
+      it('should keep empty content when reasoningAsContent is disabled', async () => {
+        // Arrange
+        mockConfig.routing.reasoningAsContent = false;
+        selectorService.selectNextModel.mockReturnValue(mockModel);
+        mockProvider.chatCompletion.mockResolvedValue(reasoningOnlyResult);
+
+        // Act
+        const result = await service.chatCompletion({ ...mockRequest, include_reasoning: true });
+
+        // Assert
+        expect(result.choices[0].message).toEqual({
+          role: 'assistant',
+          content: '',
+          tool_calls: undefined,
+          reasoning_content: 'The answer is 42',
+        });
+      });
+
+      it('should pass reasoning controls and prefer reasoning models on high effort', async () => {
+        // Arrange
+        selectorService.selectNextModel.mockReturnValue(mockModel);
+        mockProvider.chatCompletion.mockResolvedValue(reasoningOnlyResult);
+
+        // Act
+        const result = await service.chatCompletion({
+          ...mockRequest,
+          include_reasoning: true,
+          reasoning_effort: 'high',
+          reasoning: { max_tokens: 2000, exclude: true },
+        });
+
+        // Assert
+        expect(selectorService.selectNextModel).toHaveBeenCalledWith(
+          expect.objectContaining({ preferReasoning: true }),
+          [],
+        );
+        expect(mockProvider.chatCompletion).toHaveBeenCalledWith(
+          expect.objectContaining({
+            reasoning: { effort: 'high', maxTokens: 2000, exclude: true },
+          }),
+        );
+        expect(result.choices[0].message.reasoning_content).toBeUndefined();
+      });
+
+      it('should pass stream reasoning deltas only with include_reasoning', async () => {
+        // Arrange
+        selectorService.selectNextModel.mockReturnValue(mockModel);
+        const stream = async function* () {
+          await Promise.resolve();
+          yield { id: 'chunk-1', model: 'test/model', delta: { reasoning_content: 'Thinking' } };
+          yield { id: 'chunk-1', model: 'test/model', delta: { content: 'Hi' } };
+        };
+        const collect = async (request: ChatCompletionRequestDto) => {
+          const chunks = [];
+          for await (const chunk of service.chatCompletionStream({ ...request, stream: true })) {
+            chunks.push(chunk);
+          }
+          return chunks;
+        };
+
+        // Act
+        mockProvider.chatCompletionStream.mockReturnValue(stream());
+        const hidden = await collect(mockRequest);
+        mockProvider.chatCompletionStream.mockReturnValue(stream());
+        const shown = await collect({ ...mockRequest, include_reasoning: true });
+
+        // Assert
+        expect(hidden[0].delta.reasoning_content).toBeUndefined();
+        expect(shown[0].delta.reasoning_content).toBe('Thinking');
+        expect(shown[1].delta.content).toBe('Hi');
+      });
+    });
+
+    describe('streaming errors', () => {
+      const serverError = Object.assign(new Error('Server error'), { response: { status: 500 } });
+
+      it('should report failed attempts in first chunk', async () => {
+        // Arrange
+        const failedModel = { ...mockModel, name: 'failed-model', model: 'failed/model' };
+        selectorService.selectNextModel
+          .mockReturnValueOnce(failedModel)
+          .mockReturnValueOnce(mockModel);
+        mockProvider.chatCompletionStream.mockImplementation(params =>
+          (async function* () {
+            if (params.model === 'failed/model') {
+              await Promise.reject(serverError);
+            }
+            yield { id: 'chunk-1', model: params.model, delta: { content: 'Hi' } };
+          })(),
+        );
+
+        // Act
+        const chunks = [];
+        for await (const chunk of service.chatCompletionStream({ ...mockRequest, stream: true })) {
+          chunks.push(chunk);
+        }
+
+        // Assert
+        expect(chunks[0]._router).toMatchObject({
+          model_name: 'test-model',
+          attempts: 2,
+          errors: [
+            { provider: 'openrouter', model: 'failed-model', error: 'Server error', code: 500 },
+          ],
+        });
+      });
+
+      it('should throw all collected errors when every model fails', async () => {
+        // Arrange
+        selectorService.selectNextModel
+          .mockReturnValueOnce({ ...mockModel, name: 'model-1' })
+          .mockReturnValueOnce({ ...mockModel, name: 'model-2' })
+          .mockReturnValue(null);
+        mockProvider.chatCompletionStream.mockImplementation(() =>
+          (async function* () {
+            yield* [];
+            await Promise.reject(serverError);
+          })(),
+        );
+
+        // Act
+        const consume = async () => {
+          for await (const _chunk of service.chatCompletionStream({
+            ...mockRequest,
+            stream: true,
+            fallback_provider: 'missing',
+          })) {
+            // no chunks expected
+          }
+        };
+
+        // Assert
+        await expect(consume()).rejects.toMatchObject({
+          name: 'AllModelsFailedError',
+          attemptCount: 3,
+          errors: [
+            expect.objectContaining({ model: 'model-1', code: 500 }),
+            expect.objectContaining({ model: 'model-2', code: 500 }),
+          ],
+        });
+      });
+    });
+
+    describe('streaming attempt pipeline', () => {
+      const collect = async (request: ChatCompletionRequestDto) => {
+        const chunks = [];
+        for await (const chunk of service.chatCompletionStream({ ...request, stream: true })) {
+          chunks.push(chunk);
+        }
+        return chunks;
+      };
+
+      const streamOf = (...contents: string[]) =>
+        (async function* () {
+          await Promise.resolve();
+          for (const content of contents) {
+            yield { id: 'chunk-1', model: 'test/model', delta: { content } };
+          }
+        })();
+
+      const failingStream = (error: Error) =>
+        (async function* () {
+          yield* [];
+          await Promise.reject(error);
+        })();
+
+      it('should retry 429 on the same model with request overrides', async () => {
+        // Arrange
+        selectorService.selectNextModel.mockReturnValue(mockModel);
+        const rateLimitError = Object.assign(new Error('Rate limit exceeded'), {
+          response: { status: 429 },
+        });
+        mockProvider.chatCompletionStream
+          .mockReturnValueOnce(failingStream(rateLimitError))
+          .mockReturnValueOnce(streamOf('Hi'));
+
+        // Act
+        const chunks = await collect({
+          ...mockRequest,
+          max_same_model_retries: 1,
+          retry_delay: 1,
+        });
+
+        // Assert
+        expect(chunks).toHaveLength(1);
+        expect(chunks[0]._router).toMatchObject({ model_name: 'test-model', attempts: 1 });
+        expect(mockProvider.chatCompletionStream).toHaveBeenCalledTimes(2);
+        expect(selectorService.selectNextModel).toHaveBeenCalledTimes(1);
+      });
+
+      it('should switch model when model rate limit is exceeded', async () => {
+        // Arrange
+        const limitedModel = { ...mockModel, name: 'limited-model' };
+        selectorService.selectNextModel
+          .mockReturnValueOnce(limitedModel)
+          .mockReturnValueOnce(mockModel);
+        rateLimiterService.checkModel.mockImplementation(name => name !== 'limited-model');
+        mockProvider.chatCompletionStream.mockReturnValue(streamOf('Hi'));
+
+        // Act
+        const chunks = await collect({ ...mockRequest, max_same_model_retries: 0 });
+
+        // Assert
+        expect(chunks[0]._router).toMatchObject({
+          model_name: 'test-model',
+          errors: [expect.objectContaining({ model: 'limited-model', code: 429 })],
+        });
+        expect(mockProvider.chatCompletionStream).toHaveBeenCalledTimes(1);
+      });
+
+      it('should switch model when response_format is not supported', async () => {
+        // Arrange
+        selectorService.selectNextModel
+          .mockReturnValueOnce({ ...mockModel, name: 'no-json-model' })
+          .mockReturnValueOnce(mockModel);
+        const unsupportedError = Object.assign(
+          new Error('response_format is not supported by this model'),
+          { response: { status: 400 } },
+        );
+        mockProvider.chatCompletionStream
+          .mockReturnValueOnce(failingStream(unsupportedError))
+          .mockReturnValueOnce(streamOf('{}'));
+
+        // Act
+        const chunks = await collect({ ...mockRequest, response_format: { type: 'json_object' } });
+
+        // Assert
+        expect(chunks[0]._router).toMatchObject({ model_name: 'test-model', attempts: 2 });
+      });
+
+      it('should not switch model after chunks were sent', async () => {
+        // Arrange
+        selectorService.selectNextModel.mockReturnValue(mockModel);
+        const serverError = Object.assign(new Error('Connection reset'), {
+          response: { status: 502 },
+        });
+        mockProvider.chatCompletionStream.mockReturnValueOnce(
+          (async function* () {
+            await Promise.resolve();
+            yield { id: 'chunk-1', model: 'test/model', delta: { content: 'Hi' } };
+            throw serverError;
+          })(),
+        );
+
+        // Act & Assert
+        await expect(collect(mockRequest)).rejects.toThrow('Connection reset');
+        expect(mockProvider.chatCompletionStream).toHaveBeenCalledTimes(1);
+        expect(circuitBreaker.onFailure).toHaveBeenCalledWith(
+          'test-model',
+          502,
+          expect.any(Number),
+        );
+      });
+    });
+
+    describe('stream usage', () => {
+      const collect = async (request: ChatCompletionRequestDto) => {
+        const chunks = [];
+        for await (const chunk of service.chatCompletionStream({ ...request, stream: true })) {
+          chunks.push(chunk);
+        }
+        return chunks;
+      };
+
+      it('should emit final usage chunk with router summary', async () => {
+        // Arrange
+        selectorService.selectNextModel.mockReturnValue(mockModel);
+        const usage = { promptTokens: 9, completionTokens: 2, totalTokens: 11 };
+        mockProvider.chatCompletionStream.mockReturnValue(
+          (async function* () {
+            await Promise.resolve();
+            yield { id: 'chunk-1', model: 'test/model', delta: { content: 'Hi' } };
+            yield { id: 'chunk-1', model: 'test/model', delta: {}, finishReason: 'stop' as const };
+            yield { id: 'chunk-1', model: 'test/model', delta: {}, usage };
+          })(),
+        );
+
+        // Act
+        const chunks = await collect({ ...mockRequest, stream_options: { include_usage: true } });
+
+        // Assert
+        expect(mockProvider.chatCompletionStream).toHaveBeenCalledWith(
+          expect.objectContaining({ includeUsage: true }),
+        );
+        expect(chunks).toHaveLength(3);
+        expect(chunks[1].usage).toBeUndefined();
+        expect(chunks[2]).toEqual({
+          id: 'chunk-1',
+          model: 'test/model',
+          delta: {},
+          usage,
+          _router: {
+            provider: 'openrouter',
+            model_name: 'test-model',
+            attempts: 1,
+            fallback_used: false,
+            client: undefined,
+            latency_ms: expect.any(Number),
+            usage_estimated: undefined,
+          },
+        });
+      });
+
+      it('should estimate usage when provider does not report it', async () => {
+        // Arrange
+        selectorService.selectNextModel.mockReturnValue(mockModel);
+        mockProvider.chatCompletionStream.mockReturnValue(
+          (async function* () {
+            await Promise.resolve();
+            yield { id: 'chunk-1', model: 'test/model', delta: { content: 'Hello there!' } };
+          })(),
+        );
+        const client = { name: 'n8n', apiKey: 'client-key', tokensPerDay: 1000 };
+
+        // Act
+        const chunks = [];
+        for await (const chunk of service.chatCompletionStream(
+          { ...mockRequest, stream: true, stream_options: { include_usage: true } },
+          undefined,
+          client,
+        )) {
+          chunks.push(chunk);
+        }
+
+        // Assert
+        // "Hello" prompt: 4 overhead + 2 tokens, "Hello there!" completion: 3 tokens
+        expect(chunks[1].usage).toEqual({ promptTokens: 6, completionTokens: 3, totalTokens: 9 });
+        expect(chunks[1]._router?.usage_estimated).toBe(true);
+        expect(rateLimiterService.recordClientTokens).toHaveBeenCalledWith(client, 9);
+      });
+
+      it('should not emit usage chunk unless requested', async () => {
+        // Arrange
+        selectorService.selectNextModel.mockReturnValue(mockModel);
+        mockProvider.chatCompletionStream.mockReturnValue(
+          (async function* () {
+            await Promise.resolve();
+            yield { id: 'chunk-1', model: 'test/model', delta: { content: 'Hi' } };
+          })(),
+        );
+
+        // Act
+        const chunks = await collect(mockRequest);
+
+        // Assert
+        expect(chunks).toHaveLength(1);
+      });
+    });
+
+    describe('stream comments', () => {
+      it('should drop comments before first chunk and forward later ones', async () => {
+        // Arrange
+        selectorService.selectNextModel.mockReturnValue(mockModel);
+        mockProvider.chatCompletionStream.mockReturnValue(
+          (async function* () {
+            await Promise.resolve();
+            yield { id: '', model: 'test/model', delta: {}, comment: 'OPENROUTER PROCESSING' };
+            yield { id: 'chunk-1', model: 'test/model', delta: { content: 'Hi' } };
+            yield { id: '', model: 'test/model', delta: {}, comment: 'OPENROUTER PROCESSING' };
+            yield { id: 'chunk-1', model: 'test/model', delta: { content: '!' } };
+          })(),
+        );
+
+        // Act
+        const chunks = [];
+        for await (const chunk of service.chatCompletionStream({ ...mockRequest, stream: true })) {
+          chunks.push(chunk);
+        }
+
+        // Assert
+        expect(chunks).toHaveLength(3);
+        expect(chunks[0]._router?.model_name).toBe('test-model');
+        expect(chunks[1]).toEqual({
+          id: '',
+          model: 'test/model',
+          delta: {},
+          comment: 'OPENROUTER PROCESSING',
+        });
+        expect(chunks[2]._router).toBeUndefined();
+      });
+    });
+
+    describe('stream resume', () => {
+      const brokenStream = (content: string, extraDelta = {}) =>
+        (async function* () {
+          await Promise.resolve();
+          yield { id: 'chunk-1', model: 'test/model', delta: { content, ...extraDelta } };
+          throw Object.assign(new Error('Connection reset'), { response: { status: 502 } });
+        })();
+
+      const collect = async (request: ChatCompletionRequestDto) => {
+        const chunks = [];
+        for await (const chunk of service.chatCompletionStream({ ...request, stream: true })) {
+          chunks.push(chunk);
+        }
+        return chunks;
+      };
+
+      it('should continue partial message on the next model', async () => {
+        // Arrange
+        const flakyModel = { ...mockModel, name: 'flaky-model', model: 'flaky/model' };
+        selectorService.selectNextModel
+          .mockReturnValueOnce(flakyModel)
+          .mockReturnValueOnce(mockModel);
+        mockProvider.chatCompletionStream
+          .mockReturnValueOnce(brokenStream('Once upon'))
+          .mockReturnValueOnce(
+            (async function* () {
+              await Promise.resolve();
+              yield { id: 'chunk-2', model: 'test/model', delta: { content: ' a time' } };
+            })(),
+          );
+
+        // Act
+        const chunks = await collect({ ...mockRequest, stream_resume: true });
+
+        // Assert
+        expect(chunks.map(chunk => chunk.delta.content).join('')).toBe('Once upon a time');
+        expect(chunks[1]._router).toMatchObject({
+          model_name: 'test-model',
+          attempts: 2,
+          resumed: true,
+          errors: [expect.objectContaining({ model: 'flaky-model', code: 502 })],
+        });
+        expect(mockProvider.chatCompletionStream.mock.calls[1][0].messages).toEqual([
+          expect.objectContaining({ role: 'user', content: 'Hello' }),
+          expect.objectContaining({ role: 'assistant', content: 'Once upon' }),
+          expect.objectContaining({
+            role: 'user',
+            content: expect.stringContaining('Continue exactly from where you stopped'),
+          }),
+        ]);
+        expect(selectorService.selectNextModel).toHaveBeenLastCalledWith(expect.anything(), [
+          'openrouter/flaky-model',
+        ]);
+      });
+
+      it('should not resume after tool call deltas were sent', async () => {
+        // Arrange
+        selectorService.selectNextModel.mockReturnValue(mockModel);
+        mockProvider.chatCompletionStream.mockReturnValueOnce(
+          brokenStream('', {
+            tool_calls: [{ index: 0, id: 'call-1', function: { name: 'search' } }],
+          }),
+        );
+
+        // Act & Assert
+        await expect(collect({ ...mockRequest, stream_resume: true })).rejects.toThrow(
+          'Connection reset',
+        );
+        expect(mockProvider.chatCompletionStream).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('hedged requests', () => {
+      const slowModel = { ...mockModel, name: 'slow-model', model: 'slow/model' };
+      const fastModel = { ...mockModel, name: 'fast-model', model: 'fast/model' };
+
+      const waitForAbort = (signal?: AbortSignal) =>
+        new Promise<never>((_, reject) => {
+          signal?.addEventListener('abort', () => reject(new Error('Request aborted')));
+        });
+
+      it('should fire hedge request and return the faster result', async () => {
+        // Arrange
+        selectorService.selectNextModel
+          .mockReturnValueOnce(slowModel)
+          .mockReturnValueOnce(fastModel);
+        let primarySignal: AbortSignal | undefined;
+        mockProvider.chatCompletion.mockImplementation(params => {
+          if (params.model === 'slow/model') {
+            primarySignal = params.abortSignal;
+            return waitForAbort(params.abortSignal);
+          }
+          return Promise.resolve({ ...mockCompletionResult, model: 'fast/model' });
+        });
+
+        // Act
+        const result = await service.chatCompletion({ ...mockRequest, hedge_after_ms: 10 });
+
+        // Assert
+        expect(result.model).toBe('fast/model');
+        expect(result._router.model_name).toBe('fast-model');
+        expect(result._router.attempts).toBe(2);
+        expect(result._router.hedge_winner).toBe('hedge');
+        expect(result._router.errors).toBeUndefined();
+        expect(primarySignal?.aborted).toBe(true);
+        expect(selectorService.selectNextModel).toHaveBeenLastCalledWith(expect.anything(), [
+          'openrouter/slow-model',
+        ]);
+      });
+
+      it('should not hedge when primary model responds in time', async () => {
+        // Arrange
+        selectorService.selectNextModel.mockReturnValue(mockModel);
+        mockProvider.chatCompletion.mockResolvedValue(mockCompletionResult);
+
+        // Act
+        const result = await service.chatCompletion({ ...mockRequest, hedge_after_ms: 1000 });
+
+        // Assert
+        expect(result._router.attempts).toBe(1);
+        expect(result._router.hedge_winner).toBeUndefined();
+        expect(mockProvider.chatCompletion).toHaveBeenCalledTimes(1);
+        expect(selectorService.selectNextModel).toHaveBeenCalledTimes(1);
+      });
+
+      it('should report primary failure when hedge wins', async () => {
+        // Arrange
+        selectorService.selectNextModel
+          .mockReturnValueOnce(slowModel)
+          .mockReturnValueOnce(fastModel);
+        const serverError = new Error('Server error');
+        (serverError as any).response = { status: 500 };
+        mockProvider.chatCompletion.mockImplementation(params =>
+          params.model === 'slow/model'
+            ? new Promise((_, reject) => setTimeout(() => reject(serverError), 20))
+            : new Promise(resolve => setTimeout(() => resolve(mockCompletionResult), 40)),
+        );
+
+        // Act
+        const result = await service.chatCompletion({
+          ...mockRequest,
+          hedge_after_ms: 5,
+          max_same_model_retries: 0,
+        });
+
+        // Assert
+        expect(result._router.hedge_winner).toBe('hedge');
+        expect(result._router.errors).toEqual([
+          expect.objectContaining({ model: 'slow-model', code: 500 }),
+        ]);
+      });
+
+      it('should hedge streaming request on slow first chunk', async () => {
+        // Arrange
+        selectorService.selectNextModel
+          .mockReturnValueOnce(slowModel)
+          .mockReturnValueOnce(fastModel);
+        mockProvider.chatCompletionStream.mockImplementation(params =>
+          (async function* () {
+            if (params.model === 'slow/model') {
+              await waitForAbort(params.abortSignal);
+            }
+            yield { id: 'chunk-1', model: params.model, delta: { content: 'Hi' } };
+            yield { id: 'chunk-1', model: params.model, delta: {}, finishReason: 'stop' as const };
+          })(),
+        );
+
+        // Act
+        const chunks = [];
+        for await (const chunk of service.chatCompletionStream({
+          ...mockRequest,
+          stream: true,
+          hedge_after_ms: 10,
+        })) {
+          chunks.push(chunk);
+        }
+
+        // Assert
+        expect(chunks).toHaveLength(2);
+        expect(chunks[0]._router).toMatchObject({
+          model_name: 'fast-model',
+          attempts: 2,
+          hedge_winner: 'hedge',
+        });
+        expect(circuitBreaker.onSuccess).toHaveBeenCalledWith('fast-model', expect.any(Number));
+        expect(circuitBreaker.onFailure).not.toHaveBeenCalled();
+      });
+    });
+
     it('should include router metadata in response', async () => {
       // Arrange
       selectorService.selectNextModel.mockReturnValue(mockModel);
@@ -396,4 +1172,215 @@ describe('RouterService', () => {
       });
     });
   });
+
+  describe('total timeout', () => {
+    /**
+     * Provider error after the call took `elapsedMs`
+     */
+    const failAfter = (elapsedMs: number, status: number) => () => {
+      jest.advanceTimersByTime(elapsedMs);
+      const error = new Error(`Provider error ${status}`);
+      (error as any).response = { status };
+      return Promise.reject(error);
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      selectorService.selectNextModel.mockReturnValue(mockModel);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should report remaining budget in router metadata', async () => {
+      // Arrange
+      mockProvider.chatCompletion.mockImplementation(() => {
+        jest.advanceTimersByTime(3000);
+        return Promise.resolve(mockCompletionResult);
+      });
+
+      // Act
+      const result = await service.chatCompletion({ ...mockRequest, total_timeout_secs: 10 });
+
+      // Assert
+      expect(result._router.budget_remaining_ms).toBe(7000);
+    });
+
+    it('should throw DeadlineExceededError instead of switching models when budget is exhausted', async () => {
+      // Arrange
+      mockProvider.chatCompletion.mockImplementation(failAfter(1500, 500));
+
+      // Act
+      const promise = service.chatCompletion({ ...mockRequest, total_timeout_secs: 2 });
+
+      // Assert
+      await expect(promise).rejects.toThrow(DeadlineExceededError);
+      await expect(promise).rejects.toMatchObject({ attemptCount: 1, totalTimeoutSecs: 2 });
+      expect(mockProvider.chatCompletion).toHaveBeenCalledTimes(1);
+      expect(selectorService.selectNextModel).toHaveBeenCalledTimes(1);
+    });
+
+    it('should switch model instead of retrying when retry delay does not fit into budget', async () => {
+      // Arrange
+      selectorService.selectNextModel
+        .mockReturnValueOnce(mockModel)
+        .mockReturnValueOnce({ ...mockModel, name: 'model-2', model: 'test/model-2' });
+      mockProvider.chatCompletion.mockImplementation(failAfter(1000, 429));
+
+      // Act
+      const promise = service.chatCompletion({
+        ...mockRequest,
+        total_timeout_secs: 2,
+        max_same_model_retries: 3,
+        retry_delay: 100,
+      });
+
+      // Assert
+      await expect(promise).rejects.toThrow(DeadlineExceededError);
+      expect(mockProvider.chatCompletion.mock.calls.map(([params]) => params.model)).toEqual([
+        'test/model',
+        'test/model-2',
+      ]);
+    });
+
+    it('should not use fallback when budget is exhausted', async () => {
+      // Arrange
+      mockProvider.chatCompletion.mockImplementation(failAfter(1500, 500));
+
+      // Act & Assert
+      await expect(
+        service.chatCompletion({ ...mockRequest, total_timeout_secs: 2, max_model_switches: 1 }),
+      ).rejects.toThrow(DeadlineExceededError);
+      expect(stateService.recordFallbackUsage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('embeddings', () => {
+    const embeddingModel: ModelDefinition = {
+      ...mockModel,
+      name: 'embed-model',
+      model: 'embed/model',
+      type: 'embedding',
+    };
+    const embeddingsRequest: EmbeddingsRequestDto = { input: ['first', 'second'] };
+    const embeddingsResult = {
+      model: 'embed/model',
+      embeddings: [
+        [0.5, -1],
+        [0.25, 2],
+      ],
+      usage: { promptTokens: 4, completionTokens: 0, totalTokens: 4 },
+    };
+
+    afterEach(() => {
+      delete mockConfig.routing.embeddingsFallback;
+    });
+
+    it('should select an embedding model and map the result', async () => {
+      // Arrange
+      selectorService.selectNextModel.mockReturnValue(embeddingModel);
+      mockProvider.embeddings.mockResolvedValue(embeddingsResult);
+
+      // Act
+      const result = await service.embeddings({ ...embeddingsRequest, dimensions: 2 });
+
+      // Assert
+      expect(selectorService.selectNextModel).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'embedding' }),
+        [],
+      );
+      expect(mockProvider.embeddings).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: 'embed/model',
+          input: ['first', 'second'],
+          dimensions: 2,
+        }),
+      );
+      expect(result).toMatchObject({
+        object: 'list',
+        data: [
+          { object: 'embedding', index: 0, embedding: [0.5, -1] },
+          { object: 'embedding', index: 1, embedding: [0.25, 2] },
+        ],
+        model: 'embed/model',
+        usage: { prompt_tokens: 4, total_tokens: 4 },
+        _router: { provider: 'openrouter', model_name: 'embed-model', attempts: 1 },
+      });
+    });
+
+    it('should encode vectors as base64 float32 when requested', async () => {
+      // Arrange
+      selectorService.selectNextModel.mockReturnValue(embeddingModel);
+      mockProvider.embeddings.mockResolvedValue(embeddingsResult);
+
+      // Act
+      const result = await service.embeddings({ input: 'first', encoding_format: 'base64' });
+
+      // Assert
+      expect(mockProvider.embeddings).toHaveBeenCalledWith(
+        expect.objectContaining({ input: ['first'] }),
+      );
+      const decoded = new Float32Array(
+        new Uint8Array(Buffer.from(result.data[0].embedding as string, 'base64')).buffer,
+      );
+      expect(Array.from(decoded)).toEqual([0.5, -1]);
+    });
+
+    it('should switch embedding model on server error', async () => {
+      // Arrange
+      const nextModel = { ...embeddingModel, name: 'embed-model-2', model: 'embed/model-2' };
+      selectorService.selectNextModel
+        .mockReturnValueOnce(embeddingModel)
+        .mockReturnValueOnce(nextModel);
+      const error = Object.assign(new Error('Server error'), { response: { status: 500 } });
+      mockProvider.embeddings.mockRejectedValueOnce(error).mockResolvedValueOnce(embeddingsResult);
+
+      // Act
+      const result = await service.embeddings(embeddingsRequest);
+
+      // Assert
+      expect(result._router).toMatchObject({ model_name: 'embed-model-2', attempts: 2 });
+      expect(result._router.errors).toHaveLength(1);
+      expect(selectorService.selectNextModel).toHaveBeenLastCalledWith(expect.anything(), [
+        'openrouter/embed-model',
+      ]);
+    });
+
+    it('should not use the chat fallback for embeddings', async () => {
+      // Arrange
+      selectorService.selectNextModel.mockReturnValue(null);
+
+      // Act & Assert
+      await expect(service.embeddings(embeddingsRequest)).rejects.toMatchObject({
+        name: 'AllModelsFailedError',
+      });
+      expect(mockProvider.embeddings).not.toHaveBeenCalled();
+    });
+
+    it('should use embeddings fallback when configured', async () => {
+      // Arrange
+      mockConfig.routing.embeddingsFallback = {
+        enabled: true,
+        provider: 'deepseek',
+        model: 'fallback-embed',
+      };
+      selectorService.selectNextModel.mockReturnValue(null);
+      mockProvider.embeddings.mockResolvedValue(embeddingsResult);
+
+      // Act
+      const result = await service.embeddings(embeddingsRequest);
+
+      // Assert
+      expect(mockProvider.embeddings).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'fallback-embed' }),
+      );
+      expect(result._router).toMatchObject({
+        provider: 'deepseek',
+        model_name: 'fallback-embed',
+        fallback_used: true,
+      });
+      expect(stateService.recordFallbackUsage).toHaveBeenCalled();
+    });
+  });
 });
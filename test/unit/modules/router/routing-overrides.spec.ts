@@ -13,6 +13,7 @@ import { PROVIDERS_MAP } from '../../../../src/modules/providers/providers.modul
 import type { ChatCompletionRequestDto } from '../../../../src/modules/router/dto/chat-completion.request.dto.js';
 import type { LlmProvider } from '../../../../src/modules/providers/interfaces/provider.interface.js';
 import type { RouterConfig } from '../../../../src/config/router-config.interface.js';
+import { DeadlineExceededError } from '../../../../src/common/errors/router.errors.js';
 
 describe('RouterService - Routing Overrides', () => {
   let service: RouterService;
@@ -109,9 +110,11 @@ describe('RouterService - Routing Overrides', () => {
         {
           provide: RequestBuilderService,
           useValue: {
-            buildChatCompletionParams: jest.fn().mockImplementation((req: any) => ({
-              timeoutSecs: req.timeout_secs,
-            })),
+            buildChatCompletionParams: jest
+              .fn()
+              .mockImplementation((req: any, _model: any, _signal: any, timeoutSecs: any) => ({
+                timeoutSecs: timeoutSecs ?? req.timeout_secs,
+              })),
             hasImageContent: jest.fn().mockReturnValue(false),
           },
         },
@@ -119,6 +122,8 @@ describe('RouterService - Routing Overrides', () => {
           provide: RateLimiterService,
           useValue: {
             checkModel: jest.fn().mockReturnValue(true),
+            getApiKeyPool: jest.fn().mockReturnValue(undefined),
+            hasAvailableApiKey: jest.fn().mockReturnValue(false),
           },
         },
         {
@@ -217,6 +222,33 @@ describe('RouterService - Routing Overrides', () => {
       );
     });
 
+    it('should use retry backoff from request instead of config', async () => {
+      const request: ChatCompletionRequestDto = {
+        messages: [{ role: 'user', content: 'test' }],
+        retry_backoff: 'exponential',
+        max_retry_delay: 8000,
+      };
+
+      selectorService.selectNextModel.mockReturnValue(mockModel);
+      mockProvider.chatCompletion.mockResolvedValue({
+        id: 'test',
+        model: 'test-model',
+        content: 'response',
+        finishReason: 'stop',
+        usage: { promptTokens: 10, completionTokens: 20, totalTokens: 30 },
+      });
+
+      const executeWithRetrySpy = jest.spyOn(retryHandler, 'executeWithRetry');
+
+      await service.chatCompletion(request);
+
+      expect(executeWithRetrySpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          backoff: { strategy: 'exponential', maxDelay: 8000 },
+        }),
+      );
+    });
+
     it('should use config values when request overrides are not provided', async () => {
       const request: ChatCompletionRequestDto = {
         messages: [{ role: 'user', content: 'test' }],
@@ -293,5 +325,55 @@ describe('RouterService - Routing Overrides', () => {
         }),
       );
     });
+
+    it('should shrink provider timeout to total_timeout_secs and report remaining budget', async () => {
+      const request: ChatCompletionRequestDto = {
+        messages: [{ role: 'user', content: 'test' }],
+        timeout_secs: 120,
+        total_timeout_secs: 10,
+      };
+
+      selectorService.selectNextModel.mockReturnValue(mockModel);
+      mockProvider.chatCompletion.mockResolvedValue({
+        id: 'test',
+        model: 'test-model',
+        content: 'response',
+        finishReason: 'stop',
+        usage: { promptTokens: 10, completionTokens: 20, totalTokens: 30 },
+      });
+
+      const result = await service.chatCompletion(request);
+
+      const { timeoutSecs } = mockProvider.chatCompletion.mock.calls[0][0];
+      expect(timeoutSecs).toBeGreaterThan(9);
+      expect(timeoutSecs).toBeLessThanOrEqual(10);
+      expect(result._router.budget_remaining_ms).toBeGreaterThan(9000);
+      expect(result._router.budget_remaining_ms).toBeLessThanOrEqual(10_000);
+    });
+
+    it('should stop switching models when total deadline is exceeded', async () => {
+      const request: ChatCompletionRequestDto = {
+        messages: [{ role: 'user', content: 'test' }],
+        total_timeout_secs: 5,
+      };
+
+      const startTime = Date.now();
+      const nowSpy = jest.spyOn(Date, 'now');
+      selectorService.selectNextModel.mockReturnValue(mockModel);
+      mockProvider.chatCompletion.mockImplementation(() => {
+        // Provider call takes the whole budget
+        nowSpy.mockReturnValue(startTime + 5000);
+        const error = new Error('Service unavailable');
+        (error as any).response = { status: 503 };
+        return Promise.reject(error);
+      });
+
+      try {
+        await expect(service.chatCompletion(request)).rejects.toBeInstanceOf(DeadlineExceededError);
+        expect(mockProvider.chatCompletion).toHaveBeenCalledTimes(1);
+      } finally {
+        nowSpy.mockRestore();
+      }
+    });
   });
 });
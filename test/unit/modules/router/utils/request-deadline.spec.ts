@@ -0,0 +1,38 @@
+import { jest, describe, it, expect, afterEach } from '@jest/globals';
+import { RequestDeadline } from '../../../../../src/modules/router/utils/request-deadline.js';
+
+describe('RequestDeadline', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should not limit anything without total timeout', () => {
+    const deadline = new RequestDeadline();
+
+    expect(deadline.remainingMs()).toBeUndefined();
+    expect(deadline.canAttempt(1_000_000)).toBe(true);
+    expect(deadline.limitTimeoutSecs(60)).toBeUndefined();
+  });
+
+  it('should shrink timeout to remaining budget', () => {
+    jest.useFakeTimers();
+    const deadline = new RequestDeadline(30);
+
+    expect(deadline.limitTimeoutSecs(10)).toBe(10);
+
+    jest.advanceTimersByTime(25_000);
+    expect(deadline.remainingMs()).toBe(5000);
+    expect(deadline.limitTimeoutSecs(10)).toBe(5);
+  });
+
+  it('should skip attempts that cannot get minimal budget', () => {
+    jest.useFakeTimers();
+    const deadline = new RequestDeadline(10);
+
+    expect(deadline.canAttempt(8000)).toBe(true);
+    expect(deadline.canAttempt(9500)).toBe(false);
+
+    jest.advanceTimersByTime(9500);
+    expect(deadline.canAttempt()).toBe(false);
+  });
+});
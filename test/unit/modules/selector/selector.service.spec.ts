@@ -111,6 +111,42 @@ describe('SelectorService', () => {
       expect(result).toBeNull();
       expect(strategy.select).not.toHaveBeenCalled();
     });
+
+    it('should apply client policy to filtered models and priority list', () => {
+      const deepseekModel = { ...mockModel, name: 'ds', provider: 'deepseek', tags: ['code'] };
+      mockModelsService.filter.mockReturnValue([mockModel, deepseekModel]);
+      mockModelsService.findByNameAndProvider.mockReturnValue([mockModel]);
+      mockStrategy.select.mockReturnValue(deepseekModel);
+
+      service.selectModel({ allowedProviders: ['deepseek'] });
+      expect(strategy.select).toHaveBeenCalledWith([deepseekModel], expect.anything());
+
+      service.selectModel({ allowedTags: ['general'] });
+      expect(strategy.select).toHaveBeenLastCalledWith([mockModel], expect.anything());
+
+      const result = service.selectModel({
+        models: [{ name: 'test-model' }],
+        allowAutoFallback: false,
+        allowedTags: ['code'],
+      });
+      expect(result).toBeNull();
+    });
+
+    it('should restrict models to providers accepting request parameters', () => {
+      const deepseekModel = { ...mockModel, name: 'ds', provider: 'deepseek' };
+      mockModelsService.filter.mockReturnValue([mockModel, deepseekModel]);
+      mockModelsService.findByNameAndProvider.mockReturnValue([mockModel]);
+
+      service.selectModel({ providers: ['deepseek'] });
+      expect(strategy.select).toHaveBeenCalledWith([deepseekModel], expect.anything());
+
+      const result = service.selectModel({
+        models: [{ name: 'test-model' }],
+        allowAutoFallback: false,
+        providers: ['deepseek'],
+      });
+      expect(result).toBeNull();
+    });
   });
 
   describe('selectNextModel', () => {
@@ -206,6 +206,53 @@ describe('SmartStrategy', () => {
       expect(selections['model-low-weight']).toBeGreaterThan(50);
     });
 
+    it('should skip last resort models while other candidates are available', () => {
+      const localModel: ModelDefinition = {
+        ...mockModels[0],
+        name: 'local-model',
+        provider: 'ollama',
+        weight: 100,
+        lastResort: true,
+      };
+
+      for (let i = 0; i < 20; i++) {
+        const result = strategy.select([localModel, mockModels[1]], {});
+        expect(result?.name).toBe('model-low-weight');
+      }
+    });
+
+    it('should select last resort model when it is the only candidate', () => {
+      const localModel: ModelDefinition = {
+        ...mockModels[0],
+        name: 'local-model',
+        provider: 'ollama',
+        lastResort: true,
+      };
+
+      const result = strategy.select([localModel, mockModels[1]], {
+        excludeModels: ['model-low-weight'],
+      });
+
+      expect(result?.name).toBe('local-model');
+    });
+
+    it('should prefer reasoning models when preferReasoning is true', () => {
+      for (let i = 0; i < 20; i++) {
+        const result = strategy.select(mockModels, { preferReasoning: true });
+        expect(result?.name).toBe('model-low-weight');
+      }
+    });
+
+    it('should fall back to other models when no reasoning model is available', () => {
+      const result = strategy.select(mockModels, {
+        preferReasoning: true,
+        excludeModels: ['model-low-weight'],
+        selectionMode: 'best',
+      });
+
+      expect(result?.name).toBe('model-high-weight');
+    });
+
     it('should return null when all models filtered out', () => {
       circuitBreaker.filterAvailable.mockReturnValue([]);
 
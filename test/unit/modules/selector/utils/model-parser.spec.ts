@@ -56,6 +56,15 @@ describe('model-parser', () => {
           allowAutoFallback: false,
         });
       });
+
+      it('should parse tag alias', () => {
+        const result = parseModelInput('tag:code&tier-1');
+        expect(result).toEqual({
+          models: [],
+          allowAutoFallback: true,
+          tags: 'code&tier-1',
+        });
+      });
     });
 
     describe('array input', () => {
@@ -126,6 +135,15 @@ describe('model-parser', () => {
         });
       });
 
+      it('should treat tag alias as auto fallback restricted to tags', () => {
+        const result = parseModelInput(['deepseek-r1', 'tag:code', 'qwen']);
+        expect(result).toEqual({
+          models: [{ name: 'deepseek-r1' }],
+          allowAutoFallback: true,
+          tags: 'code',
+        });
+      });
+
       it('should handle array with only "auto"', () => {
         const result = parseModelInput(['auto']);
         expect(result).toEqual({